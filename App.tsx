@@ -1,25 +1,137 @@
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import GalaxyCanvas from './components/GalaxyCanvas';
+import GalaxyCanvas, { GalaxyCaptureHandle } from './components/GalaxyCanvas';
 import GestureController from './components/GestureController';
-import { SimulationParams, ChatMessage } from './types';
-import { generateCosmicAnalysis } from './services/geminiService';
-import { Sparkles, Activity, Maximize2, Zap, Mic, MicOff } from 'lucide-react';
+import StateReadout from './components/StateReadout';
+import InputSourcePanel from './components/InputSourcePanel';
+import SessionControls from './components/SessionControls';
+import PhysicsControls from './components/PhysicsControls';
+import MorphologyControls from './components/MorphologyControls';
+import CameraControls from './components/CameraControls';
+import CaptureControls from './components/CaptureControls';
+import AnalysisSettingsPanel from './components/AnalysisSettingsPanel';
+import TelemetryPanel from './components/TelemetryPanel';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import GestureMappingPanel from './components/GestureMappingPanel';
+import PresetsPanel from './components/PresetsPanel';
+import TimelineEditor from './components/TimelineEditor';
+import ParamMeters from './components/ParamMeters';
+import AdvancedParamsPanel from './components/AdvancedParamsPanel';
+import SharedSessionPanel from './components/SharedSessionPanel';
+import SoundControls from './components/SoundControls';
+import CaptainsLogPanel from './components/CaptainsLogPanel';
+import AccessibilityPanel from './components/AccessibilityPanel';
+import LiveAnnouncer, { Announcement } from './components/LiveAnnouncer';
+import { SessionControlsHandle } from './components/SessionControls';
+import { SimulationParams, ChatMessage, ChatAction, SimulationState } from './types';
+import { AnalysisSettings, loadAnalysisSettings, PROVIDER_LABELS, runAnalysis, saveAnalysisSettings } from './services/analysisService';
+import { SimulationStateMachine } from './services/simulationStateMachine';
+import { InputManager, InputProvider } from './services/inputManager';
+import { GamepadInputProvider, ManualInputProvider, MidiInputProvider, PushInputProvider } from './services/inputProviders';
+import { InputBindings, loadInputBindings, saveInputBindings } from './services/inputBindings';
+import { clampParam, DEFAULT_PARAMS, isParamKey } from './services/paramSchema';
+import { SessionRecorder } from './services/sessionRecording';
+import { AudioInputProvider } from './services/audioInput';
+import { CaptainsLog, entryKey, LogEntry } from './services/captainsLog';
+import {
+  AccessibilitySettings,
+  ACTION_SHORTCUTS,
+  isEditableTarget,
+  loadAccessibilitySettings,
+  resolveReducedMotion,
+  saveAccessibilitySettings,
+  STATE_ANNOUNCEMENTS,
+  systemPrefersReducedMotion,
+  watchReducedMotion
+} from './services/accessibility';
+import { DEFAULT_PHYSICS, PhysicsSettings, SerializedSimulation } from './simulation/galaxySimulation';
+import { EngineStats } from './simulation/workerProtocol';
+import { DEFAULT_MORPHOLOGY, describeMorphology, Morphology } from './simulation/morphology';
+import { CAMERA_LIMITS, CameraPose, DEFAULT_CAMERA, describeCamera, normalizeCamera } from './simulation/camera';
+import { CaptureMetadata, composeSnapshot, HudOverlay, SnapshotResult } from './services/capture';
+import { downloadBlob, fileTimestamp } from './services/download';
+import { parseVoiceCommand, VoiceCommand } from './services/voiceCommands';
+import { findPreset, loadPresets, Preset, toPresetParams } from './services/presets';
+import { decodeShareHash, encodeShareHash } from './services/shareLink';
+import { loadTimeline, saveTimeline, Timeline, TimelinePlayer } from './services/timeline';
+import { ParamAnimator } from './services/paramAnimator';
+import { executeToolCall, SIMULATION_TOOLS, ToolContext } from './services/simulationTools';
+import { TelemetryRecorder } from './services/telemetry';
+import {
+  loadSharedSessionSettings,
+  saveSharedSessionSettings,
+  SessionWorld,
+  SharedSession,
+  SharedSessionSettings,
+  SharedSessionStatus
+} from './services/sharedSession';
+import { CameraInput, handConfidence } from './services/gesturePipeline';
+import { describeMapping, GestureAction, GestureMapping, loadGestureMapping, saveGestureMapping } from './services/gestureMapping';
+import { ParticleMetrics } from './simulation/metrics';
+import { ListenerStatus, loadVoiceSettings, saveVoiceSettings, SpeechOutput, VoiceListener, VoiceSettings } from './services/speechService';
+import { Sparkles, Activity, Mic, MicOff, Square, Undo2, Settings, Hand } from 'lucide-react';
 
 const INITIAL_PARAMS: SimulationParams = {
-  chaos: 0.1,
-  scale: 0.5,
+  ...DEFAULT_PARAMS,
   active: false
 };
 
+// How long a gesture action that sets params keeps the pinches from taking them back
+const ACTION_HOLD_MS = 2000;
+
 export default function App() {
+  // A shared link (#chaos=...&seed=...) reopens the galaxy it was copied from
+  const [shared] = useState(() => decodeShareHash(window.location.hash));
   // Use Ref for high-frequency updates to avoid React render cycle overhead on the canvas
-  const paramsRef = useRef<SimulationParams>(INITIAL_PARAMS);
+  const paramsRef = useRef<SimulationParams>({ ...INITIAL_PARAMS, ...shared.params });
   // Use State for low-frequency UI updates (labels, chat)
-  const [uiParams, setUiParams] = useState<SimulationParams>(INITIAL_PARAMS);
+  const [uiParams, setUiParams] = useState<SimulationParams>(paramsRef.current);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Latest messages for callbacks created in earlier renders (e.g. speech recognition)
+  const messagesRef = useRef<ChatMessage[]>([]);
+  messagesRef.current = messages;
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [showAnalysisSettings, setShowAnalysisSettings] = useState(false);
+
+  const updateAnalysisSettings = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    saveAnalysisSettings(settings);
+  };
   const [cameraReady, setCameraReady] = useState(false);
-  const [isListening, setIsListening] = useState(false);
+  const [cameraFailed, setCameraFailed] = useState(false);
+  const [inputController, setInputController] = useState<string | null>(null);
+  const [listenerStatus, setListenerStatus] = useState<ListenerStatus>('idle');
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+  const [speech] = useState(() => new SpeechOutput());
+
+  const updateVoiceSettings = (settings: VoiceSettings) => {
+    setVoiceSettings(settings);
+    saveVoiceSettings(settings);
+  };
+  // Accessibility: motion and contrast preferences, plus what screen readers are told
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  useEffect(() => watchReducedMotion(setSystemReducedMotion), []);
+  const reducedMotion = resolveReducedMotion(accessibility.motion, systemReducedMotion);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+
+  const updateAccessibility = (settings: AccessibilitySettings) => {
+    setAccessibility(settings);
+    saveAccessibilitySettings(settings);
+  };
+  const announce = useCallback((text: string) => {
+    // Only the newest few are kept; older ones have been read already
+    setAnnouncements(prev => [...prev.slice(-4), { id: (prev[prev.length - 1]?.id ?? 0) + 1, text }]);
+  }, []);
+
+  // Single state machine shared by the canvas (which ticks it) and anything that wants transition events
+  const [stateMachine] = useState(() => new SimulationStateMachine());
+
+  useEffect(() => {
+    return stateMachine.subscribe(({ to }) => announce(STATE_ANNOUNCEMENTS[to]));
+  }, [stateMachine, announce]);
 
   // Update loop handler
   const handleParamsUpdate = useCallback((newParams: Partial<SimulationParams>) => {
@@ -32,77 +144,638 @@ export default function App() {
     setUiParams(prev => ({ ...prev, ...newParams }));
   }, []);
 
+  const [timeline, setTimeline] = useState<Timeline>(loadTimeline);
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadInputBindings);
+  // Input sources, highest priority first. Spectating a shared session overrides everything,
+  // then a loaded session replay; otherwise hand tracking wins whenever hands are visible and the rest keep the simulation
+  // controllable on machines without a camera.
+  const [inputs] = useState(() => {
+    const getCurrent = () => paramsRef.current;
+    return {
+      shared: new PushInputProvider('shared', 'Shared Session'),
+      replay: new PushInputProvider('replay', 'Session Replay'),
+      hand: new PushInputProvider('hand', 'Hand Tracking'),
+      timeline: new TimelinePlayer(timeline),
+      gamepad: new GamepadInputProvider(getCurrent, inputBindings.gamepadAxes),
+      midi: new MidiInputProvider(inputBindings.midiCc),
+      audio: new AudioInputProvider(),
+      manual: new ManualInputProvider(getCurrent)
+    };
+  });
+
+  const updateInputBindings = (bindings: InputBindings) => {
+    setInputBindings(bindings);
+    saveInputBindings(bindings);
+    inputs.gamepad.setAxes(bindings.gamepadAxes);
+    inputs.midi.setCcMap(bindings.midiCc);
+  };
+  const [inputManager, setInputManager] = useState<InputManager | null>(null);
+  const [recorder] = useState(() => new SessionRecorder());
+  const [physics, setPhysics] = useState<PhysicsSettings>(shared.physics ?? DEFAULT_PHYSICS);
+  const [morphology, setMorphology] = useState<Morphology>(shared.morphology ?? DEFAULT_MORPHOLOGY);
+  // The engine reads the ref every frame; the state only feeds the controls and the share link
+  const [camera, setCamera] = useState<CameraPose>(shared.camera ?? DEFAULT_CAMERA);
+  const cameraRef = useRef(camera);
+  const cameraSyncRef = useRef<number | null>(null);
+  const [engineStats, setEngineStats] = useState<EngineStats | null>(null);
+  // Fixed per page load so captures can record exactly which galaxy they show
+  const [seed, setSeed] = useState(() => shared.seed ?? Date.now());
+  const captureRef = useRef<GalaxyCaptureHandle | null>(null);
+  const [telemetry] = useState(() => new TelemetryRecorder());
+  const handConfidenceRef = useRef(0);
+
+  // Engine metrics arrive ~10x a second; combine them with the inputs into one sample
+  const handleMetrics = useCallback((metrics: ParticleMetrics) => {
+    telemetry.push({
+      ...metrics,
+      time: performance.now(),
+      chaos: paramsRef.current.chaos,
+      scale: paramsRef.current.scale,
+      state: stateMachine.getState(),
+      handConfidence: handConfidenceRef.current
+    });
+  }, [telemetry, stateMachine]);
+
+  const [paused, setPaused] = useState(false);
+  const sessionControlRef = useRef<SessionControlsHandle | null>(null);
+  const [gestureMapping, setGestureMapping] = useState<GestureMapping>(loadGestureMapping);
+  const [showGestureMapping, setShowGestureMapping] = useState(false);
+  const presetIndexRef = useRef(-1);
+
+  const updateGestureMapping = (mapping: GestureMapping) => {
+    setGestureMapping(mapping);
+    saveGestureMapping(mapping);
+  };
+
+  // Whether snapshots (from the capture panel, voice or gestures) include the HUD
+  const [snapshotHud, setSnapshotHud] = useState(true);
+  const getHud = (): HudOverlay => ({ params: { ...paramsRef.current }, state: stateMachine.getState() });
+
+  const getCaptureMetadata = (): CaptureMetadata => ({
+    app: 'nebula-control',
+    version: 1,
+    capturedAt: new Date().toISOString(),
+    params: { ...paramsRef.current },
+    state: stateMachine.getState(),
+    seed,
+    physics,
+    morphology,
+    camera: cameraRef.current
+  });
+
+  const updateCamera = useCallback((pose: CameraPose) => {
+    cameraRef.current = pose;
+    setCamera(pose);
+  }, []);
+
+  // Drags and hands move the camera every frame; the controls catch up a few times a second
+  const steerCamera = useCallback((pose: CameraPose) => {
+    cameraRef.current = pose;
+    if (cameraSyncRef.current !== null) return;
+    cameraSyncRef.current = window.setTimeout(() => {
+      cameraSyncRef.current = null;
+      setCamera(cameraRef.current);
+    }, 100);
+  }, []);
+
+  useEffect(() => () => {
+    if (cameraSyncRef.current !== null) window.clearTimeout(cameraSyncRef.current);
+  }, []);
+
+  // Hand orbit is absolute: the hand's roll/tilt picks the angle directly
+  const handleOrbitInput = useCallback((input: CameraInput) => {
+    const current = cameraRef.current;
+    if (current.mode !== '3d') return;
+    steerCamera(normalizeCamera({
+      ...current,
+      azimuth: input.cameraAzimuth !== undefined ? input.cameraAzimuth * 360 - 180 : current.azimuth,
+      inclination: input.cameraInclination !== undefined ? input.cameraInclination * CAMERA_LIMITS.inclination.max : current.inclination
+    }));
+  }, [steerCamera]);
+
+  useEffect(() => {
+    const manager = new InputManager((newParams, controller) => {
+      handleParamsUpdate(newParams);
+      setInputController(controller);
+    });
+    manager.register(inputs.shared);
+    manager.register(inputs.replay);
+    manager.register(inputs.hand);
+    manager.register(inputs.timeline);
+    manager.register(inputs.gamepad);
+    manager.register(inputs.midi);
+    // Opt-in: enabling it prompts for the microphone
+    manager.register(inputs.audio, false);
+    manager.register(inputs.manual);
+    setInputManager(manager);
+    return () => manager.dispose();
+  }, [inputs, handleParamsUpdate]);
+
+  // Hands override the timeline when hand tracking ranks above it
+  const [gestureOverride, setGestureOverride] = useState(true);
+  useEffect(() => inputManager?.subscribeStatus(() => {
+    setGestureOverride(inputManager.hasPriorityOver(inputs.hand.id, inputs.timeline.id));
+  }), [inputManager, inputs]);
+
+  const changeGestureOverride = (override: boolean) => {
+    if (override) inputManager?.moveAfter(inputs.timeline.id, inputs.hand.id);
+    else inputManager?.moveBefore(inputs.timeline.id, inputs.hand.id);
+  };
+
+  const updateTimeline = (next: Timeline) => {
+    setTimeline(next);
+    saveTimeline(next);
+    inputs.timeline.setTimeline(next);
+  };
+
+  const applyPreset = (preset: Preset) => {
+    handleParamsUpdate(preset.params);
+    if (preset.camera) updateCamera(preset.camera);
+  };
+
+  const getShareUrl = () => {
+    const { origin, pathname, search } = window.location;
+    return `${origin}${pathname}${search}${encodeShareHash({ params: toPresetParams(paramsRef.current), seed, physics, morphology, camera: cameraRef.current })}`;
+  };
+
+  // Keep the address bar pointing at the current galaxy once the params settle. Keyed on the
+  // encoded hash so re-renders that change nothing don't restart the wait.
+  const shareHash = encodeShareHash({ params: toPresetParams(uiParams), seed, physics, morphology, camera });
+  useEffect(() => {
+    const timer = window.setTimeout(() => window.history.replaceState(null, '', getShareUrl()), 500);
+    return () => window.clearTimeout(timer);
+  }, [shareHash]);
+
+  const handleCameraReady = useCallback((ready: boolean) => {
+    setCameraReady(ready);
+    inputs.hand.setAvailable(ready);
+  }, [inputs]);
+
+  const handleCameraError = useCallback(() => {
+    setCameraFailed(true);
+    handConfidenceRef.current = 0;
+    inputs.hand.setAvailable(false);
+    announce('Camera unavailable. The galaxy can be steered from the keyboard.');
+  }, [inputs, announce]);
+
+  // Hands count as tracked while the hand provider itself is engaged, whichever source is in control
+  const handsTrackedRef = useRef(false);
+  useEffect(() => inputManager?.subscribeStatus(statuses => {
+    const tracked = !!statuses.find(status => status.id === inputs.hand.id)?.engaged;
+    if (tracked === handsTrackedRef.current) return;
+    handsTrackedRef.current = tracked;
+    announce(tracked ? 'Hand tracking acquired.' : 'Hand tracking lost.');
+  }), [inputManager, inputs, announce]);
+
+  // Shared session: the controller streams its galaxy, spectators follow it
+  const [sharedSessionSettings, setSharedSessionSettings] = useState<SharedSessionSettings>(loadSharedSessionSettings);
+  const [sharedSession, setSharedSession] = useState<SharedSession | null>(null);
+  const [sharedSessionStatus, setSharedSessionStatus] = useState<SharedSessionStatus | null>(null);
+  const [sharedSessionError, setSharedSessionError] = useState<string | null>(null);
+  const spectating = sharedSession !== null && sharedSessionStatus?.role === 'spectator';
+  // Controller's particles for the engine to pick up once it runs the same seed
+  const restoreRef = useRef<SerializedSimulation | null>(null);
+  const worldRef = useRef<SessionWorld>({ seed, physics, morphology, paused });
+  worldRef.current = { seed, physics, morphology, paused };
+  // Chat messages already sent or received, by key, so they are not echoed back
+  const syncedMessagesRef = useRef(new Map<string, ChatMessage>());
+
+  const receiveChat = useCallback((message: ChatMessage) => {
+    const key = `${message.role}:${message.timestamp}`;
+    syncedMessagesRef.current.set(key, message);
+    setMessages(prev => {
+      const rest = prev.filter(msg => `${msg.role}:${msg.timestamp}` !== key);
+      // Keep the conversation in time order; a user message comes before its reply
+      return [...rest, message].sort((a, b) => a.timestamp - b.timestamp || (a.role === 'user' ? -1 : 1) - (b.role === 'user' ? -1 : 1));
+    });
+  }, []);
+
+  // Only what differs is applied: a new physics object or galaxy type would restart or morph the galaxy
+  const receiveWorld = useCallback((world: SessionWorld) => {
+    const current = worldRef.current;
+    if (world.seed !== current.seed) setSeed(world.seed);
+    if (JSON.stringify(world.physics) !== JSON.stringify(current.physics)) setPhysics(world.physics);
+    if (JSON.stringify(world.morphology) !== JSON.stringify(current.morphology)) setMorphology(world.morphology);
+    if (world.paused !== current.paused) setPaused(world.paused);
+  }, []);
+
+  const joinSharedSession = (settings: SharedSessionSettings) => {
+    setSharedSessionSettings(settings);
+    saveSharedSessionSettings(settings);
+    setSharedSessionError(null);
+    try {
+      const getFrame = () => ({ params: { ...paramsRef.current }, state: stateMachine.getState(), camera: cameraRef.current });
+      setSharedSession(new SharedSession(settings, {
+        getFrame,
+        getSnapshot: async () => {
+          // A joiner still gets the world and chat if the particles can't be had
+          const simulation = await captureRef.current?.serialize().catch(err => {
+            console.warn("Could not serialize the simulation:", err);
+            return undefined;
+          });
+          return { ...worldRef.current, ...getFrame(), messages: messagesRef.current, simulation };
+        },
+        onFrame: ({ params, state, camera: pose }) => {
+          // Already checked and clamped by the session
+          inputs.shared.push({ ...params, active: true });
+          stateMachine.follow(state);
+          steerCamera(pose);
+        },
+        onWorld: receiveWorld,
+        onSimulation: simulation => {
+          restoreRef.current = simulation;
+        },
+        onChat: receiveChat
+      }));
+    } catch (err) {
+      setSharedSessionError(err instanceof Error ? err.message : "Could not join the session.");
+    }
+  };
+
+  // Leaving (or replacing) a session says goodbye to the room
+  useEffect(() => {
+    if (!sharedSession) return;
+    const unsubscribe = sharedSession.subscribe(setSharedSessionStatus);
+    return () => {
+      unsubscribe();
+      sharedSession.leave();
+      setSharedSessionStatus(null);
+    };
+  }, [sharedSession]);
+
+  // Spectators hand the params and state over to the remote controller
+  useEffect(() => {
+    inputs.shared.setAvailable(spectating);
+    if (spectating) return;
+    inputs.shared.push({ active: false });
+    stateMachine.follow(null);
+  }, [spectating, inputs, stateMachine]);
+
+  const controlling = sharedSessionStatus?.role === 'controller';
+  useEffect(() => {
+    if (controlling) sharedSession?.publishWorld({ seed, physics, morphology, paused });
+  }, [sharedSession, controlling, seed, physics, morphology, paused]);
+
+  // Streaming replies change many times a second; send the chat in batches
+  useEffect(() => {
+    if (!sharedSession) return;
+    const timer = window.setTimeout(() => {
+      messages.forEach(message => {
+        const key = `${message.role}:${message.timestamp}`;
+        if (syncedMessagesRef.current.get(key) === message) return;
+        syncedMessagesRef.current.set(key, message);
+        sharedSession.publishChat(message);
+      });
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [sharedSession, messages]);
+
+  // Captain's log: every message is kept with the galaxy it was written in. Streaming replies
+  // are written once they settle; the snapshot is taken the first time a message is seen.
+  const [captainsLog] = useState(() => new CaptainsLog());
+  const loggedRef = useRef(new Map<string, LogEntry>());
+  const [logError, setLogError] = useState<string | null>(null);
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const changed: LogEntry[] = [];
+      messages.forEach(message => {
+        if (!message.text && !message.cancelled) return;
+        const key = entryKey(captainsLog.sessionId, message);
+        const logged = loggedRef.current.get(key);
+        if (logged?.message === message) return;
+        // A reply shares its prompt's timestamp and is logged with the params the prompt was sent with
+        const prompt = messages.find(msg => msg.role === 'user' && msg.timestamp === message.timestamp);
+        const params = message.params ?? prompt?.params ?? paramsRef.current;
+        const entry = logged
+          ? { ...logged, message }
+          : captainsLog.entry(message, toPresetParams(params), stateMachine.getState(), cameraRef.current);
+        loggedRef.current.set(key, entry);
+        changed.push(entry);
+      });
+      captainsLog.put(changed).then(
+        () => setLogError(null),
+        err => {
+          console.warn("Could not persist captain's log:", err);
+          setLogError(err instanceof Error ? err.message : "Could not write to the log.");
+        }
+      );
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [captainsLog, stateMachine, messages]);
+
+  const restoreLogEntry = (entry: LogEntry) => {
+    handleParamsUpdate(entry.params);
+    if (entry.camera) updateCamera(entry.camera);
+    stateMachine.restore(entry.state);
+  };
+
+  // Replies are read out once they have finished streaming
+  const announcedRepliesRef = useRef(new Set<number>());
+  useEffect(() => {
+    messages.forEach((message, index) => {
+      if (message.role !== 'model' || !message.text) return;
+      if (isAnalyzing && index === messages.length - 1) return;
+      if (announcedRepliesRef.current.has(message.timestamp)) return;
+      announcedRepliesRef.current.add(message.timestamp);
+      announce(message.text);
+    });
+  }, [messages, isAnalyzing, announce]);
+
+  // Abandon any in-flight reply when the app goes away
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  // Tool calls from the AI observer act on the same params as every other input
+  const [animator] = useState(() => new ParamAnimator(() => paramsRef.current, params => handleParamsUpdate(params)));
+  useEffect(() => () => animator.cancel(), [animator]);
+  const toolContext: ToolContext = {
+    getParams: () => paramsRef.current,
+    applyParams: handleParamsUpdate,
+    animator,
+    getCamera: () => cameraRef.current
+  };
+  // Undo callbacks by action id; kept out of the messages so those stay plain data
+  const undoRef = useRef(new Map<string, () => void>());
+
+  const undoAction = (actionId: string) => {
+    const undo = undoRef.current.get(actionId);
+    if (!undo) return;
+    undo();
+    undoRef.current.delete(actionId);
+    setMessages(prev => prev.map(msg => (msg.actions?.some(a => a.id === actionId)
+      ? { ...msg, actions: msg.actions.map(a => (a.id === actionId ? { ...a, undone: true } : a)) }
+      : msg)));
+  };
+
   const handleAnalyze = async (customPrompt?: string) => {
-    if (isAnalyzing) return;
+    if (analysisAbortRef.current) return;
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
+    speech.stop();
     
     const displayText = customPrompt || 'Analyze current simulation status.';
+    const history = messagesRef.current;
 
-    // Add user request
+    // Add user request, plus an empty reply that fills in as tokens stream
     const userMsg: ChatMessage = {
       role: 'user',
       text: displayText,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      params: { ...paramsRef.current }
+    };
+    const reply: ChatMessage = {
+      role: 'model',
+      text: '',
+      timestamp: userMsg.timestamp
     };
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, reply]);
 
-    // Call Gemini
-    const analysis = await generateCosmicAnalysis(
-      paramsRef.current.chaos, 
-      paramsRef.current.scale,
-      customPrompt
-    );
+    const updateReply = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(msg => (msg.role === 'model' && msg.timestamp === reply.timestamp ? { ...msg, ...patch } : msg)));
+    };
 
-    const aiMsg: ChatMessage = {
-      role: 'model',
-      text: analysis,
-      timestamp: Date.now()
+    const actions: ChatAction[] = [];
+    const current = {
+      ...paramsRef.current,
+      state: stateMachine.getState(),
+      morphology: describeMorphology(morphology),
+      view: cameraRef.current.mode === '3d' ? describeCamera(cameraRef.current) : undefined,
+      recent: telemetry.summarize()
     };
-    setMessages(prev => [...prev, aiMsg]);
+    const { text: analysis, providerId, skipped } = await runAnalysis(analysisSettings, { history, telemetry: current, userQuery: customPrompt }, {
+      signal: controller.signal,
+      onText: text => updateReply({ text }),
+      tools: SIMULATION_TOOLS,
+      onToolCall: call => {
+        const result = executeToolCall(call, toolContext);
+        if (result.action) {
+          const id = `${reply.timestamp}-${actions.length}`;
+          undoRef.current.set(id, result.action.undo);
+          actions.push({ id, summary: result.action.summary });
+          updateReply({ actions: [...actions] });
+        }
+        return result.response;
+      }
+    });
+
+    updateReply({
+      text: analysis,
+      cancelled: controller.signal.aborted,
+      provider: providerId,
+      skipped: skipped.length ? skipped.map(({ providerId: id, reason }) => `${PROVIDER_LABELS[id]}: ${reason}`) : undefined
+    });
+    analysisAbortRef.current = null;
     setIsAnalyzing(false);
+    if (voiceSettings.speakReplies && !controller.signal.aborted) speech.speak(analysis, voiceSettings);
   };
 
-  const startListening = () => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+  const cancelAnalysis = () => analysisAbortRef.current?.abort();
 
-    if (!SpeechRecognition) {
-      alert("Voice recognition is not supported in this browser.");
-      return;
+  const takeSnapshot = async (): Promise<SnapshotResult> => {
+    const handle = captureRef.current;
+    if (!handle) return 'unavailable';
+    try {
+      const metadata = getCaptureMetadata();
+      const png = await composeSnapshot(await handle.snapshot(), metadata, snapshotHud ? getHud() : null);
+      downloadBlob(png, `nebula-${fileTimestamp()}.png`);
+      return 'ok';
+    } catch (err) {
+      console.error("Snapshot failed:", err);
+      return 'failed';
     }
+  };
 
-    const recognition = new SpeechRecognition();
-    recognition.lang = 'en-US';
-    recognition.interimResults = false;
-    recognition.maxAlternatives = 1;
+  // Discrete hand gestures, as bound in the gesture mapping
+  // Both hands are in view for most gestures, so the hand provider would overwrite any params an
+  // action sets on the very next frame. State changes go to the state machine instead, which
+  // holds them for their dwell time; param changes are held on the hand channels for a moment.
+  const handHoldUntilRef = useRef(0);
+  const pushHandParams = useCallback((params: Partial<SimulationParams>) => {
+    if (performance.now() >= handHoldUntilRef.current) {
+      inputs.hand.push(params);
+      return;
+    }
+    const held = { ...params };
+    Object.keys(held).forEach(key => {
+      if (isParamKey(key)) held[key] = paramsRef.current[key];
+    });
+    inputs.hand.push(held);
+  }, [inputs]);
 
-    setIsListening(true);
+  const handleGesture = (action: GestureAction) => {
+    if (action === 'cyclePreset' || action === 'reset') handHoldUntilRef.current = performance.now() + ACTION_HOLD_MS;
+    switch (action) {
+      case 'triggerSupernova':
+        stateMachine.restore(SimulationState.SUPERNOVA);
+        break;
+      case 'triggerCollapse':
+        stateMachine.restore(SimulationState.COLLAPSING);
+        break;
+      case 'cyclePreset': {
+        const presets = loadPresets();
+        if (presets.length === 0) break;
+        presetIndexRef.current = (presetIndexRef.current + 1) % presets.length;
+        const preset = presets[presetIndexRef.current];
+        executeToolCall({ name: 'set_parameters', args: { ...preset.params } }, toolContext);
+        if (preset.camera) updateCamera(preset.camera);
+        break;
+      }
+      case 'toggleRecording':
+        sessionControlRef.current?.toggleRecording();
+        break;
+      case 'takeSnapshot':
+        takeSnapshot();
+        break;
+      case 'toggleFreeze':
+        setPaused(p => !p);
+        break;
+      case 'reset':
+        executeToolCall({ name: 'set_parameters', args: { chaos: INITIAL_PARAMS.chaos, scale: INITIAL_PARAMS.scale } }, toolContext);
+        break;
+    }
+  };
+  const gestureHandlerRef = useRef(handleGesture);
+  gestureHandlerRef.current = handleGesture;
 
-    recognition.onresult = (event: any) => {
-      const transcript = event.results[0][0].transcript;
-      setIsListening(false);
-      handleAnalyze(transcript);
+  // The same actions from the keyboard, for anyone not using hand tracking
+  useEffect(() => {
+    if (spectating || !accessibility.keyboardShortcuts) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey || isEditableTarget(event.target)) return;
+      const shortcut = ACTION_SHORTCUTS.find(({ key }) => key === event.key.toLowerCase());
+      if (!shortcut) return;
+      event.preventDefault();
+      gestureHandlerRef.current(shortcut.action);
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [spectating, accessibility.keyboardShortcuts]);
 
-    recognition.onerror = (event: any) => {
-      console.error("Speech recognition error", event.error);
-      setIsListening(false);
-    };
+  // Simple commands from the local grammar run instantly, without asking the AI
+  const runVoiceCommand = async (transcript: string, command: VoiceCommand) => {
+    const actions: ChatAction[] = [];
+    const timestamp = Date.now();
+    const paramsBefore = { ...paramsRef.current };
+    let text = 'Acknowledged.';
 
-    recognition.onend = () => {
-      setIsListening(false);
+    const record = (summary: string, undo?: () => void) => {
+      const id = `${timestamp}-${actions.length}`;
+      if (undo) undoRef.current.set(id, undo);
+      actions.push({ id, summary });
+    };
+    const setParams = (args: Record<string, unknown>, summary?: string) => {
+      const result = executeToolCall({ name: 'set_parameters', args }, toolContext);
+      if (result.action) record(summary ?? result.action.summary, result.action.undo);
     };
 
-    recognition.start();
+    switch (command.intent) {
+      case 'set':
+        setParams({ [command.param]: command.value });
+        break;
+      case 'adjust':
+        setParams({ [command.param]: clampParam(command.param, paramsRef.current[command.param] + command.delta) });
+        break;
+      case 'reset':
+        setParams({ chaos: INITIAL_PARAMS.chaos, scale: INITIAL_PARAMS.scale }, 'Reset galaxy');
+        break;
+      case 'freeze':
+        setPaused(command.frozen);
+        record(command.frozen ? 'Freeze galaxy' : 'Resume galaxy', () => setPaused(!command.frozen));
+        break;
+      case 'loadPreset': {
+        const preset = findPreset(command.name);
+        if (!preset) {
+          text = `No preset named "${command.name}".`;
+          break;
+        }
+        setParams({ ...preset.params }, `Load preset "${preset.name}"`);
+        if (preset.camera) {
+          const previous = cameraRef.current;
+          updateCamera(preset.camera);
+          record(`Restore the view of "${preset.name}"`, () => updateCamera(previous));
+        }
+        break;
+      }
+      case 'snapshot': {
+        const result = await takeSnapshot();
+        if (result === 'ok') record('Take snapshot');
+        else text = result === 'unavailable' ? 'Snapshot unavailable.' : 'Snapshot failed.';
+        break;
+      }
+    }
+
+    setMessages(prev => [
+      ...prev,
+      { role: 'user', text: transcript, timestamp, params: paramsBefore },
+      { role: 'model', text, timestamp, actions, provider: 'local' }
+    ]);
+    if (voiceSettings.speakReplies) speech.speak(text, voiceSettings);
+  };
+
+  // Transcripts arrive from listener callbacks created once; always route them to the latest handler
+  const handleTranscript = (transcript: string) => {
+    const command = parseVoiceCommand(transcript);
+    if (command) runVoiceCommand(transcript, command);
+    else if (transcript) handleAnalyze(transcript);
+    else handleAnalyze();
   };
+  const transcriptHandlerRef = useRef(handleTranscript);
+  transcriptHandlerRef.current = handleTranscript;
+
+  const [listener] = useState(() => new VoiceListener({
+    onTranscript: transcript => transcriptHandlerRef.current(transcript),
+    // Barge-in: talking over a spoken reply cuts it off
+    onSpeech: () => speech.stop(),
+    onStatus: (status, error) => {
+      setListenerStatus(status);
+      setVoiceError(error ?? null);
+    }
+  }));
+
+  // Hands-free mode keeps a recognizer running for as long as it's switched on
+  useEffect(() => {
+    if (!voiceSettings.continuous || !listener.supported) return;
+    listener.listenContinuously(voiceSettings.lang);
+    return () => listener.stop();
+  }, [listener, voiceSettings.continuous, voiceSettings.lang]);
+
+  const toggleListening = () => {
+    if (voiceSettings.continuous) {
+      updateVoiceSettings({ ...voiceSettings, continuous: false });
+    } else if (listenerStatus === 'listening') {
+      listener.stop();
+    } else {
+      speech.stop();
+      listener.listenOnce(voiceSettings.lang);
+    }
+  };
+
+  const isListening = listenerStatus === 'listening';
+
+  const controllerLabel = Object.values<InputProvider>(inputs).find(p => p.id === inputController)?.label ?? '';
 
   return (
-    <div className="relative w-full h-screen bg-black text-white overflow-hidden selection:bg-cyan-500/30">
+    <div className={`relative w-full h-screen bg-black text-white overflow-hidden selection:bg-cyan-500/30 ${accessibility.highContrast ? 'hud-contrast' : ''} ${reducedMotion ? 'reduce-motion' : ''}`}>
       
       {/* Background Simulation */}
-      <GalaxyCanvas params={paramsRef} />
+      <GalaxyCanvas
+        params={paramsRef}
+        stateMachine={stateMachine}
+        seed={seed}
+        physics={physics}
+        morphology={morphology}
+        paused={paused}
+        reducedMotion={reducedMotion}
+        onStats={setEngineStats}
+        onMetrics={handleMetrics}
+        captureRef={captureRef}
+        restore={restoreRef}
+        camera={cameraRef}
+        onCameraChange={steerCamera}
+      />
 
       {/* Main UI Overlay */}
-      <div className={`relative z-10 w-full h-full pointer-events-none transition-opacity duration-1000 ${cameraReady ? 'opacity-100' : 'opacity-0'}`}>
+      <div className={`relative z-10 w-full h-full pointer-events-none transition-opacity duration-1000 ${cameraReady || cameraFailed || spectating ? 'opacity-100' : 'opacity-0'}`}>
         
         {/* Header */}
         <header className="absolute top-0 left-0 w-full p-6 flex justify-between items-start pointer-events-auto">
@@ -110,51 +783,102 @@ export default function App() {
             <h1 className="text-4xl font-bold tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-violet-400">
               NEBULA<span className="text-white text-base ml-2 font-light opacity-50">CONTROL INTERFACE</span>
             </h1>
-            <p className="text-xs text-white/40 mt-1 max-w-md font-mono">
-              INSTRUCTIONS: Pinch LEFT hand for Chaos. Pinch RIGHT hand for Scale.
-            </p>
+            <div className="flex items-start gap-2 text-xs text-white/40 mt-1 max-w-md font-mono">
+              <p>INSTRUCTIONS: {describeMapping(gestureMapping).join('. ') || 'No gestures bound'}.</p>
+              <button
+                onClick={() => setShowGestureMapping(open => !open)}
+                aria-expanded={showGestureMapping}
+                className={`shrink-0 hover:text-cyan-300 ${showGestureMapping ? 'text-cyan-300' : ''}`}
+                title="Edit gesture bindings"
+              >
+                <Hand size={14} />
+              </button>
+            </div>
+            {showGestureMapping && <GestureMappingPanel mapping={gestureMapping} onChange={updateGestureMapping} />}
+            {inputManager && (
+              <InputSourcePanel
+                manager={inputManager}
+                manual={inputs.manual}
+                params={uiParams}
+                bindings={inputBindings}
+                onBindingsChange={updateInputBindings}
+              />
+            )}
+            <AdvancedParamsPanel manual={inputs.manual} params={uiParams} />
+            <PresetsPanel getParams={() => toPresetParams(paramsRef.current)} getCamera={() => cameraRef.current} onApply={applyPreset} getShareUrl={getShareUrl} />
+            <TimelineEditor
+              player={inputs.timeline}
+              timeline={timeline}
+              onChange={updateTimeline}
+              getParams={() => toPresetParams(paramsRef.current)}
+              gestureOverride={gestureOverride}
+              onGestureOverrideChange={changeGestureOverride}
+            />
+            <SharedSessionPanel
+              settings={sharedSessionSettings}
+              session={sharedSession}
+              status={sharedSessionStatus}
+              error={sharedSessionError}
+              onJoin={joinSharedSession}
+              onLeave={() => setSharedSession(null)}
+            />
+            <CaptainsLogPanel log={captainsLog} onRestore={restoreLogEntry} writeError={logError} />
+            <AccessibilityPanel settings={accessibility} onChange={updateAccessibility} systemReducedMotion={systemReducedMotion} />
           </div>
           
-          <GestureController 
-            onParamsUpdate={handleParamsUpdate} 
-            onCameraReady={setCameraReady}
-          />
+          {/* Spectators watch someone else's hands; no camera needed */}
+          {!spectating && <GestureController 
+            onParamsUpdate={pushHandParams}
+            onCameraReady={handleCameraReady}
+            onCameraError={handleCameraError}
+            mapping={gestureMapping}
+            onGesture={(_, action) => handleGesture(action)}
+            onOrbitInput={handleOrbitInput}
+            onHandResult={(result, params, timestampMs) => {
+              handConfidenceRef.current = handConfidence(result);
+              recorder.addFrame(result, params, timestampMs);
+            }}
+          />}
         </header>
 
         {/* HUD Stats (Left Bottom) */}
         <div className="absolute bottom-10 left-10 space-y-6 pointer-events-auto w-64">
-          {/* Scale Meter */}
-          <div className="space-y-2">
-            <div className="flex justify-between items-center text-sm font-mono text-cyan-300">
-              <span className="flex items-center gap-2"><Maximize2 size={16} /> GRAVITY WELL</span>
-              <span>{(uiParams.scale * 100).toFixed(0)}%</span>
-            </div>
-            <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden border border-white/10">
-              <div 
-                className="h-full bg-gradient-to-r from-cyan-600 to-cyan-400 transition-all duration-100 ease-linear"
-                style={{ width: `${uiParams.scale * 100}%` }}
-              />
-            </div>
-          </div>
+          <StateReadout stateMachine={stateMachine} />
+          <TelemetryPanel telemetry={telemetry} />
 
-          {/* Chaos Meter */}
-          <div className="space-y-2">
-            <div className="flex justify-between items-center text-sm font-mono text-violet-300">
-              <span className="flex items-center gap-2"><Zap size={16} /> ENTROPY</span>
-              <span>{(uiParams.chaos * 100).toFixed(0)}%</span>
-            </div>
-            <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden border border-white/10">
-              <div 
-                className="h-full bg-gradient-to-r from-violet-600 to-violet-400 transition-all duration-100 ease-linear"
-                style={{ width: `${uiParams.chaos * 100}%` }}
-              />
-            </div>
-          </div>
+          <ParamMeters params={uiParams} manual={spectating ? undefined : inputs.manual} />
 
           <div className="flex items-center gap-2 text-xs font-mono text-white/30">
              <Activity size={12} className={uiParams.active ? "text-green-500 animate-pulse" : "text-red-500"} />
-             STATUS: {uiParams.active ? "HANDS DETECTED - LINK ESTABLISHED" : "SEARCHING FOR BIO-INPUT..."}
+             STATUS: {uiParams.active
+               ? (inputController === 'hand' ? "HANDS DETECTED - LINK ESTABLISHED" : `LINK ESTABLISHED - ${controllerLabel.toUpperCase()}`)
+               : "SEARCHING FOR BIO-INPUT..."}
           </div>
+
+          <PhysicsControls physics={physics} onChange={setPhysics} />
+          <MorphologyControls morphology={morphology} onChange={setMorphology} />
+          <CameraControls camera={camera} onChange={pose => updateCamera(normalizeCamera(pose))} />
+          <SoundControls params={paramsRef} stateMachine={stateMachine} />
+          {engineStats && (
+            <div className="text-[10px] font-mono text-white/30">
+              {engineStats.particleCount.toLocaleString()} STARS · {engineStats.fps} FPS · {engineStats.detail === 'high' ? 'HI' : 'LO'}-DETAIL{paused && ' · FROZEN'}
+            </div>
+          )}
+
+          <SessionControls
+            recorder={recorder}
+            onReplayParams={inputs.replay.push}
+            onReplayLoaded={inputs.replay.setAvailable}
+            controlRef={sessionControlRef}
+          />
+
+          <CaptureControls
+            captureRef={captureRef}
+            getMetadata={getCaptureMetadata}
+            onSnapshot={takeSnapshot}
+            includeHud={snapshotHud}
+            onIncludeHudChange={setSnapshotHud}
+          />
         </div>
 
         {/* AI Analysis Panel (Right Bottom) */}
@@ -167,7 +891,30 @@ export default function App() {
                     ? 'bg-violet-900/20 border-violet-500/30 text-violet-100 rounded-tl-none self-start mr-8' 
                     : 'bg-cyan-900/20 border-cyan-500/30 text-cyan-100 rounded-tr-none self-end ml-8 text-right'
                 }`}>
-                  <p className="leading-relaxed">{msg.text}</p>
+                  {msg.text && <p className="leading-relaxed">{msg.text}</p>}
+                  {!msg.text && !msg.cancelled && <p className="leading-relaxed animate-pulse">...</p>}
+                  {msg.actions?.map(action => (
+                    <div key={action.id} className="flex items-center justify-between gap-2 mt-2 text-[10px] font-mono text-cyan-300/80">
+                      <span className={action.undone ? 'line-through opacity-50' : ''}>&gt; {action.summary}</span>
+                      {!action.undone && undoRef.current.has(action.id) && (
+                        <button onClick={() => undoAction(action.id)} className="flex items-center gap-1 hover:text-white" title="Undo">
+                          <Undo2 size={10} /> UNDO
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {msg.cancelled && <p className="text-[10px] font-mono text-white/40 mt-1">TRANSMISSION CANCELLED</p>}
+                  {msg.provider && msg.provider !== analysisSettings.provider && (
+                    <p className="text-[10px] font-mono text-white/40 mt-1" title={msg.skipped?.join('\n')}>
+                      VIA {(PROVIDER_LABELS[msg.provider as keyof typeof PROVIDER_LABELS] ?? msg.provider).toUpperCase()}
+                    </p>
+                  )}
+                  {/* Every backend failed, the selected one included: say why */}
+                  {msg.provider === analysisSettings.provider && msg.skipped && (
+                    <ul className="text-[10px] font-mono text-red-300/70 mt-1">
+                      {msg.skipped.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  )}
                 </div>
               ))}
               {messages.length === 0 && (
@@ -177,41 +924,74 @@ export default function App() {
               )}
            </div>
 
+           {showAnalysisSettings && (
+             <>
+               <AnalysisSettingsPanel settings={analysisSettings} onChange={updateAnalysisSettings} />
+               <VoiceSettingsPanel
+                 settings={voiceSettings}
+                 onChange={updateVoiceSettings}
+                 output={speech}
+                 recognitionSupported={listener.supported}
+               />
+             </>
+           )}
+
+           {/* Listening indicator */}
+           {(isListening || voiceError) && (
+             <div className={`flex items-center gap-2 text-[10px] font-mono ${voiceError ? 'text-red-400' : 'text-red-300'}`}>
+               {!voiceError && <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />}
+               {voiceError ?? (voiceSettings.continuous ? 'LISTENING FOR "NEBULA, ..."' : 'LISTENING...')}
+             </div>
+           )}
+
            {/* Controls */}
            <div className="flex gap-2">
+             <button
+                onClick={() => setShowAnalysisSettings(open => !open)}
+                aria-expanded={showAnalysisSettings}
+                className={`p-3 rounded-full transition-all duration-300 border bg-white/10 hover:bg-white/20 text-white hover:border-cyan-400
+                  ${showAnalysisSettings ? 'border-cyan-400' : 'border-white/20'}`}
+                title="AI and voice settings"
+             >
+                <Settings size={18} />
+             </button>
+
              {/* Voice Button */}
              <button
-                onClick={startListening}
-                disabled={isAnalyzing || isListening}
-                className={`p-3 rounded-full font-bold tracking-wider transition-all duration-300 border
+                onClick={toggleListening}
+                disabled={!listener.supported}
+                className={`p-3 rounded-full font-bold tracking-wider transition-all duration-300 border disabled:opacity-30 disabled:cursor-not-allowed
                   ${isListening 
                     ? 'bg-red-500/20 text-red-400 border-red-500 animate-pulse shadow-[0_0_15px_rgba(239,68,68,0.5)]' 
                     : 'bg-white/10 hover:bg-white/20 text-white border-white/20 hover:border-cyan-400'
                   }
-                  ${isAnalyzing ? 'opacity-50 cursor-not-allowed' : ''}
                 `}
-                title="Voice Command"
+                title={!listener.supported
+                  ? "Voice input is not supported in this browser"
+                  : voiceSettings.continuous ? "Turn off hands-free listening" : "Voice Command"}
              >
                 {isListening ? <Mic size={18} /> : <MicOff size={18} />}
              </button>
 
-             {/* AI Trigger Button */}
+             {/* AI Trigger Button (cancels while a reply is streaming) */}
              <button
-               onClick={() => handleAnalyze()}
-               disabled={isAnalyzing || isListening}
+               onClick={() => (isAnalyzing ? cancelAnalysis() : handleAnalyze())}
                className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold tracking-wider transition-all duration-300
                  ${isAnalyzing 
-                   ? 'bg-gray-800 text-gray-400 cursor-not-allowed border border-white/5' 
+                   ? 'bg-gray-800 text-gray-300 border border-white/10 hover:border-red-400' 
                    : 'bg-white/10 hover:bg-white/20 text-white border border-white/20 hover:border-cyan-400 hover:shadow-[0_0_20px_rgba(34,211,238,0.3)]'
                  }`}
+               title={isAnalyzing ? "Cancel analysis" : "Analyze"}
              >
-               <Sparkles size={18} className={isAnalyzing ? "animate-spin" : ""} />
-               {isAnalyzing ? "ANALYZING..." : "ANALYZE"}
+               {isAnalyzing ? <Square size={18} /> : <Sparkles size={18} />}
+               {isAnalyzing ? "CANCEL" : "ANALYZE"}
              </button>
            </div>
         </div>
 
       </div>
+
+      <LiveAnnouncer announcements={announcements} />
     </div>
   );
 }
\ No newline at end of file
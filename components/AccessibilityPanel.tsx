@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Accessibility } from 'lucide-react';
+import { AccessibilitySettings, ACTION_SHORTCUTS, MotionPreference } from '../services/accessibility';
+import { ACTION_LABELS } from '../services/gestureMapping';
+
+interface AccessibilityPanelProps {
+  settings: AccessibilitySettings;
+  onChange: (settings: AccessibilitySettings) => void;
+  // What 'system' currently resolves to
+  systemReducedMotion: boolean;
+}
+
+const MOTION_LABELS: Record<MotionPreference, string> = {
+  system: 'SYSTEM',
+  reduce: 'REDUCED',
+  full: 'FULL'
+};
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ settings, onChange, systemReducedMotion }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        className="flex items-center gap-2 text-white/50 hover:text-white transition-colors"
+      >
+        <Accessibility size={12} /> ACCESSIBILITY
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-3 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md text-white/60">
+          <fieldset className="space-y-1">
+            <legend className="text-white/40">MOTION</legend>
+            <div className="flex gap-3">
+              {(['system', 'reduce', 'full'] as MotionPreference[]).map(motion => (
+                <label key={motion} className="flex items-center gap-1">
+                  <input
+                    type="radio"
+                    name="motion"
+                    checked={settings.motion === motion}
+                    onChange={() => onChange({ ...settings, motion })}
+                    className="accent-cyan-400"
+                  />
+                  {MOTION_LABELS[motion]}
+                </label>
+              ))}
+            </div>
+            {settings.motion === 'system' && (
+              <div className="text-white/30">System asks for {systemReducedMotion ? 'reduced' : 'full'} motion.</div>
+            )}
+          </fieldset>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.highContrast}
+              onChange={e => onChange({ ...settings, highContrast: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            HIGH-CONTRAST HUD
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.keyboardShortcuts}
+              onChange={e => onChange({ ...settings, keyboardShortcuts: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            SINGLE-KEY SHORTCUTS
+          </label>
+
+          <div className="space-y-1 pt-2 border-t border-white/10">
+            <div className="text-white/40">KEYBOARD</div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+              <dt className="text-cyan-300">← →</dt><dd>Entropy</dd>
+              <dt className="text-cyan-300">↑ ↓</dt><dd>Gravity well</dd>
+              <dt className="text-cyan-300">Tab</dt><dd>Every control; meters take arrows, Home and End</dd>
+              <dt className="text-cyan-300">3D view</dt><dd>Focus it, then arrows orbit and + − zoom</dd>
+              {settings.keyboardShortcuts && ACTION_SHORTCUTS.map(({ key, action }) => (
+                <React.Fragment key={key}>
+                  <dt className="text-cyan-300">{key.toUpperCase()}</dt><dd>{ACTION_LABELS[action]}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { SlidersVertical } from 'lucide-react';
+import { SimulationParams } from '../types';
+import { ManualInputProvider } from '../services/inputProviders';
+import { DEFAULT_PARAMS, formatParam, PARAM_SCHEMA } from '../services/paramSchema';
+
+interface AdvancedParamsPanelProps {
+  manual: ManualInputProvider;
+  params: SimulationParams;
+}
+
+// A slider for every param in the schema. Moving one hands control to the manual input source.
+const AdvancedParamsPanel: React.FC<AdvancedParamsPanelProps> = ({ manual, params }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="flex items-center gap-2 text-white/50 hover:text-white transition-colors">
+        <SlidersVertical size={12} /> ADVANCED
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md">
+          {PARAM_SCHEMA.map(spec => (
+            <label key={spec.key} className="block" title={spec.description}>
+              <span className="flex justify-between" style={{ color: spec.color }}>
+                <span>{spec.name.toUpperCase()}</span>
+                <span>{formatParam(spec.key, params[spec.key])}</span>
+              </span>
+              <input
+                type="range" min={spec.min} max={spec.max} step={spec.step}
+                value={params[spec.key]}
+                onChange={e => manual.set({ [spec.key]: Number(e.target.value) })}
+                className="w-full"
+                style={{ accentColor: spec.color }}
+              />
+            </label>
+          ))}
+          <button onClick={() => manual.set(DEFAULT_PARAMS)} className="text-cyan-300/80 hover:text-white">
+            RESTORE DEFAULTS
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedParamsPanel;
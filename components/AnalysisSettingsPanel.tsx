@@ -0,0 +1,78 @@
+import React from 'react';
+import { AnalysisProviderId } from '../services/analysisProvider';
+import { AnalysisSettings, PROVIDER_LABELS } from '../services/analysisService';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<AnalysisSettings>) => onChange({ ...settings, ...patch });
+
+  const inputClass = "flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-2 py-1 text-white/80";
+
+  return (
+    <div className="w-full p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md font-mono text-xs text-white/60">
+      <label className="flex items-center gap-2">
+        <span className="w-16">PROVIDER</span>
+        <select
+          value={settings.provider}
+          onChange={e => update({ provider: e.target.value as AnalysisProviderId })}
+          className={inputClass}
+        >
+          {(Object.keys(PROVIDER_LABELS) as AnalysisProviderId[]).map(id => (
+            <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+          ))}
+        </select>
+      </label>
+
+      {settings.provider === 'gemini' && (
+        <label className="flex items-center gap-2">
+          <span className="w-16">MODEL</span>
+          <input value={settings.geminiModel} onChange={e => update({ geminiModel: e.target.value })} className={inputClass} />
+        </label>
+      )}
+
+      {settings.provider === 'openai' && (
+        <>
+          <label className="flex items-center gap-2">
+            <span className="w-16">ENDPOINT</span>
+            <input
+              value={settings.localEndpoint}
+              onChange={e => update({ localEndpoint: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-16">MODEL</span>
+            <input value={settings.localModel} onChange={e => update({ localModel: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-16">API KEY</span>
+            <input
+              type="password"
+              value={settings.localApiKey}
+              onChange={e => update({ localApiKey: e.target.value })}
+              placeholder="optional"
+              className={inputClass}
+            />
+          </label>
+        </>
+      )}
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.fallback}
+          onChange={e => update({ fallback: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        Fall back to other providers on failure
+      </label>
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
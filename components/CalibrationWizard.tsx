@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { CalibrationSession } from '../services/handCalibration';
+
+interface CalibrationWizardProps {
+  session: CalibrationSession;
+  onFinish: (save: boolean) => void;
+}
+
+const INSTRUCTIONS = {
+  pinch: 'Touch thumb and index finger together on both hands and hold.',
+  spread: 'Now spread thumb and index finger as wide as is comfortable and hold.'
+};
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ session, onFinish }) => {
+  // The session is advanced by the detection loop; we only need to redraw periodically
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setTick(t => t + 1), 100);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const phase = session.getPhase();
+  const progress = session.getProgress();
+  const result = session.getResult();
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm pointer-events-auto">
+      <div className="w-96 p-6 space-y-4 rounded-xl border border-cyan-500/40 bg-black/80 font-mono text-sm text-cyan-100">
+        <h2 className="text-cyan-300 tracking-widest">PINCH CALIBRATION</h2>
+
+        {phase !== 'done' ? (
+          <>
+            <p className="text-xs text-white/40">STEP {phase === 'pinch' ? 1 : 2} / 2</p>
+            <p className="leading-relaxed">{INSTRUCTIONS[phase]}</p>
+            <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden border border-white/10">
+              <div
+                className="h-full bg-gradient-to-r from-cyan-600 to-cyan-400"
+                style={{ width: `${Math.min(Math.max(progress, 0), 1) * 100}%` }}
+              />
+            </div>
+            <p className="text-xs text-white/40">{progress < 0 ? 'GET READY...' : 'MEASURING...'}</p>
+            <button onClick={() => onFinish(false)} className="text-xs text-white/50 hover:text-white">
+              CANCEL
+            </button>
+          </>
+        ) : result ? (
+          <>
+            <p className="leading-relaxed">
+              Range measured: {result.minSpan.toFixed(2)} – {result.maxSpan.toFixed(2)} palm widths.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => onFinish(true)}
+                className="px-4 py-2 rounded-full bg-cyan-500/20 border border-cyan-400 text-cyan-200 hover:bg-cyan-500/30"
+              >
+                SAVE PROFILE
+              </button>
+              <button onClick={() => onFinish(false)} className="px-4 py-2 text-white/50 hover:text-white">
+                DISCARD
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="leading-relaxed text-red-300">
+              Not enough hand movement was detected. Keep your hands in view and try again.
+            </p>
+            <button onClick={() => onFinish(false)} className="px-4 py-2 text-white/50 hover:text-white">
+              CLOSE
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
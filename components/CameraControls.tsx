@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, RotateCcw } from 'lucide-react';
+import { CAMERA_LIMITS, CameraPose, DEFAULT_CAMERA } from '../simulation/camera';
+
+interface CameraControlsProps {
+  camera: CameraPose;
+  onChange: (camera: CameraPose) => void;
+}
+
+const CameraControls: React.FC<CameraControlsProps> = ({ camera, onChange }) => {
+  const is3d = camera.mode === '3d';
+
+  const slider = (label: string, title: string, key: 'inclination' | 'distance' | 'thickness', step: number, format: (value: number) => string) => (
+    <label className="flex items-center gap-1" title={title}>
+      <span className="w-12">{label}</span>
+      <input
+        type="range" min={CAMERA_LIMITS[key].min} max={CAMERA_LIMITS[key].max} step={step}
+        value={camera[key]}
+        onChange={e => onChange({ ...camera, [key]: Number(e.target.value) })}
+        className="flex-1 accent-cyan-400"
+      />
+      <span className="w-10 text-right">{format(camera[key])}</span>
+    </label>
+  );
+
+  return (
+    <div className="space-y-2 text-xs font-mono text-white/50">
+      <div className="flex items-center gap-3">
+        <Box size={12} />
+        <button
+          onClick={() => onChange({ ...camera, mode: is3d ? '2d' : '3d' })}
+          className={`px-3 py-1 rounded-full border transition-colors ${is3d ? 'border-cyan-400/60 text-cyan-300' : 'border-white/20 hover:text-white'}`}
+          title="Tilt the disc and view it in perspective"
+        >
+          {is3d ? '3D VIEW' : '2D VIEW'}
+        </button>
+        {is3d && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_CAMERA, mode: '3d' })}
+            className="flex items-center gap-1 hover:text-white"
+            title="Reset the view"
+          >
+            <RotateCcw size={12} /> RESET
+          </button>
+        )}
+      </div>
+      {is3d && (
+        <div className="pl-6 space-y-1">
+          {slider('TILT', 'Inclination: 0° face-on, 90° edge-on', 'inclination', 1, value => `${Math.round(value)}°`)}
+          {slider('DIST', 'Camera distance; closer exaggerates the perspective', 'distance', 0.05, value => value.toFixed(2))}
+          {slider('DEPTH', 'Disc thickness', 'thickness', 0.005, value => value.toFixed(3))}
+          <div className="text-white/30">Drag the sky to orbit, scroll to zoom.</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraControls;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookOpen, Download, Upload } from 'lucide-react';
+import { CaptainsLog, downloadLog, groupSessions, LogEntry, parseLog, searchLog } from '../services/captainsLog';
+
+interface CaptainsLogPanelProps {
+  log: CaptainsLog;
+  // Put the galaxy back the way it was when the entry was written
+  onRestore: (entry: LogEntry) => void;
+  // Why the latest messages could not be written, if they couldn't
+  writeError?: string | null;
+}
+
+const STATE_COLORS: Record<string, string> = {
+  STABLE: 'text-cyan-300',
+  UNSTABLE: 'text-amber-300',
+  COLLAPSING: 'text-violet-300',
+  SUPERNOVA: 'text-red-400'
+};
+
+const CaptainsLogPanel: React.FC<CaptainsLogPanelProps> = ({ log, onRestore, writeError }) => {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Only read the database while the panel is showing
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => log.getAll().then(setEntries, err => setError(err instanceof Error ? err.message : String(err)));
+    refresh();
+    return log.subscribe(refresh);
+  }, [log, open]);
+
+  const results = searchLog(entries, query);
+  const sessions = groupSessions(results);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      await log.put(parseLog(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read log.");
+    }
+  };
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="flex items-center gap-2 text-white/50 hover:text-white transition-colors">
+        <BookOpen size={12} /> CAPTAIN'S LOG
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md text-white/60">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search the log"
+            aria-label="Search the log"
+            className="w-full bg-black/60 border border-white/20 rounded px-2 py-1 text-white/80"
+          />
+
+          <div className="max-h-64 overflow-y-auto space-y-3">
+            {sessions.length === 0 && (
+              <div className="text-white/30">{entries.length === 0 ? 'Nothing logged yet.' : 'No matching entries.'}</div>
+            )}
+            {sessions.map(session => (
+              <div key={session.id}>
+                <div className="text-white/40 border-b border-white/10 pb-1 mb-1">
+                  {new Date(session.startedAt).toLocaleString()}{session.id === log.sessionId && ' · NOW'}
+                </div>
+                <ul className="space-y-1">
+                  {session.entries.map(entry => (
+                    <li key={entry.key}>
+                      <button
+                        onClick={() => onRestore(entry)}
+                        className="w-full text-left hover:bg-white/10 rounded px-1"
+                        title="Restore the galaxy as it was"
+                      >
+                        <span className={entry.message.role === 'user' ? 'text-cyan-100' : 'text-violet-200'}>
+                          {entry.message.role === 'user' ? '> ' : ''}{entry.message.text || '…'}
+                        </span>
+                        <span className="block text-[10px] text-white/30">
+                          {new Date(entry.message.timestamp).toLocaleTimeString()} · <span className={STATE_COLORS[entry.state]}>{entry.state}</span>
+                          {' '}· C {entry.params.chaos.toFixed(2)} · S {entry.params.scale.toFixed(2)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 pt-2 border-t border-white/10">
+            <button onClick={() => downloadLog(results, 'md')} disabled={results.length === 0} className="flex items-center gap-1 hover:text-cyan-300 disabled:opacity-30" title="Export the shown entries as Markdown">
+              <Download size={10} /> MD
+            </button>
+            <button onClick={() => downloadLog(results, 'json')} disabled={results.length === 0} className="flex items-center gap-1 hover:text-cyan-300 disabled:opacity-30" title="Export the shown entries as JSON">
+              <Download size={10} /> JSON
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 hover:text-cyan-300" title="Import a JSON log">
+              <Upload size={10} /> IMPORT
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          {error && <div className="text-red-400">{error}</div>}
+          {writeError && <div className="text-red-400">Not saved: {writeError}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptainsLogPanel;
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { Camera, Square, Video } from 'lucide-react';
+import { GalaxyCaptureHandle } from './GalaxyCanvas';
+import { CaptureMetadata, isVideoCaptureSupported, recordVideo, SnapshotResult } from '../services/capture';
+import { downloadBlob, fileTimestamp } from '../services/download';
+
+interface CaptureControlsProps {
+  captureRef: React.MutableRefObject<GalaxyCaptureHandle | null>;
+  getMetadata: () => CaptureMetadata;
+  // Shared with the voice and gesture snapshots, so the HUD choice applies to all of them
+  onSnapshot: () => Promise<SnapshotResult>;
+  includeHud: boolean;
+  onIncludeHudChange: (includeHud: boolean) => void;
+}
+
+const DURATIONS = [5, 10, 30, 60];
+const FRAMERATES = [30, 60];
+
+const CaptureControls: React.FC<CaptureControlsProps> = ({ captureRef, getMetadata, onSnapshot, includeHud, onIncludeHudChange }) => {
+  const [duration, setDuration] = useState(10);
+  const [fps, setFps] = useState(30);
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const takeSnapshot = async () => {
+    setError(null);
+    if ((await onSnapshot()) === 'failed') setError("Snapshot failed.");
+  };
+
+  const toggleRecording = async () => {
+    if (isRecording) {
+      abortRef.current?.abort();
+      return;
+    }
+
+    const handle = captureRef.current;
+    if (!handle) return;
+    setError(null);
+
+    // Params at the start of the clip go into a sidecar file (WebM has no simple text metadata)
+    const metadata = getMetadata();
+    const stamp = fileTimestamp();
+    abortRef.current = new AbortController();
+    setIsRecording(true);
+    try {
+      const video = await recordVideo(handle.captureStream(fps), duration * 1000, abortRef.current.signal);
+      downloadBlob(video, `nebula-${stamp}.webm`);
+      downloadBlob(new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }), `nebula-${stamp}.json`);
+    } catch (err) {
+      console.error("Recording failed:", err);
+      setError("Recording failed.");
+    } finally {
+      abortRef.current = null;
+      setIsRecording(false);
+    }
+  };
+
+  const buttonClass = "p-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 hover:border-cyan-400 transition-all disabled:opacity-30";
+  const selectClass = "bg-black/60 border border-white/20 rounded text-white/70";
+
+  return (
+    <div className="w-full space-y-2 font-mono text-xs text-white/50">
+      <div className="flex items-center gap-2">
+        <button onClick={takeSnapshot} className={buttonClass} title="Snapshot (PNG)">
+          <Camera size={14} />
+        </button>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={includeHud} onChange={e => onIncludeHudChange(e.target.checked)} className="accent-cyan-400" />
+          HUD
+        </label>
+
+        <button
+          onClick={toggleRecording}
+          disabled={!isVideoCaptureSupported()}
+          className={`${buttonClass} ${isRecording ? 'text-red-400 border-red-500 animate-pulse' : ''}`}
+          title={isRecording ? "Stop recording" : "Record clip (WebM)"}
+        >
+          {isRecording ? <Square size={14} /> : <Video size={14} />}
+        </button>
+        <select value={duration} onChange={e => setDuration(Number(e.target.value))} disabled={isRecording} className={selectClass}>
+          {DURATIONS.map(d => <option key={d} value={d}>{d}s</option>)}
+        </select>
+        <select value={fps} onChange={e => setFps(Number(e.target.value))} disabled={isRecording} className={selectClass}>
+          {FRAMERATES.map(f => <option key={f} value={f}>{f}fps</option>)}
+        </select>
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default CaptureControls;
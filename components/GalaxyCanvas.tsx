@@ -1,153 +1,334 @@
 import React, { useEffect, useRef } from 'react';
-import { SimulationParams } from '../types';
+import { SimulationParams, StateTransition } from '../types';
+import { SimulationStateMachine } from '../services/simulationStateMachine';
+import { CameraPose, DEFAULT_CAMERA, orbitCamera, zoomCamera } from '../simulation/camera';
+import { DEFAULT_PHYSICS, PhysicsSettings, SerializedSimulation } from '../simulation/galaxySimulation';
+import { GalaxyEngine } from '../simulation/galaxyEngine';
+import { DEFAULT_MORPHOLOGY, Morphology } from '../simulation/morphology';
+import { EngineCommand, EngineEvent, EngineStats } from '../simulation/workerProtocol';
+import { ParticleMetrics } from '../simulation/metrics';
 
 interface GalaxyCanvasProps {
   params: React.MutableRefObject<SimulationParams>;
+  stateMachine: SimulationStateMachine;
+  // Seed for the particle layout; the same seed and input stream reproduce the same galaxy
+  seed?: number;
+  physics?: PhysicsSettings;
+  // Galaxy type; changing it morphs the particles rather than re-spawning them
+  morphology?: Morphology;
+  // Freeze the particles in place (they are still drawn)
+  paused?: boolean;
+  // No twinkle, gentler jitter, slower transition effects
+  reducedMotion?: boolean;
+  onStats?: (stats: EngineStats) => void;
+  // Particle metrics, about 10 times a second
+  onMetrics?: (metrics: ParticleMetrics) => void;
+  // Filled in while the canvas is mounted, for screenshots, video capture and handing the
+  // particles to a late joiner
+  captureRef?: React.MutableRefObject<GalaxyCaptureHandle | null>;
+  // Particles to continue from; picked up (and cleared) by the engine with the same seed
+  restore?: React.MutableRefObject<SerializedSimulation | null>;
+  // View camera, read every frame like the params
+  camera?: React.MutableRefObject<CameraPose>;
+  // Drag to orbit and scroll to zoom the 3D view; reports each new pose
+  onCameraChange?: (pose: CameraPose) => void;
 }
 
-class Particle {
-  x: number;
-  y: number;
-  z: number;
-  vx: number;
-  vy: number;
-  size: number;
-  color: string;
-  angle: number;
-  radius: number;
-  angularSpeed: number;
-
-  constructor(width: number, height: number) {
-    this.x = width / 2;
-    this.y = height / 2;
-    this.z = Math.random() * 2; // Depth simulation
-    this.vx = 0;
-    this.vy = 0;
-    this.angle = Math.random() * Math.PI * 2;
-    this.radius = Math.random() * (Math.min(width, height) / 3);
-    this.angularSpeed = (0.02 + Math.random() * 0.05) * (Math.random() < 0.5 ? 1 : -1);
-    this.size = Math.random() * 2 + 0.5;
-    
-    // Cosmic colors
-    const colors = [
-      'rgba(255, 255, 255, ',   // White
-      'rgba(100, 200, 255, ',   // Cyan
-      'rgba(200, 100, 255, ',   // Violet
-      'rgba(255, 150, 50, '     // Orange/Gold
-    ];
-    this.color = colors[Math.floor(Math.random() * colors.length)];
-  }
+// Degrees of orbit per pixel dragged
+const ORBIT_DEGREES_PER_PIXEL = 0.3;
+const ZOOM_PER_WHEEL_PIXEL = 0.001;
+// Keyboard orbit (the view has focus): degrees per arrow press, zoom factor per +/-
+const ORBIT_DEGREES_PER_KEY = 5;
+const ZOOM_PER_KEY = 1.1;
 
-  update(width: number, height: number, chaos: number, scale: number) {
-    // Center point
-    const cx = width / 2;
-    const cy = height / 2;
-
-    // Apply Scale (affects radius and attraction)
-    // Scale 1.0 = Normal, Scale 0.0 = Singularity
-    const targetRadius = this.radius * (0.1 + scale * 1.5);
-    
-    // Apply Chaos (affects jitter and orbit stability)
-    const jitter = chaos * 5; 
-    
-    // Orbital Physics
-    this.angle += this.angularSpeed * (1 + chaos * 2);
-    
-    // Calculate ideal position based on orbit
-    const targetX = cx + Math.cos(this.angle) * targetRadius;
-    const targetY = cy + Math.sin(this.angle) * targetRadius;
-
-    // Move towards target with some elasticity
-    this.x += (targetX - this.x) * 0.1;
-    this.y += (targetY - this.y) * 0.1;
-
-    // Add chaos
-    this.x += (Math.random() - 0.5) * jitter;
-    this.y += (Math.random() - 0.5) * jitter;
-  }
+export interface GalaxyCaptureHandle {
+  snapshot(): Promise<Blob>;
+  captureStream(fps: number): MediaStream;
+  serialize(): Promise<SerializedSimulation>;
+}
 
-  draw(ctx: CanvasRenderingContext2D, chaos: number) {
-    const alpha = (0.3 + Math.random() * 0.7) * (1 - chaos * 0.5); // Flicker more with chaos
-    ctx.beginPath();
-    ctx.arc(this.x, this.y, this.size, 0, Math.PI * 2);
-    ctx.fillStyle = this.color + alpha + ')';
-    ctx.fill();
-  }
+// Either the worker (OffscreenCanvas) or a main-thread engine, behind one interface
+interface EngineHandle {
+  send(command: Exclude<EngineCommand, { type: 'init' | 'snapshot' | 'serialize' }>): void;
+  snapshot(): Promise<Blob>;
+  serialize(): Promise<SerializedSimulation>;
+  // Main-thread fallback needs to be driven from our own rAF loop
+  frame?(now: number): void;
+  dispose(): void;
+}
+
+interface EngineListeners {
+  onStats: (stats: EngineStats) => void;
+  onMetrics: (metrics: ParticleMetrics) => void;
 }
 
-const GalaxyCanvas: React.FC<GalaxyCanvasProps> = ({ params }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const particlesRef = useRef<Particle[]>([]);
+const createWorkerEngine = (
+  canvas: HTMLCanvasElement,
+  seed: number,
+  physics: PhysicsSettings,
+  morphology: Morphology,
+  { onStats, onMetrics }: EngineListeners
+): EngineHandle | null => {
+  if (typeof Worker === 'undefined' || !('transferControlToOffscreen' in canvas)) return null;
+  try {
+    const worker = new Worker(new URL('../simulation/galaxy.worker.ts', import.meta.url), { type: 'module' });
+    const offscreen = canvas.transferControlToOffscreen();
+    const pendingSnapshots = new Map<number, { resolve: (blob: Blob) => void; reject: (err: Error) => void }>();
+    const pendingSerializations = new Map<number, { resolve: (simulation: SerializedSimulation) => void; reject: (err: Error) => void }>();
+    let nextRequestId = 0;
+
+    worker.onmessage = ({ data }: MessageEvent<EngineEvent>) => {
+      if (data.type === 'stats') onStats(data.stats);
+      if (data.type === 'metrics') onMetrics(data.metrics);
+      if (data.type === 'snapshot') {
+        const pending = pendingSnapshots.get(data.id);
+        pendingSnapshots.delete(data.id);
+        if (data.blob) pending?.resolve(data.blob);
+        else pending?.reject(new Error(data.error || "Snapshot failed."));
+      }
+      if (data.type === 'serialized') {
+        const pending = pendingSerializations.get(data.id);
+        pendingSerializations.delete(data.id);
+        if (data.simulation) pending?.resolve(data.simulation);
+        else pending?.reject(new Error("Engine not ready."));
+      }
+    };
+    const init: EngineCommand = {
+      type: 'init',
+      canvas: offscreen,
+      seed,
+      physics,
+      morphology,
+      width: window.innerWidth,
+      height: window.innerHeight
+    };
+    worker.postMessage(init, [offscreen]);
+    return {
+      send: command => worker.postMessage(command),
+      snapshot: () => new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pendingSnapshots.set(id, { resolve, reject });
+        worker.postMessage({ type: 'snapshot', id } satisfies EngineCommand);
+      }),
+      serialize: () => new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pendingSerializations.set(id, { resolve, reject });
+        worker.postMessage({ type: 'serialize', id } satisfies EngineCommand);
+      }),
+      dispose: () => {
+        worker.terminate();
+        pendingSnapshots.forEach(pending => pending.reject(new Error("Engine stopped.")));
+        pendingSerializations.forEach(pending => pending.reject(new Error("Engine stopped.")));
+      }
+    };
+  } catch (err) {
+    console.warn("Simulation worker unavailable, rendering on the main thread:", err);
+    return null;
+  }
+};
+
+const createMainThreadEngine = (
+  canvas: HTMLCanvasElement,
+  seed: number,
+  physics: PhysicsSettings,
+  morphology: Morphology,
+  { onStats, onMetrics }: EngineListeners
+): EngineHandle | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const engine = new GalaxyEngine(ctx, seed, physics, morphology, onStats, onMetrics);
+  engine.resize(window.innerWidth, window.innerHeight);
+  return {
+    send: command => {
+      switch (command.type) {
+        case 'input': engine.setInput(command.params, command.state, command.camera); break;
+        case 'resize': engine.resize(command.width, command.height); break;
+        case 'physics': engine.setPhysics(command.physics); break;
+        case 'morphology': engine.setMorphology(command.morphology); break;
+        case 'effect': engine.triggerEffect(command.state); break;
+        case 'pause': engine.setPaused(command.paused); break;
+        case 'motion': engine.setReducedMotion(command.reducedMotion); break;
+        case 'restore':
+          try {
+            engine.restore(command.simulation);
+          } catch (err) {
+            console.warn("Could not restore the simulation:", err);
+          }
+          break;
+      }
+    },
+    snapshot: () => engine.snapshot(),
+    serialize: () => Promise.resolve(engine.serialize()),
+    frame: now => engine.frame(now),
+    dispose: () => {}
+  };
+};
+
+const GalaxyCanvas: React.FC<GalaxyCanvasProps> = ({ params, stateMachine, seed, physics = DEFAULT_PHYSICS, morphology = DEFAULT_MORPHOLOGY, paused = false, reducedMotion = false, onStats, onMetrics, captureRef, restore, camera, onCameraChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const engineRef = useRef<EngineHandle | null>(null);
   const animationFrameRef = useRef<number>(0);
+  const physicsRef = useRef(physics);
+  const morphologyRef = useRef(morphology);
+  const pausedRef = useRef(paused);
+  const reducedMotionRef = useRef(reducedMotion);
+  const onStatsRef = useRef(onStats);
+  onStatsRef.current = onStats;
+  const onMetricsRef = useRef(onMetrics);
+  onMetricsRef.current = onMetrics;
 
-  // Initialize Particles
+  // Engine lifecycle. A canvas can only hand its control to one OffscreenCanvas, ever, so
+  // the element is created here rather than in JSX: every (re)start gets a fresh one.
   useEffect(() => {
-    if (!canvasRef.current) return;
-    const width = canvasRef.current.width;
-    const height = canvasRef.current.height;
-    
-    // Create 800 particles
-    particlesRef.current = Array.from({ length: 800 }, () => new Particle(width, height));
-  }, []);
-
-  // Animation Loop
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const render = () => {
-      // Handle Resize
-      if (canvas.width !== window.innerWidth || canvas.height !== window.innerHeight) {
-        canvas.width = window.innerWidth;
-        canvas.height = window.innerHeight;
+    const container = containerRef.current;
+    if (!container) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.className = 'block w-full h-full bg-black';
+    container.appendChild(canvas);
+
+    const engineSeed = seed ?? Date.now();
+    const listeners: EngineListeners = {
+      onStats: stats => onStatsRef.current?.(stats),
+      onMetrics: metrics => onMetricsRef.current?.(metrics)
+    };
+    const engine = createWorkerEngine(canvas, engineSeed, physicsRef.current, morphologyRef.current, listeners)
+      ?? createMainThreadEngine(canvas, engineSeed, physicsRef.current, morphologyRef.current, listeners);
+    if (!engine) {
+      canvas.remove();
+      return;
+    }
+    engineRef.current = engine;
+    if (pausedRef.current) engine.send({ type: 'pause', paused: true });
+    if (reducedMotionRef.current) engine.send({ type: 'motion', reducedMotion: true });
+    if (captureRef) {
+      captureRef.current = {
+        snapshot: () => engine.snapshot(),
+        serialize: () => engine.serialize(),
+        // Works for transferred canvases too: the placeholder mirrors the OffscreenCanvas
+        captureStream: fps => canvas.captureStream(fps)
+      };
+    }
+
+    const handleResize = () => engine.send({ type: 'resize', width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+
+    // Each transition kicks off its own effect, replacing whatever was still playing
+    const unsubscribe = stateMachine.subscribe((transition: StateTransition) => {
+      engine.send({ type: 'effect', state: transition.to });
+    });
+
+    // Stream params to the engine. The state machine is advanced here so dwell times track
+    // what is on screen.
+    const tick = (now: number) => {
+      const current = params.current;
+      const state = stateMachine.update(current, now);
+      const { active, ...engineParams } = current;
+      // After a seed change the restored particles wait for the new engine
+      const pending = restore?.current;
+      if (pending && pending.seed === engineSeed) {
+        restore.current = null;
+        engine.send({ type: 'restore', simulation: pending });
       }
+      engine.send({ type: 'input', params: engineParams, state, camera: camera?.current ?? DEFAULT_CAMERA });
+      engine.frame?.(now);
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+    animationFrameRef.current = requestAnimationFrame(tick);
 
-      const width = canvas.width;
-      const height = canvas.height;
-      const { chaos, scale } = params.current;
-
-      // Clear with trail effect
-      ctx.fillStyle = `rgba(0, 0, 0, ${0.2 + chaos * 0.3})`; // Higher chaos = less trail
-      ctx.fillRect(0, 0, width, height);
-
-      // Draw Center Black Hole/Star
-      const centerSize = 20 * scale + (Math.random() * 5 * chaos);
-      ctx.beginPath();
-      ctx.arc(width/2, height/2, centerSize, 0, Math.PI * 2);
-      ctx.fillStyle = chaos > 0.8 ? 'white' : 'black';
-      ctx.fill();
-      
-      // Glow
-      const gradient = ctx.createRadialGradient(width/2, height/2, centerSize, width/2, height/2, centerSize * 4);
-      gradient.addColorStop(0, chaos > 0.8 ? 'rgba(255,255,255,0.8)' : 'rgba(0,0,0,1)');
-      gradient.addColorStop(1, 'rgba(0,0,0,0)');
-      ctx.fillStyle = gradient;
-      ctx.fill();
-
-      // Update and Draw Particles
-      ctx.globalCompositeOperation = 'screen'; // Additive blending for glow
-      particlesRef.current.forEach(p => {
-        p.update(width, height, chaos, scale);
-        p.draw(ctx, chaos);
-      });
-      ctx.globalCompositeOperation = 'source-over';
-
-      animationFrameRef.current = requestAnimationFrame(render);
+    return () => {
+      cancelAnimationFrame(animationFrameRef.current);
+      window.removeEventListener('resize', handleResize);
+      unsubscribe();
+      engine.dispose();
+      engineRef.current = null;
+      if (captureRef) captureRef.current = null;
+      canvas.remove();
     };
+  }, [params, stateMachine, seed, captureRef, restore, camera]);
+
+  // Physics can be switched at runtime without re-spawning the galaxy
+  useEffect(() => {
+    physicsRef.current = physics;
+    engineRef.current?.send({ type: 'physics', physics });
+  }, [physics]);
+
+  useEffect(() => {
+    if (morphologyRef.current === morphology) return;
+    morphologyRef.current = morphology;
+    engineRef.current?.send({ type: 'morphology', morphology });
+  }, [morphology]);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+    engineRef.current?.send({ type: 'pause', paused });
+  }, [paused]);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+    engineRef.current?.send({ type: 'motion', reducedMotion });
+  }, [reducedMotion]);
+
+  // Only the 3D view can be orbited; the flat view lets clicks through as before
+  const orbitable = camera?.current.mode === '3d' && !!onCameraChange;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !camera || !onCameraChange) return;
+    // Grabbing the disc: dragging right turns its near edge right, dragging down tips it face-on
+    const pose = orbitCamera(
+      camera.current,
+      -(event.clientX - drag.x) * ORBIT_DEGREES_PER_PIXEL,
+      -(event.clientY - drag.y) * ORBIT_DEGREES_PER_PIXEL
+    );
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    onCameraChange(pose);
+  };
 
-    render();
+  const handleWheel = (event: React.WheelEvent<HTMLDivElement>) => {
+    if (!camera || !onCameraChange) return;
+    onCameraChange(zoomCamera(camera.current, Math.exp(event.deltaY * ZOOM_PER_WHEEL_PIXEL)));
+  };
 
-    return () => cancelAnimationFrame(animationFrameRef.current);
-  }, [params]);
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!camera || !onCameraChange) return;
+    const step = ORBIT_DEGREES_PER_KEY;
+    let pose: CameraPose;
+    switch (event.key) {
+      case 'ArrowLeft': pose = orbitCamera(camera.current, step, 0); break;
+      case 'ArrowRight': pose = orbitCamera(camera.current, -step, 0); break;
+      case 'ArrowUp': pose = orbitCamera(camera.current, 0, step); break;
+      case 'ArrowDown': pose = orbitCamera(camera.current, 0, -step); break;
+      case '+': case '=': pose = zoomCamera(camera.current, 1 / ZOOM_PER_KEY); break;
+      case '-': pose = zoomCamera(camera.current, ZOOM_PER_KEY); break;
+      default: return;
+    }
+    // Keeps the arrows from also nudging the params
+    event.preventDefault();
+    onCameraChange(pose);
+  };
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      className="fixed inset-0 w-full h-full pointer-events-none z-0 bg-black"
+    <div
+      ref={containerRef}
+      role="img"
+      aria-label={orbitable ? 'Galaxy, 3D view. Arrow keys orbit, plus and minus zoom.' : 'Galaxy'}
+      tabIndex={orbitable ? 0 : undefined}
+      onKeyDown={orbitable ? handleKeyDown : undefined}
+      className={`fixed inset-0 w-full h-full z-0 bg-black ${orbitable ? 'cursor-grab active:cursor-grabbing' : 'pointer-events-none'}`}
+      onPointerDown={orbitable ? handlePointerDown : undefined}
+      onPointerMove={orbitable ? handlePointerMove : undefined}
+      onPointerUp={() => { dragRef.current = null; }}
+      onPointerCancel={() => { dragRef.current = null; }}
+      onWheel={orbitable ? handleWheel : undefined}
     />
   );
 };
 
-export default GalaxyCanvas;
\ No newline at end of file
+export default GalaxyCanvas;
@@ -1,64 +1,210 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Camera, Crosshair, Gauge, RefreshCw, VideoOff } from 'lucide-react';
 import { SimulationParams } from '../types';
+import { CameraInput, GesturePipeline } from '../services/gesturePipeline';
+import { CalibrationSession, loadCalibration, saveCalibration } from '../services/handCalibration';
+import { GestureAction, GestureMapping } from '../services/gestureMapping';
+import { DiscreteGesture, Side } from '../services/gestureRecognizer';
+import { drawHandOverlay } from '../services/handOverlay';
+import {
+  createHandLandmarker,
+  DEFAULT_MODEL_PATH,
+  DEFAULT_WASM_PATH,
+  HandTrackingError,
+  listCameras,
+  openCamera
+} from '../services/handTracking';
+import { TrackingDiagnostics } from '../services/trackingDiagnostics';
+import { loadTrackingSettings, saveTrackingSettings, TrackingSettings } from '../services/trackingSettings';
+import CalibrationWizard from './CalibrationWizard';
+import TrackingDiagnosticsPanel from './TrackingDiagnosticsPanel';
+
+const PINCH_COLORS: Record<string, string> = {
+  chaos: '#a78bfa',
+  scale: '#22d3ee'
+};
+
+// Which colour each hand's pinch line gets, from what its pinch is bound to
+const pinchColors = (mapping: GestureMapping): Partial<Record<Side, string>> => ({
+  left: PINCH_COLORS[mapping.continuous.leftPinch],
+  right: PINCH_COLORS[mapping.continuous.rightPinch]
+});
 
 interface GestureControllerProps {
   onParamsUpdate: (params: Partial<SimulationParams>) => void;
   onCameraReady: (ready: boolean) => void;
+  // Hand tracking is optional: other input sources keep the app usable when this fires
+  onCameraError?: (message: string) => void;
+  // Raw detections alongside the params derived from them (used by the session recorder)
+  onHandResult?: (result: HandLandmarkerResult, params: Partial<SimulationParams>, timestampMs: number) => void;
+  mapping: GestureMapping;
+  // A bound discrete gesture fired (already debounced)
+  onGesture?: (gesture: DiscreteGesture, action: GestureAction) => void;
+  // Gestures bound to the 3D view's orbit (the view camera, not the webcam), while visible
+  onOrbitInput?: (input: CameraInput) => void;
 }
 
-const GestureController: React.FC<GestureControllerProps> = ({ onParamsUpdate, onCameraReady }) => {
+// Edited locally and only applied on submit, since every change reloads the model
+const AssetPathsForm: React.FC<{ settings: TrackingSettings; onApply: (paths: Pick<TrackingSettings, 'wasmPath' | 'modelPath'>) => void }> = ({ settings, onApply }) => {
+  const [wasmPath, setWasmPath] = useState(settings.wasmPath);
+  const [modelPath, setModelPath] = useState(settings.modelPath);
+  const inputClass = "w-full bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white/80";
+
+  return (
+    <form
+      className="mt-1 space-y-1"
+      onSubmit={e => {
+        e.preventDefault();
+        onApply({ wasmPath: wasmPath.trim(), modelPath: modelPath.trim() });
+      }}
+    >
+      <input value={wasmPath} onChange={e => setWasmPath(e.target.value)} placeholder={DEFAULT_WASM_PATH} className={inputClass} title="WASM directory" />
+      <input value={modelPath} onChange={e => setModelPath(e.target.value)} placeholder={DEFAULT_MODEL_PATH} className={inputClass} title="Hand model (.task)" />
+      <button type="submit" className="hover:text-cyan-300">APPLY &amp; RETRY</button>
+    </form>
+  );
+};
+
+const GestureController: React.FC<GestureControllerProps> = ({ onParamsUpdate, onCameraReady, onCameraError, onHandResult, mapping, onGesture, onOrbitInput }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error' | 'off'>('loading');
+  const [loadingMessage, setLoadingMessage] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
   const requestRef = useRef<number>(0);
+  // The detection loop is a long-lived closure, so the gesture callback is read through a ref
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+  const onOrbitInputRef = useRef(onOrbitInput);
+  onOrbitInputRef.current = onOrbitInput;
+  const pipelineRef = useRef<GesturePipeline>(
+    new GesturePipeline(loadCalibration(), mapping, (gesture, action) => onGestureRef.current?.(gesture, action))
+  );
+  const [calibration, setCalibration] = useState<CalibrationSession | null>(null);
+  const calibrationRef = useRef<CalibrationSession | null>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const [diagnostics] = useState(() => new TrackingDiagnostics());
+  const [trackingSettings, setTrackingSettings] = useState<TrackingSettings>(loadTrackingSettings);
+  // Read by the detection loop
+  const trackingSettingsRef = useRef(trackingSettings);
+  trackingSettingsRef.current = trackingSettings;
+  const mappingRef = useRef(mapping);
+  mappingRef.current = mapping;
+
+  const updateTrackingSettings = (settings: TrackingSettings) => {
+    setTrackingSettings(settings);
+    saveTrackingSettings(settings);
+  };
+
+  useEffect(() => {
+    pipelineRef.current.setMapping(mapping);
+  }, [mapping]);
 
-  // Initialize MediaPipe
   useEffect(() => {
-    const initMediaPipe = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
+    pipelineRef.current.setSwapHandedness(trackingSettings.swapHandedness);
+  }, [trackingSettings.swapHandedness]);
+
+  useEffect(() => {
+    if (!trackingSettings.showOverlay) drawOverlay(null);
+  }, [trackingSettings.showOverlay]);
+
+  // Each start() supersedes the previous one; async steps check this before carrying on
+  const attemptRef = useRef(0);
+
+  const stopCamera = () => {
+    cancelAnimationFrame(requestRef.current);
+    const video = videoRef.current;
+    if (video?.srcObject) {
+      (video.srcObject as MediaStream).getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    }
+  };
+
+  const start = async (settings: TrackingSettings = trackingSettingsRef.current) => {
+    const attempt = ++attemptRef.current;
+    stopCamera();
+    setError(null);
+    setStatus('loading');
+
+    try {
+      if (!handLandmarkerRef.current) {
+        setLoadingMessage('LOADING HAND MODEL...');
+        const { landmarker } = await createHandLandmarker(
+          settings.wasmPath || DEFAULT_WASM_PATH,
+          settings.modelPath || DEFAULT_MODEL_PATH,
+          delegate => attempt === attemptRef.current && delegate === 'CPU' && setLoadingMessage('GPU UNAVAILABLE, RETRYING ON CPU...')
         );
-        
-        handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 2
-        });
-        
-        startWebcam();
-      } catch (err) {
-        console.error(err);
-        setError("Failed to load AI models. Please refresh.");
+        if (attempt !== attemptRef.current) {
+          landmarker.close();
+          return;
+        }
+        handLandmarkerRef.current = landmarker;
       }
-    };
-    initMediaPipe();
-  }, []);
 
-  const startWebcam = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: 640, height: 480 }
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.onloadeddata = () => {
-          setLoading(false);
-          onCameraReady(true);
-          predictWebcam();
-        };
+      setLoadingMessage('STARTING CAMERA...');
+      const stream = await openCamera(settings.cameraId);
+      const video = videoRef.current;
+      if (attempt !== attemptRef.current || !video) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
       }
+      video.srcObject = stream;
+      video.onloadeddata = () => {
+        if (attempt !== attemptRef.current) return;
+        setStatus('ready');
+        onCameraReady(true);
+        predictWebcam();
+      };
     } catch (err) {
-      setError("Camera permission denied. Enable camera to control simulation.");
+      if (attempt !== attemptRef.current) return;
+      console.error(err);
+      fail(err instanceof HandTrackingError ? err.message : "Hand tracking failed to start.");
+    } finally {
+      // Labels are only filled in once camera permission has been granted
+      if (attempt === attemptRef.current) listCameras().then(setCameras);
     }
   };
 
+  useEffect(() => {
+    start();
+    return () => {
+      attemptRef.current++;
+      stopCamera();
+      handLandmarkerRef.current?.close();
+      handLandmarkerRef.current = null;
+    };
+  }, []);
+
+  const fail = (message: string) => {
+    stopCamera();
+    setError(message);
+    setStatus('error');
+    onCameraError?.(message);
+  };
+
+  // The rest of the app works without hands; the camera can be brought back with retry
+  const continueWithoutCamera = () => {
+    attemptRef.current++;
+    stopCamera();
+    setError(null);
+    setStatus('off');
+    onCameraReady(false);
+    onCameraError?.("Continuing without camera.");
+  };
+
+  const retry = (patch: Partial<TrackingSettings> = {}) => {
+    const settings = { ...trackingSettings, ...patch };
+    updateTrackingSettings(settings);
+    // New asset paths need a fresh landmarker
+    if (patch.wasmPath !== undefined || patch.modelPath !== undefined) {
+      handLandmarkerRef.current?.close();
+      handLandmarkerRef.current = null;
+    }
+    start(settings);
+  };
+
   const predictWebcam = () => {
     if (!handLandmarkerRef.current || !videoRef.current) return;
 
@@ -67,67 +213,58 @@ const GestureController: React.FC<GestureControllerProps> = ({ onParamsUpdate, o
     // Only detect if we have valid video data
     if (videoRef.current.videoWidth > 0) {
       const result = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-      
-      let chaos = 0;
-      let scale = 0.5; // Default scale
-      let handsDetected = false;
-
-      if (result.landmarks && result.landmarks.length > 0) {
-        handsDetected = true;
-        
-        result.landmarks.forEach((landmarks, index) => {
-          const handedness = result.handednesses[index][0].categoryName; // "Left" or "Right"
-          
-          // Thumb tip (4) and Index tip (8)
-          const thumb = landmarks[4];
-          const indexFinger = landmarks[8];
-          
-          // Euclidean distance (simple 2D approximation is fine for interaction)
-          const distance = Math.sqrt(
-            Math.pow(thumb.x - indexFinger.x, 2) + 
-            Math.pow(thumb.y - indexFinger.y, 2)
-          );
-
-          // Map distance to 0-1 range (approximate max pinch distance is ~0.2 in normalized coords)
-          // Clamp value between 0 and 1
-          const normalizedValue = Math.min(Math.max(distance * 5, 0), 1);
-
-          // NOTE: Mediapipe mirror effect: 
-          // If the user raises their RIGHT hand, it appears on the LEFT of the video (if mirrored).
-          // But Mediapipe handedness outputs what the hand IS (e.g. "Right").
-          
-          if (handedness === "Left") {
-            // Left Hand controls Chaos
-            chaos = 1 - normalizedValue; // Closed pinch = high chaos? Or Open = high chaos?
-            // Let's say: Pinch (close) = Calm (0), Open = Chaos (1)
-            chaos = normalizedValue;
-          } else {
-            // Right Hand controls Scale
-            scale = normalizedValue; 
-          }
-        });
-      }
+      const latencyMs = performance.now() - startTimeMs;
+
+      calibrationRef.current?.addSample(result.landmarks || [], startTimeMs);
+      const params = pipelineRef.current.process(result, startTimeMs);
+      onParamsUpdate(params);
+      onHandResult?.(result, params, startTimeMs);
+      const orbit = pipelineRef.current.getCamera();
+      if (Object.keys(orbit).length > 0) onOrbitInputRef.current?.(orbit);
 
-      onParamsUpdate({ chaos, scale, active: handsDetected });
+      const settings = trackingSettingsRef.current;
+      diagnostics.record(latencyMs, startTimeMs, result, pipelineRef.current.getReadings(), settings.swapHandedness);
+      if (settings.showOverlay) drawOverlay(result);
     }
 
     requestRef.current = requestAnimationFrame(predictWebcam);
   };
 
-  // Cleanup
-  useEffect(() => {
-    return () => {
-      cancelAnimationFrame(requestRef.current);
-      if (videoRef.current && videoRef.current.srcObject) {
-        (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
-      }
-    };
-  }, []);
+  const drawOverlay = (result: HandLandmarkerResult | null) => {
+    const canvas = overlayRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+    // Keep the backing store at the displayed size so lines stay crisp
+    if (canvas.width !== canvas.clientWidth || canvas.height !== canvas.clientHeight) {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+    }
+    drawHandOverlay(canvas, result, video.videoWidth, video.videoHeight, {
+      swapHandedness: trackingSettingsRef.current.swapHandedness,
+      pinchColors: pinchColors(mappingRef.current)
+    });
+  };
+
+  const startCalibration = () => {
+    const session = new CalibrationSession();
+    calibrationRef.current = session;
+    setCalibration(session);
+  };
+
+  const finishCalibration = (save: boolean) => {
+    const result = calibrationRef.current?.getResult();
+    if (save && result) {
+      saveCalibration(result);
+      pipelineRef.current.setProfile(result);
+    }
+    calibrationRef.current = null;
+    setCalibration(null);
+  };
 
   return (
     <div className="relative group">
       {/* Video Container */}
-      <div className={`relative overflow-hidden rounded-xl border border-white/20 shadow-2xl transition-all duration-300 ${loading ? 'w-0 h-0' : 'w-48 md:w-64 aspect-video'}`}>
+      <div className={`relative overflow-hidden rounded-xl border border-white/20 shadow-2xl transition-all duration-300 ${status === 'ready' ? 'w-48 md:w-64 aspect-video' : 'w-0 h-0'}`}>
         <video
           ref={videoRef}
           autoPlay
@@ -135,27 +272,98 @@ const GestureController: React.FC<GestureControllerProps> = ({ onParamsUpdate, o
           muted
           className="w-full h-full object-cover transform scale-x-[-1] opacity-60 group-hover:opacity-100 transition-opacity"
         />
+        {/* Hand landmark overlay, drawn unmirrored over the mirrored video */}
+        <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
         <div className="absolute bottom-2 left-2 text-[10px] text-white/50 font-mono pointer-events-none">
           FEED_LIVE_PROCESS_01
         </div>
-        
-        {/* Hand Landmark Overlay could go here, but focusing on Simulation visuals */}
+
+        <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button
+            onClick={() => updateTrackingSettings({ ...trackingSettings, showDiagnostics: !trackingSettings.showDiagnostics })}
+            className={`flex items-center gap-1 px-2 py-1 rounded bg-black/60 border border-white/20 text-[10px] font-mono hover:text-cyan-300 ${
+              trackingSettings.showDiagnostics ? 'text-cyan-300' : 'text-white/70'
+            }`}
+            title="Tracking diagnostics"
+          >
+            <Gauge size={10} /> DIAG
+          </button>
+          <button
+            onClick={startCalibration}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-black/60 border border-white/20 text-[10px] font-mono text-white/70 hover:text-cyan-300"
+            title="Calibrate pinch range"
+          >
+            <Crosshair size={10} /> CALIBRATE
+          </button>
+        </div>
       </div>
 
-      {/* Loading / Error States */}
-      {(loading || error) && (
+      {trackingSettings.showDiagnostics && status === 'ready' && (
+        <TrackingDiagnosticsPanel
+          diagnostics={diagnostics}
+          mapping={mapping}
+          settings={trackingSettings}
+          onChange={updateTrackingSettings}
+        />
+      )}
+
+      {calibration && <CalibrationWizard session={calibration} onFinish={finishCalibration} />}
+
+      {/* Error / camera-off state: non-blocking, the rest of the interface stays usable */}
+      {(status === 'error' || status === 'off') && (
+        <div className="w-48 md:w-64 space-y-2 text-[10px] font-mono border border-white/20 p-3 rounded bg-black/60 backdrop-blur-md">
+          {error
+            ? <div className="text-red-400">[ERROR]: {error}</div>
+            : <div className="text-white/50">CAMERA OFF - using other input sources.</div>}
+
+          {cameras.length > 0 && (
+            <label className="flex items-center gap-2 text-white/60">
+              <Camera size={10} />
+              <select
+                value={trackingSettings.cameraId ?? ''}
+                onChange={e => retry({ cameraId: e.target.value || null })}
+                className="flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white/80"
+              >
+                <option value="">Default camera</option>
+                {cameras.map((camera, index) => (
+                  <option key={camera.deviceId || index} value={camera.deviceId}>{camera.label || `Camera ${index + 1}`}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <details className="text-white/50">
+            <summary className="cursor-pointer hover:text-white">ASSET PATHS</summary>
+            <AssetPathsForm settings={trackingSettings} onApply={paths => retry(paths)} />
+          </details>
+
+          <div className="flex gap-2">
+            <button onClick={() => retry()} className="flex items-center gap-1 px-2 py-1 rounded border border-white/20 text-white/80 hover:text-cyan-300 hover:border-cyan-400">
+              <RefreshCw size={10} /> {status === 'off' ? 'USE CAMERA' : 'RETRY'}
+            </button>
+            {status === 'error' && (
+              <button onClick={continueWithoutCamera} className="flex items-center gap-1 px-2 py-1 rounded border border-white/20 text-white/60 hover:text-white">
+                <VideoOff size={10} /> NO CAMERA
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {status === 'loading' && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black">
           <div className="text-center space-y-4">
-             {error ? (
-               <div className="text-red-500 font-mono border border-red-500/50 p-6 rounded bg-red-900/10">
-                 [ERROR]: {error}
-               </div>
-             ) : (
-               <>
-                <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
-                <div className="text-cyan-400 font-mono tracking-widest animate-pulse">INITIALIZING NEURAL LINK...</div>
-               </>
-             )}
+            <div className="w-16 h-16 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+            <div className="text-cyan-400 font-mono tracking-widest animate-pulse">INITIALIZING NEURAL LINK...</div>
+            <div className="text-xs text-white/40 font-mono">{loadingMessage}</div>
+            <button
+              onClick={continueWithoutCamera}
+              className="px-4 py-2 rounded-full border border-white/20 text-xs font-mono text-white/60 hover:text-white hover:border-cyan-400"
+            >
+              CONTINUE WITHOUT CAMERA
+            </button>
           </div>
         </div>
       )}
@@ -0,0 +1,78 @@
+import React from 'react';
+import {
+  ACTION_LABELS,
+  CONTINUOUS_LABELS,
+  ContinuousTarget,
+  DEFAULT_GESTURE_MAPPING,
+  DISCRETE_LABELS,
+  DiscreteBinding,
+  GestureAction,
+  GestureMapping,
+  TARGET_LABELS
+} from '../services/gestureMapping';
+import { ContinuousGesture, DiscreteGesture } from '../services/gestureRecognizer';
+
+interface GestureMappingPanelProps {
+  mapping: GestureMapping;
+  onChange: (mapping: GestureMapping) => void;
+}
+
+const GestureMappingPanel: React.FC<GestureMappingPanelProps> = ({ mapping, onChange }) => {
+  const setTarget = (gesture: ContinuousGesture, target: ContinuousTarget) =>
+    onChange({ ...mapping, continuous: { ...mapping.continuous, [gesture]: target } });
+
+  const setBinding = (gesture: DiscreteGesture, patch: Partial<DiscreteBinding>) =>
+    onChange({ ...mapping, discrete: { ...mapping.discrete, [gesture]: { ...mapping.discrete[gesture], ...patch } } });
+
+  const selectClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white/80";
+
+  return (
+    <div className="w-full max-w-md p-3 mt-2 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md font-mono text-[10px] text-white/60">
+      <div className="text-white/40">CONTINUOUS</div>
+      {(Object.keys(CONTINUOUS_LABELS) as ContinuousGesture[]).map(gesture => (
+        <label key={gesture} className="flex items-center justify-between gap-2">
+          <span>{CONTINUOUS_LABELS[gesture]}</span>
+          <select
+            value={mapping.continuous[gesture]}
+            onChange={e => setTarget(gesture, e.target.value as ContinuousTarget)}
+            className={selectClass}
+          >
+            {(Object.keys(TARGET_LABELS) as ContinuousTarget[]).map(target => (
+              <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+
+      <div className="pt-1 text-white/40">DISCRETE (ACTION · DEBOUNCE MS)</div>
+      {(Object.keys(DISCRETE_LABELS) as DiscreteGesture[]).map(gesture => (
+        <label key={gesture} className="flex items-center justify-between gap-2">
+          <span>{DISCRETE_LABELS[gesture]}</span>
+          <span className="flex items-center gap-1">
+            <select
+              value={mapping.discrete[gesture].action}
+              onChange={e => setBinding(gesture, { action: e.target.value as GestureAction })}
+              className={selectClass}
+            >
+              {(Object.keys(ACTION_LABELS) as GestureAction[]).map(action => (
+                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            <input
+              type="number" min={0} max={10000} step={100}
+              value={mapping.discrete[gesture].debounceMs}
+              onChange={e => setBinding(gesture, { debounceMs: Math.max(0, Number(e.target.value) || 0) })}
+              className={`${selectClass} w-16 text-right`}
+            />
+          </span>
+        </label>
+      ))}
+
+      <button onClick={() => onChange(DEFAULT_GESTURE_MAPPING)} className="text-cyan-300/80 hover:text-white">
+        RESTORE DEFAULTS
+      </button>
+    </div>
+  );
+};
+
+export default GestureMappingPanel;
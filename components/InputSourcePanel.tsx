@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { SimulationParams } from '../types';
+import { InputManager, InputSourceStatus } from '../services/inputManager';
+import { ManualInputProvider } from '../services/inputProviders';
+import { GAMEPAD_AXIS_LABELS, InputBindings } from '../services/inputBindings';
+import { PARAM_SCHEMA, ParamKey } from '../services/paramSchema';
+
+interface InputSourcePanelProps {
+  manager: InputManager;
+  manual: ManualInputProvider;
+  params: SimulationParams;
+  bindings: InputBindings;
+  onBindingsChange: (bindings: InputBindings) => void;
+}
+
+const InputSourcePanel: React.FC<InputSourcePanelProps> = ({ manager, manual, params, bindings, onBindingsChange }) => {
+  const [statuses, setStatuses] = useState<InputSourceStatus[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => manager.subscribeStatus(setStatuses), [manager]);
+
+  const controller = statuses.find(s => s.engaged);
+
+  const setAxis = (axis: number, target: ParamKey | 'none') =>
+    onBindingsChange({ ...bindings, gamepadAxes: bindings.gamepadAxes.map((current, i) => (i === axis ? target : current)) });
+
+  const setCc = (param: ParamKey, raw: string) => {
+    const midiCc = { ...bindings.midiCc };
+    const cc = Number(raw);
+    if (raw === '' || !Number.isInteger(cc)) delete midiCc[param];
+    else midiCc[param] = Math.min(Math.max(cc, 0), 127);
+    onBindingsChange({ ...bindings, midiCc });
+  };
+
+  const fieldClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white/80";
+
+  return (
+    <div className="mt-3 w-72 font-mono text-xs">
+      <button
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        className="flex items-center gap-2 text-white/50 hover:text-white transition-colors"
+      >
+        <SlidersHorizontal size={12} />
+        INPUT: {controller ? controller.label.toUpperCase() : 'NONE'}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-3 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md">
+          <ul className="space-y-1">
+            {statuses.map((status, index) => (
+              <li key={status.id} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={status.enabled}
+                  onChange={e => manager.setEnabled(status.id, e.target.checked)}
+                  className="accent-cyan-400"
+                />
+                <span className={`w-2 h-2 rounded-full ${
+                  status.engaged ? 'bg-green-400' : status.available ? 'bg-white/30' : 'bg-red-500/60'
+                }`} />
+                <span className={`flex-1 ${status.enabled ? 'text-white/80' : 'text-white/30'}`}>
+                  {index + 1}. {status.label}
+                  {!status.available && status.enabled && <span className="text-white/30"> (unavailable)</span>}
+                </span>
+                <button
+                  onClick={() => manager.raisePriority(status.id)}
+                  disabled={index === 0}
+                  className="text-white/40 hover:text-white disabled:opacity-20"
+                  title="Raise priority"
+                >
+                  <ChevronUp size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {/* Manual sliders for the HUD params (also: arrow keys); the rest are under ADVANCED */}
+          <div className="space-y-2 pt-2 border-t border-white/10">
+            {PARAM_SCHEMA.filter(spec => spec.hud).map(spec => (
+              <label key={spec.key} className="flex items-center gap-2" style={{ color: spec.color }}>
+                <span className="w-16 truncate">{spec.label}</span>
+                <input
+                  type="range" min={spec.min} max={spec.max} step={spec.step}
+                  value={params[spec.key]}
+                  onChange={e => manual.set({ [spec.key]: Number(e.target.value) })}
+                  className="flex-1"
+                  style={{ accentColor: spec.color }}
+                />
+              </label>
+            ))}
+            <p className="text-white/30">Arrow keys: ←/→ entropy, ↑/↓ gravity</p>
+          </div>
+
+          <details className="pt-2 border-t border-white/10 text-white/60">
+            <summary className="cursor-pointer text-white/40 hover:text-white">BINDINGS</summary>
+            <div className="mt-2 space-y-1">
+              <div className="text-white/40">GAMEPAD</div>
+              {GAMEPAD_AXIS_LABELS.map((label, axis) => (
+                <label key={label} className="flex items-center justify-between gap-2">
+                  <span>{label}</span>
+                  <select
+                    value={bindings.gamepadAxes[axis]}
+                    onChange={e => setAxis(axis, e.target.value as ParamKey | 'none')}
+                    className={fieldClass}
+                  >
+                    <option value="none">-</option>
+                    {PARAM_SCHEMA.map(spec => <option key={spec.key} value={spec.key}>{spec.name}</option>)}
+                  </select>
+                </label>
+              ))}
+              <div className="pt-1 text-white/40">MIDI CC</div>
+              {PARAM_SCHEMA.map(spec => (
+                <label key={spec.key} className="flex items-center justify-between gap-2">
+                  <span>{spec.name}</span>
+                  <input
+                    type="number" min={0} max={127} step={1}
+                    value={bindings.midiCc[spec.key] ?? ''}
+                    placeholder="-"
+                    onChange={e => setCc(spec.key, e.target.value)}
+                    className={`${fieldClass} w-14 text-right`}
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputSourcePanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+
+export interface Announcement {
+  id: number;
+  text: string;
+}
+
+interface LiveAnnouncerProps {
+  // Most recent last; each new item is read out once
+  announcements: Announcement[];
+}
+
+// Screen reader only. New entries are spoken as they are added, so several announcements in
+// quick succession (a state change and a reply) are all heard.
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ announcements }) => (
+  <div className="sr-only" role="log" aria-live="polite" aria-relevant="additions">
+    {announcements.map(announcement => (
+      <p key={announcement.id}>{announcement.text}</p>
+    ))}
+  </div>
+);
+
+export default LiveAnnouncer;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Orbit } from 'lucide-react';
+import {
+  MAX_ARMS,
+  MAX_PITCH,
+  MIN_ARMS,
+  MIN_PITCH,
+  Morphology,
+  MORPHOLOGY_LABELS,
+  MORPHOLOGY_TYPES,
+  MorphologyType
+} from '../simulation/morphology';
+
+interface MorphologyControlsProps {
+  morphology: Morphology;
+  onChange: (morphology: Morphology) => void;
+}
+
+const MorphologyControls: React.FC<MorphologyControlsProps> = ({ morphology, onChange }) => {
+  const hasArms = morphology.type === 'spiral' || morphology.type === 'barred';
+
+  return (
+    <div className="space-y-2 text-xs font-mono text-white/50">
+      <div className="flex items-center gap-3">
+        <Orbit size={12} />
+        <select
+          value={morphology.type}
+          onChange={e => onChange({ ...morphology, type: e.target.value as MorphologyType })}
+          className="flex-1 bg-black/60 border border-white/20 rounded-full px-3 py-1 uppercase text-white/80"
+          title="Galaxy type"
+        >
+          {MORPHOLOGY_TYPES.map(type => <option key={type} value={type}>{MORPHOLOGY_LABELS[type]}</option>)}
+        </select>
+      </div>
+      {hasArms && (
+        <div className="flex items-center gap-3 pl-6">
+          <label className="flex items-center gap-1" title="Number of spiral arms">
+            ARMS
+            <input
+              type="number" min={MIN_ARMS} max={MAX_ARMS} step={1}
+              value={morphology.arms}
+              onChange={e => onChange({ ...morphology, arms: Math.min(Math.max(Math.round(Number(e.target.value)) || MIN_ARMS, MIN_ARMS), MAX_ARMS) })}
+              className="w-10 bg-black/60 border border-white/20 rounded px-1 py-0.5 text-right text-white/80"
+            />
+          </label>
+          <label className="flex flex-1 items-center gap-1" title="Pitch angle: low values wind the arms tightly">
+            PITCH
+            <input
+              type="range" min={MIN_PITCH} max={MAX_PITCH} step={1}
+              value={morphology.pitch}
+              onChange={e => onChange({ ...morphology, pitch: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+            />
+            <span className="w-8 text-right">{morphology.pitch}°</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MorphologyControls;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Gauge, LucideIcon, Maximize2, Zap } from 'lucide-react';
+import { SimulationParams } from '../types';
+import { ManualInputProvider } from '../services/inputProviders';
+import { formatParam, fromFraction, PARAM_SCHEMA, ParamKey, ParamSpec, toFraction } from '../services/paramSchema';
+
+interface ParamMetersProps {
+  params: SimulationParams;
+  // Makes the meters keyboard sliders; without it they are read-only progress bars
+  manual?: ManualInputProvider;
+}
+
+const ICONS: Partial<Record<ParamKey, LucideIcon>> = {
+  scale: Maximize2,
+  chaos: Zap
+};
+
+// Keyboard steps as fractions of the range
+const ARROW_STEP = 0.05;
+const PAGE_STEP = 0.2;
+
+const handleKeyDown = (event: React.KeyboardEvent, spec: ParamSpec, value: number, manual: ManualInputProvider) => {
+  const fraction = toFraction(spec.key, value);
+  let next: number;
+  switch (event.key) {
+    case 'ArrowRight': case 'ArrowUp': next = fraction + ARROW_STEP; break;
+    case 'ArrowLeft': case 'ArrowDown': next = fraction - ARROW_STEP; break;
+    case 'PageUp': next = fraction + PAGE_STEP; break;
+    case 'PageDown': next = fraction - PAGE_STEP; break;
+    case 'Home': next = 0; break;
+    case 'End': next = 1; break;
+    default: return;
+  }
+  // Also keeps the global arrow shortcuts from adjusting a different param
+  event.preventDefault();
+  manual.set({ [spec.key]: fromFraction(spec.key, Math.min(Math.max(next, 0), 1)) });
+};
+
+// One meter per HUD param in the schema
+const ParamMeters: React.FC<ParamMetersProps> = ({ params, manual }) => (
+  <>
+    {PARAM_SCHEMA.filter(spec => spec.hud).map(spec => {
+      const Icon = ICONS[spec.key] ?? Gauge;
+      const value = params[spec.key];
+      const labelId = `meter-${spec.key}`;
+      return (
+        <div key={spec.key} className="space-y-2">
+          <div className="flex justify-between items-center text-sm font-mono" style={{ color: spec.color }}>
+            <span id={labelId} className="flex items-center gap-2"><Icon size={16} /> {spec.label}</span>
+            <span aria-hidden>{formatParam(spec.key, value)}</span>
+          </div>
+          <div
+            role={manual ? 'slider' : 'progressbar'}
+            tabIndex={manual ? 0 : undefined}
+            aria-labelledby={labelId}
+            aria-valuemin={spec.min}
+            aria-valuemax={spec.max}
+            aria-valuenow={value}
+            aria-valuetext={formatParam(spec.key, value)}
+            title={spec.description}
+            onKeyDown={manual ? event => handleKeyDown(event, spec, value, manual) : undefined}
+            className="meter-track w-full h-2 bg-gray-800 rounded-full overflow-hidden border border-white/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300"
+          >
+            <div
+              className="h-full transition-all duration-100 ease-linear"
+              style={{
+                width: `${toFraction(spec.key, value) * 100}%`,
+                background: `linear-gradient(to right, color-mix(in srgb, ${spec.color} 60%, black), ${spec.color})`
+              }}
+            />
+          </div>
+        </div>
+      );
+    })}
+  </>
+);
+
+export default ParamMeters;
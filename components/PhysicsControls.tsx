@@ -0,0 +1,43 @@
+import React from 'react';
+import { Atom } from 'lucide-react';
+import { PhysicsSettings } from '../simulation/galaxySimulation';
+
+interface PhysicsControlsProps {
+  physics: PhysicsSettings;
+  onChange: (physics: PhysicsSettings) => void;
+}
+
+const PhysicsControls: React.FC<PhysicsControlsProps> = ({ physics, onChange }) => {
+  const isGravity = physics.mode === 'gravity';
+
+  return (
+    <div className="flex items-center gap-3 text-xs font-mono text-white/50">
+      <Atom size={12} />
+      <div className="flex rounded-full border border-white/20 overflow-hidden">
+        {(['orbit', 'gravity'] as const).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...physics, mode })}
+            className={`px-3 py-1 uppercase transition-colors ${
+              physics.mode === mode ? 'bg-cyan-500/20 text-cyan-200' : 'hover:text-white'
+            }`}
+          >
+            {mode}
+          </button>
+        ))}
+      </div>
+      <label className={`flex items-center gap-1 ${isGravity ? '' : 'opacity-30'}`} title="Particle-particle attraction">
+        <input
+          type="checkbox"
+          checked={physics.selfGravity}
+          disabled={!isGravity}
+          onChange={e => onChange({ ...physics, selfGravity: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        N-BODY
+      </label>
+    </div>
+  );
+};
+
+export default PhysicsControls;
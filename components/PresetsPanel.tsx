@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Bookmark, Link, Trash2 } from 'lucide-react';
+import { CameraPose } from '../simulation/camera';
+import { deletePreset, loadPresets, Preset, PresetParams, savePreset } from '../services/presets';
+
+interface PresetsPanelProps {
+  getParams: () => PresetParams;
+  // Saved with each preset so applying it restores the view too
+  getCamera: () => CameraPose;
+  onApply: (preset: Preset) => void;
+  // Link that reopens the current galaxy
+  getShareUrl: () => string;
+}
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ getParams, getCamera, onApply, getShareUrl }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const refresh = () => setPresets(loadPresets());
+
+  const toggle = () => {
+    // Presets can also be saved by the AI observer, so reload whenever the panel opens
+    if (!open) refresh();
+    setOpen(o => !o);
+  };
+
+  const save = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    savePreset({ name: trimmed, params: getParams(), camera: getCamera(), savedAt: Date.now() });
+    setName('');
+    refresh();
+  };
+
+  const remove = (preset: Preset) => {
+    deletePreset(preset.name);
+    refresh();
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl());
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.warn("Could not copy link:", err);
+    }
+  };
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button onClick={toggle} aria-expanded={open} className="flex items-center gap-2 text-white/50 hover:text-white transition-colors">
+        <Bookmark size={12} /> PRESETS
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md">
+          {presets.length === 0 && <div className="text-white/30">No presets saved yet.</div>}
+          <ul className="space-y-1">
+            {presets.map(preset => (
+              <li key={preset.name} className="flex items-center gap-2">
+                <button onClick={() => onApply(preset)} className="flex-1 text-left text-white/80 hover:text-cyan-300 truncate" title="Apply preset">
+                  {preset.name}
+                </button>
+                <span className="text-white/30">
+                  {preset.camera?.mode === '3d' && '3D · '}{Math.round(preset.params.chaos * 100)}/{Math.round(preset.params.scale * 100)}
+                </span>
+                <button onClick={() => remove(preset)} className="text-white/30 hover:text-red-400" title="Delete preset">
+                  <Trash2 size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <form onSubmit={save} className="flex gap-2 pt-2 border-t border-white/10">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Preset name"
+              className="flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-2 py-1 text-white/80"
+            />
+            <button type="submit" disabled={!name.trim()} className="text-cyan-300 hover:text-white disabled:opacity-30">
+              SAVE
+            </button>
+          </form>
+
+          <button onClick={copyLink} className="flex items-center gap-2 text-white/50 hover:text-cyan-300">
+            <Link size={12} /> {copied ? 'LINK COPIED' : 'COPY LINK TO THIS GALAXY'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetsPanel;
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Download, Pause, Play, Square, Upload, X } from 'lucide-react';
+import { SimulationParams } from '../types';
+import { loadCalibration } from '../services/handCalibration';
+import { loadGestureMapping } from '../services/gestureMapping';
+import { loadTrackingSettings } from '../services/trackingSettings';
+import {
+  downloadRecording,
+  parseRecording,
+  SessionPlayer,
+  SessionRecorder,
+  SessionRecording
+} from '../services/sessionRecording';
+
+interface SessionControlsProps {
+  recorder: SessionRecorder;
+  onReplayParams: (params: Partial<SimulationParams>) => void;
+  onReplayLoaded: (loaded: boolean) => void;
+  // Lets other inputs (e.g. a gesture) start and stop recording
+  controlRef?: React.MutableRefObject<SessionControlsHandle | null>;
+}
+
+export interface SessionControlsHandle {
+  toggleRecording(): void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const SessionControls: React.FC<SessionControlsProps> = ({ recorder, onReplayParams, onReplayLoaded, controlRef }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [player, setPlayer] = useState<SessionPlayer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-render on player progress
+  useEffect(() => {
+    if (!player) return;
+    return player.subscribe(() => setTick(t => t + 1));
+  }, [player]);
+
+  useEffect(() => {
+    return () => player?.dispose();
+  }, [player]);
+
+  const loadRecording = (loaded: SessionRecording) => {
+    setRecording(loaded);
+    setPlayer(new SessionPlayer(loaded, onReplayParams));
+    onReplayLoaded(true);
+    setError(null);
+  };
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      const result = recorder.stop();
+      setIsRecording(false);
+      if (result.frames.length > 0) loadRecording(result);
+    } else {
+      closePlayer();
+      recorder.start(loadCalibration(), loadTrackingSettings().swapHandedness, loadGestureMapping());
+      setIsRecording(true);
+    }
+  };
+
+  useEffect(() => {
+    if (!controlRef) return;
+    controlRef.current = { toggleRecording };
+    return () => {
+      controlRef.current = null;
+    };
+  });
+
+  const closePlayer = () => {
+    setPlayer(null);
+    setRecording(null);
+    onReplayLoaded(false);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadRecording(parseRecording(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read recording.");
+    }
+  };
+
+  const buttonClass = "p-2 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 hover:border-cyan-400 transition-all disabled:opacity-30";
+
+  return (
+    <div className="w-full space-y-2 font-mono text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={toggleRecording}
+          className={`${buttonClass} ${isRecording ? 'text-red-400 border-red-500 animate-pulse' : ''}`}
+          title={isRecording ? "Stop recording" : "Record session"}
+        >
+          {isRecording ? <Square size={14} /> : <Circle size={14} />}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecording}
+          className={buttonClass}
+          title="Import recording"
+        >
+          <Upload size={14} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        {recording && (
+          <button onClick={() => downloadRecording(recording)} className={buttonClass} title="Export recording">
+            <Download size={14} />
+          </button>
+        )}
+        <span className="text-white/40">
+          {isRecording ? 'REC ●' : recording ? `SESSION ${formatTime(recording.durationMs)}` : 'SESSION'}
+        </span>
+      </div>
+
+      {player && (
+        <div className="flex items-center gap-2 p-2 rounded-lg border border-white/10 bg-black/50">
+          <button
+            onClick={() => (player.isPlaying() ? player.pause() : player.play())}
+            className="text-cyan-300 hover:text-white"
+            title={player.isPlaying() ? "Pause" : "Play"}
+          >
+            {player.isPlaying() ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={player.getDuration()}
+            step={10}
+            value={player.getPosition()}
+            onChange={e => player.seek(Number(e.target.value))}
+            className="flex-1 accent-cyan-400"
+          />
+          <span className="w-12 text-right text-white/50">{formatTime(player.getPosition())}</span>
+          <select
+            value={player.getSpeed()}
+            onChange={e => player.setSpeed(Number(e.target.value))}
+            className="bg-black/60 border border-white/20 rounded text-white/70"
+          >
+            {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+          </select>
+          <button onClick={closePlayer} className="text-white/40 hover:text-white" title="Close replay">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default SessionControls;
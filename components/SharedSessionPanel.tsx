@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Crown, Eye, RefreshCw, Users } from 'lucide-react';
+import { SessionRole, SharedSession, SharedSessionSettings, SharedSessionStatus } from '../services/sharedSession';
+
+interface SharedSessionPanelProps {
+  settings: SharedSessionSettings;
+  // Null while not in a session
+  session: SharedSession | null;
+  status: SharedSessionStatus | null;
+  error: string | null;
+  onJoin: (settings: SharedSessionSettings) => void;
+  onLeave: () => void;
+}
+
+const ROLE_LABELS: Record<SessionRole, string> = {
+  controller: 'CONTROLLER',
+  spectator: 'SPECTATOR'
+};
+
+const SharedSessionPanel: React.FC<SharedSessionPanelProps> = ({ settings, session, status, error, onJoin, onLeave }) => {
+  const [open, setOpen] = useState(false);
+  // Edited locally and only applied when joining
+  const [draft, setDraft] = useState(settings);
+  const [requested, setRequested] = useState(false);
+
+  const inputClass = "flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-2 py-1 text-white/80";
+  const peers = status?.peers ?? [];
+  const controllerPresent = peers.some(peer => peer.role === 'controller');
+
+  const join = (event: React.FormEvent) => {
+    event.preventDefault();
+    setRequested(false);
+    onJoin({ ...draft, room: draft.room.trim() || settings.room, name: draft.name.trim() });
+  };
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="flex items-center gap-2 text-white/50 hover:text-white transition-colors">
+        <Users size={12} /> SHARED SESSION
+        {status && <span className="text-cyan-300">· {ROLE_LABELS[status.role]} · {peers.length + 1}</span>}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md text-white/60">
+          {!session && (
+            <form onSubmit={join} className="space-y-2">
+              <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Your name" className={`${inputClass} w-full`} />
+              <input value={draft.room} onChange={e => setDraft({ ...draft, room: e.target.value })} placeholder="Room" className={`${inputClass} w-full`} />
+              <div className="flex gap-3">
+                {(['controller', 'spectator'] as SessionRole[]).map(role => (
+                  <label key={role} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      checked={draft.role === role}
+                      onChange={() => setDraft({ ...draft, role })}
+                      className="accent-cyan-400"
+                    />
+                    {ROLE_LABELS[role]}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-3">
+                <label className="flex items-center gap-1" title="Other tabs of this browser">
+                  <input
+                    type="radio"
+                    checked={draft.transport === 'local'}
+                    onChange={() => setDraft({ ...draft, transport: 'local' })}
+                    className="accent-cyan-400"
+                  />
+                  THIS MACHINE
+                </label>
+                <label className="flex items-center gap-1" title="Other machines, through the relay (npm run relay)">
+                  <input
+                    type="radio"
+                    checked={draft.transport === 'relay'}
+                    onChange={() => setDraft({ ...draft, transport: 'relay' })}
+                    className="accent-cyan-400"
+                  />
+                  RELAY
+                </label>
+              </div>
+              {draft.transport === 'relay' && (
+                <input value={draft.relayUrl} onChange={e => setDraft({ ...draft, relayUrl: e.target.value })} placeholder="ws://host:8787" className={`${inputClass} w-full`} />
+              )}
+              <button type="submit" className="text-cyan-300 hover:text-white">JOIN</button>
+              {error && <div className="text-red-400">{error}</div>}
+            </form>
+          )}
+
+          {session && status && (
+            <>
+              <div className="flex items-center justify-between">
+                <span>
+                  {settings.room} · {status.transport === 'open' ? ROLE_LABELS[status.role] : status.transport.toUpperCase()}
+                </span>
+                <button onClick={onLeave} className="text-white/40 hover:text-red-400">LEAVE</button>
+              </div>
+
+              {status.transport === 'closed' && (
+                <div className="flex items-center justify-between text-red-400">
+                  Disconnected from the relay.
+                  <button onClick={() => session.reconnect()} className="flex items-center gap-1 text-cyan-300 hover:text-white">
+                    <RefreshCw size={10} /> RECONNECT
+                  </button>
+                </div>
+              )}
+
+              <ul className="space-y-1 pt-2 border-t border-white/10">
+                {peers.length === 0 && <li className="text-white/30">Nobody else here yet.</li>}
+                {peers.map(peer => (
+                  <li key={peer.id} className="flex items-center gap-2">
+                    {peer.role === 'controller' ? <Crown size={10} className="text-amber-300" /> : <Eye size={10} />}
+                    <span className="flex-1 truncate text-white/80">{peer.name}</span>
+                    {status.requests.includes(peer.id) && <span className="text-amber-300">WANTS CONTROL</span>}
+                    {status.role === 'controller' && peer.role === 'spectator' && (
+                      <button onClick={() => session.handOff(peer.id)} className="hover:text-cyan-300" title="Give control to this spectator">
+                        HAND OFF
+                      </button>
+                    )}
+                    {status.requests.includes(peer.id) && (
+                      <button onClick={() => session.dismissRequest(peer.id)} className="text-white/30 hover:text-white" title="Dismiss">
+                        ✕
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {status.role === 'spectator' && (
+                controllerPresent
+                  ? (
+                    <button
+                      onClick={() => {
+                        session.requestControl();
+                        setRequested(true);
+                      }}
+                      className="hover:text-cyan-300"
+                    >
+                      {requested ? 'CONTROL REQUESTED' : 'REQUEST CONTROL'}
+                    </button>
+                  )
+                  : <button onClick={() => session.takeControl()} className="hover:text-cyan-300">NO CONTROLLER · TAKE CONTROL</button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedSessionPanel;
@@ -0,0 +1,84 @@
+import React, { MutableRefObject, useEffect, useRef, useState } from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { SimulationParams } from '../types';
+import { SimulationStateMachine } from '../services/simulationStateMachine';
+import { Sonification, SoundSettings, loadSoundSettings, saveSoundSettings } from '../services/sonification';
+
+interface SoundControlsProps {
+  params: MutableRefObject<SimulationParams>;
+  stateMachine: SimulationStateMachine;
+}
+
+const UPDATE_MS = 100;
+
+const SoundControls: React.FC<SoundControlsProps> = ({ params, stateMachine }) => {
+  const [settings, setSettings] = useState<SoundSettings>(loadSoundSettings);
+  const [running, setRunning] = useState(false);
+  const sonificationRef = useRef<Sonification | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  // Browsers only let audio start from a user gesture, so the graph is built on the first one
+  useEffect(() => {
+    if (typeof AudioContext === 'undefined') return;
+    let ctx: AudioContext | null = null;
+    let timer = 0;
+
+    const start = () => {
+      window.removeEventListener('pointerdown', start);
+      window.removeEventListener('keydown', start);
+      ctx = new AudioContext();
+      const sonification = new Sonification(ctx);
+      sonification.setSettings(settingsRef.current);
+      sonification.update(params.current);
+      sonificationRef.current = sonification;
+      timer = window.setInterval(() => sonification.update(params.current), UPDATE_MS);
+      setRunning(true);
+    };
+    window.addEventListener('pointerdown', start);
+    window.addEventListener('keydown', start);
+
+    const unsubscribe = stateMachine.subscribe(({ to }) => sonificationRef.current?.stinger(to));
+
+    return () => {
+      window.removeEventListener('pointerdown', start);
+      window.removeEventListener('keydown', start);
+      unsubscribe();
+      window.clearInterval(timer);
+      sonificationRef.current?.dispose();
+      sonificationRef.current = null;
+      ctx?.close();
+    };
+  }, [params, stateMachine]);
+
+  const update = (next: SoundSettings) => {
+    setSettings(next);
+    saveSoundSettings(next);
+    sonificationRef.current?.setSettings(next);
+  };
+
+  const silent = settings.muted || settings.volume === 0;
+
+  return (
+    <div className="flex items-center gap-2 text-xs font-mono text-white/50">
+      <button
+        onClick={() => update({ ...settings, muted: !settings.muted })}
+        className="flex items-center gap-1 hover:text-white"
+        title={settings.muted ? 'Unmute' : 'Mute'}
+      >
+        {silent ? <VolumeX size={12} /> : <Volume2 size={12} />}
+        {settings.muted ? 'MUTED' : 'SOUND'}
+      </button>
+      <input
+        type="range" min={0} max={1} step={0.05}
+        value={settings.volume}
+        onChange={e => update({ ...settings, volume: Number(e.target.value), muted: false })}
+        className="w-24 accent-cyan-400"
+        title="Volume"
+      />
+      {!running && !settings.muted && <span className="text-white/30">CLICK TO START</span>}
+    </div>
+  );
+};
+
+export default SoundControls;
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Orbit } from 'lucide-react';
+import { SimulationState } from '../types';
+import { SimulationStateMachine } from '../services/simulationStateMachine';
+
+interface StateReadoutProps {
+  stateMachine: SimulationStateMachine;
+}
+
+const STATE_STYLES: Record<SimulationState, string> = {
+  [SimulationState.STABLE]: 'text-cyan-300 border-cyan-500/40 bg-cyan-900/20',
+  [SimulationState.UNSTABLE]: 'text-violet-300 border-violet-500/40 bg-violet-900/20',
+  [SimulationState.COLLAPSING]: 'text-blue-300 border-blue-500/40 bg-blue-900/20',
+  [SimulationState.SUPERNOVA]: 'text-amber-200 border-amber-400/60 bg-amber-900/30 animate-pulse'
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+const StateReadout: React.FC<StateReadoutProps> = ({ stateMachine }) => {
+  const [state, setState] = useState<SimulationState>(stateMachine.getState());
+  const [timeInState, setTimeInState] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = stateMachine.subscribe(transition => {
+      setState(transition.to);
+      setTimeInState(0);
+    });
+    // Dwell time only needs a coarse refresh; the machine itself ticks every frame
+    const interval = window.setInterval(() => {
+      setTimeInState(stateMachine.getTimeInState());
+    }, 250);
+
+    return () => {
+      unsubscribe();
+      window.clearInterval(interval);
+    };
+  }, [stateMachine]);
+
+  return (
+    <div className={`flex justify-between items-center px-3 py-2 rounded-lg border font-mono text-sm ${STATE_STYLES[state]}`}>
+      <span className="flex items-center gap-2"><Orbit size={16} /> {state}</span>
+      <span className="text-xs opacity-70">T+{formatDuration(timeInState)}</span>
+    </div>
+  );
+};
+
+export default StateReadout;
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { TelemetryMetric, TelemetryRecorder, TelemetrySample } from '../services/telemetry';
+
+interface TelemetryPanelProps {
+  telemetry: TelemetryRecorder;
+}
+
+const WINDOW_MS = 30_000;
+const REFRESH_MS = 250;
+const WIDTH = 120;
+const HEIGHT = 16;
+
+const SPARKLINES: Array<{ key: TelemetryMetric; label: string; color: string; format: (value: number) => string }> = [
+  { key: 'meanRadius', label: 'RADIUS', color: '#22d3ee', format: v => v.toFixed(2) },
+  { key: 'velocityDispersion', label: 'V-DISP', color: '#a78bfa', format: v => v.toFixed(2) },
+  { key: 'coreBrightness', label: 'CORE', color: '#fde68a', format: v => `${Math.round(v * 100)}%` },
+  { key: 'escapeFraction', label: 'ESCAPE', color: '#fb923c', format: v => `${Math.round(v * 100)}%` },
+  { key: 'handConfidence', label: 'HAND', color: '#4ade80', format: v => `${Math.round(v * 100)}%` }
+];
+
+const points = (series: TelemetrySample[], key: TelemetryMetric) => {
+  if (series.length < 2) return '';
+  const values = series.map(sample => sample[key]);
+  // Fractions keep a fixed 0..1 axis; the rest auto-scale
+  const fixed = key === 'coreBrightness' || key === 'escapeFraction' || key === 'handConfidence';
+  const min = fixed ? 0 : Math.min(...values);
+  const max = fixed ? 1 : Math.max(...values);
+  const range = max - min || 1;
+  const start = series[0].time;
+  const span = series[series.length - 1].time - start || 1;
+  return series
+    .map((sample, i) => {
+      const x = ((sample.time - start) / span) * WIDTH;
+      const y = HEIGHT - ((values[i] - min) / range) * HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+const TelemetryPanel: React.FC<TelemetryPanelProps> = ({ telemetry }) => {
+  const [series, setSeries] = useState<TelemetrySample[]>([]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setSeries(telemetry.getSeries(WINDOW_MS)), REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [telemetry]);
+
+  const latest = series[series.length - 1];
+  if (!latest) return null;
+
+  return (
+    <div className="space-y-1 font-mono text-[10px] text-white/40">
+      {SPARKLINES.map(({ key, label, color, format }) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="w-12">{label}</span>
+          <svg width={WIDTH} height={HEIGHT} className="overflow-visible">
+            <polyline points={points(series, key)} fill="none" stroke={color} strokeWidth={1} strokeOpacity={0.8} />
+          </svg>
+          <span className="w-10 text-right" style={{ color }}>{format(latest[key])}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TelemetryPanel;
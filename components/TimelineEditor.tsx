@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Film, Pause, Play, Plus, SkipBack, Trash2 } from 'lucide-react';
+import { PresetParams } from '../services/presets';
+import { clampParam, fromFraction, PARAM_SCHEMA, PARAM_SPECS, toFraction } from '../services/paramSchema';
+import { createKeyframeId, EASINGS, EasingName, Keyframe, Timeline, TimelineParam, TimelinePlayer } from '../services/timeline';
+
+interface TimelineEditorProps {
+  player: TimelinePlayer;
+  timeline: Timeline;
+  onChange: (timeline: Timeline) => void;
+  getParams: () => PresetParams;
+  // A visible hand takes over from the keyframes
+  gestureOverride: boolean;
+  onGestureOverrideChange: (override: boolean) => void;
+}
+
+const WIDTH = 200;
+const HEIGHT = 28;
+const RADIUS = 4;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ player, timeline, onChange, getParams, gestureOverride, onGestureOverrideChange }) => {
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Tracks added from the picker that don't have keyframes yet
+  const [addedTracks, setAddedTracks] = useState<TimelineParam[]>([]);
+  const [, setTick] = useState(0);
+  const draggingRef = useRef<string | null>(null);
+
+  useEffect(() => player.subscribe(() => setTick(t => t + 1)), [player]);
+
+  const { durationMs, keyframes } = timeline;
+  const selected = keyframes.find(keyframe => keyframe.id === selectedId) ?? null;
+  // HUD params always get a track; others once added or keyframed
+  const tracks = PARAM_SCHEMA.filter(spec =>
+    spec.hud || addedTracks.includes(spec.key) || keyframes.some(k => k.param === spec.key)
+  );
+  const hiddenTracks = PARAM_SCHEMA.filter(spec => !tracks.includes(spec));
+  const position = player.getPosition();
+
+  const updateKeyframe = (id: string, patch: Partial<Keyframe>) =>
+    onChange({ ...timeline, keyframes: keyframes.map(k => (k.id === id ? { ...k, ...patch } : k)) });
+
+  const addKeyframe = (param: TimelineParam, timeMs: number, value: number) => {
+    const keyframe: Keyframe = { id: createKeyframeId(), param, timeMs, value, easing: 'easeInOut' };
+    // One keyframe per param and time: a new one at the same spot replaces the old
+    onChange({ ...timeline, keyframes: [...keyframes.filter(k => k.param !== param || k.timeMs !== timeMs), keyframe] });
+    return keyframe;
+  };
+
+  const removeKeyframe = (id: string) => {
+    onChange({ ...timeline, keyframes: keyframes.filter(k => k.id !== id) });
+    setSelectedId(null);
+  };
+
+  // Keyframe every track at the playhead with what the simulation shows now
+  const keyAll = () => {
+    const params = getParams();
+    const timeMs = Math.round(position);
+    const added = tracks.map(({ key }) => ({ id: createKeyframeId(), param: key, timeMs, value: params[key], easing: 'easeInOut' as EasingName }));
+    onChange({
+      ...timeline,
+      keyframes: [...keyframes.filter(k => k.timeMs !== timeMs || !tracks.some(t => t.key === k.param)), ...added]
+    });
+  };
+
+  // The track's height spans the param's whole range
+  const pointFrom = (param: TimelineParam, event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.round(clamp01(1 - (event.clientY - rect.top) / rect.height) * 100) / 100;
+    return {
+      timeMs: Math.round(clamp01((event.clientX - rect.left) / rect.width) * durationMs),
+      value: fromFraction(param, fraction)
+    };
+  };
+
+  const handleTrackDown = (param: TimelineParam, event: React.PointerEvent<SVGSVGElement>) => {
+    const { timeMs, value } = pointFrom(param, event);
+    const id = (event.target as Element).getAttribute('data-keyframe') ?? addKeyframe(param, timeMs, value).id;
+    setSelectedId(id);
+    draggingRef.current = id;
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handleTrackMove = (param: TimelineParam, event: React.PointerEvent<SVGSVGElement>) => {
+    if (!draggingRef.current) return;
+    updateKeyframe(draggingRef.current, pointFrom(param, event));
+  };
+
+  const handleRulerDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    player.seek(clamp01((event.clientX - rect.left) / rect.width) * durationMs);
+  };
+
+  const inputClass = "bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white/80";
+
+  return (
+    <div className="mt-2 w-72 font-mono text-xs">
+      <button onClick={() => setOpen(o => !o)} aria-expanded={open} className="flex items-center gap-2 text-white/50 hover:text-white transition-colors">
+        <Film size={12} /> TIMELINE{player.isPlaying() && ' ▶'}
+      </button>
+
+      {open && (
+        <div className="mt-2 p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md text-white/60">
+          <div className="flex items-center gap-2">
+            <button onClick={() => player.seek(0)} className="hover:text-white" title="Rewind">
+              <SkipBack size={12} />
+            </button>
+            <button
+              onClick={() => (player.isPlaying() ? player.pause() : player.play())}
+              disabled={keyframes.length === 0}
+              className="text-cyan-300 hover:text-white disabled:opacity-30"
+              title={player.isPlaying() ? "Pause" : "Play"}
+            >
+              {player.isPlaying() ? <Pause size={12} /> : <Play size={12} />}
+            </button>
+            <span className="w-20">{(position / 1000).toFixed(1)}s / </span>
+            <input
+              type="number" min={1} max={600} step={1}
+              value={durationMs / 1000}
+              onChange={e => onChange({ ...timeline, durationMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+              className={`${inputClass} w-12 text-right`}
+              title="Duration (s)"
+            />
+            <button onClick={keyAll} className="ml-auto flex items-center gap-1 hover:text-cyan-300" title="Keyframe all tracks at the playhead">
+              <Plus size={12} /> KEY
+            </button>
+          </div>
+
+          {/* Ruler: click to move the playhead */}
+          <div className="flex items-center gap-2">
+            <span className="w-14" />
+            <div onMouseDown={handleRulerDown} className="relative h-2 cursor-pointer bg-white/5 rounded" style={{ width: WIDTH }}>
+              <div className="absolute top-0 bottom-0 w-px bg-white" style={{ left: `${(position / durationMs) * 100}%` }} />
+            </div>
+          </div>
+
+          {tracks.map(({ key: param, label, color }) => {
+            const track = keyframes.filter(k => k.param === param).sort((a, b) => a.timeMs - b.timeMs);
+            const x = (timeMs: number) => (timeMs / durationMs) * WIDTH;
+            const y = (value: number) => (1 - toFraction(param, value)) * HEIGHT;
+            return (
+              <div key={param} className="flex items-center gap-2">
+                <span className="w-14 truncate" style={{ color }} title={PARAM_SPECS[param].name}>{label}</span>
+                <svg
+                  width={WIDTH} height={HEIGHT}
+                  className="overflow-visible cursor-crosshair bg-white/5 rounded"
+                  onPointerDown={e => handleTrackDown(param, e)}
+                  onPointerMove={e => handleTrackMove(param, e)}
+                  onPointerUp={() => { draggingRef.current = null; }}
+                >
+                  <polyline
+                    points={track.map(k => `${x(k.timeMs)},${y(k.value)}`).join(' ')}
+                    fill="none" stroke={color} strokeOpacity={0.5} strokeWidth={1}
+                  />
+                  <line x1={x(position)} x2={x(position)} y1={0} y2={HEIGHT} stroke="white" strokeOpacity={0.4} />
+                  {track.map(k => (
+                    <circle
+                      key={k.id}
+                      data-keyframe={k.id}
+                      cx={x(k.timeMs)} cy={y(k.value)} r={RADIUS}
+                      fill={k.id === selectedId ? 'white' : color}
+                      className="cursor-grab"
+                    />
+                  ))}
+                </svg>
+              </div>
+            );
+          })}
+
+          {hiddenTracks.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="w-14" />
+              <select
+                value=""
+                onChange={e => setAddedTracks(list => [...list, e.target.value as TimelineParam])}
+                className={`${inputClass} text-white/50`}
+              >
+                <option value="">+ TRACK</option>
+                {hiddenTracks.map(spec => <option key={spec.key} value={spec.key}>{spec.name}</option>)}
+              </select>
+            </div>
+          )}
+
+          {selected && (
+            <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+              <input
+                type="number" min={0} max={durationMs / 1000} step={0.1}
+                value={(selected.timeMs / 1000).toFixed(1)}
+                onChange={e => updateKeyframe(selected.id, { timeMs: Math.min(Math.max(Number(e.target.value) * 1000, 0), durationMs) })}
+                className={`${inputClass} w-14 text-right`}
+                title="Time (s)"
+              />
+              <input
+                type="number"
+                min={PARAM_SPECS[selected.param].min} max={PARAM_SPECS[selected.param].max} step={PARAM_SPECS[selected.param].step}
+                value={selected.value}
+                onChange={e => updateKeyframe(selected.id, { value: clampParam(selected.param, Number(e.target.value)) })}
+                className={`${inputClass} w-14 text-right`}
+                title="Value"
+              />
+              <select
+                value={selected.easing}
+                onChange={e => updateKeyframe(selected.id, { easing: e.target.value as EasingName })}
+                className={`${inputClass} flex-1 min-w-0`}
+                title="Easing into this keyframe"
+              >
+                {(Object.keys(EASINGS) as EasingName[]).map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <button onClick={() => removeKeyframe(selected.id)} className="text-white/30 hover:text-red-400" title="Delete keyframe">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center gap-4 pt-2 border-t border-white/10">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={timeline.loop}
+                onChange={e => onChange({ ...timeline, loop: e.target.checked })}
+                className="accent-cyan-400"
+              />
+              LOOP
+            </label>
+            <label className="flex items-center gap-1" title="While a hand is visible it overrides the keyframes">
+              <input
+                type="checkbox"
+                checked={gestureOverride}
+                onChange={e => onGestureOverrideChange(e.target.checked)}
+                className="accent-cyan-400"
+              />
+              HANDS OVERRIDE
+            </label>
+          </div>
+          <p className="text-white/30">Click a track to add a keyframe, drag to move it.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelineEditor;
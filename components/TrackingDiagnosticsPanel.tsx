@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { DiagnosticsSnapshot, TrackingDiagnostics } from '../services/trackingDiagnostics';
+import { CONTINUOUS_LABELS, GestureMapping } from '../services/gestureMapping';
+import { ContinuousGesture } from '../services/gestureRecognizer';
+import { TrackingSettings } from '../services/trackingSettings';
+import { PARAM_SCHEMA } from '../services/paramSchema';
+
+interface TrackingDiagnosticsPanelProps {
+  diagnostics: TrackingDiagnostics;
+  mapping: GestureMapping;
+  settings: TrackingSettings;
+  onChange: (settings: TrackingSettings) => void;
+}
+
+const REFRESH_MS = 250;
+
+const format = (value: number | null) => (value === null ? '--' : value.toFixed(2));
+
+const TrackingDiagnosticsPanel: React.FC<TrackingDiagnosticsPanelProps> = ({ diagnostics, mapping, settings, onChange }) => {
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot>(() => diagnostics.snapshot());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => setSnapshot(diagnostics.snapshot()), REFRESH_MS);
+    return () => window.clearInterval(interval);
+  }, [diagnostics]);
+
+  const update = (patch: Partial<TrackingSettings>) => onChange({ ...settings, ...patch });
+
+  // HUD params always, anything else once a gesture drives it
+  const bound = new Set(Object.values(mapping.continuous));
+  const targets = PARAM_SCHEMA.filter(spec => spec.hud || bound.has(spec.key));
+
+  return (
+    <div className="w-48 md:w-64 mt-2 p-2 space-y-1 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md font-mono text-[10px] text-white/50">
+      <div className="flex justify-between">
+        <span>INFERENCE</span>
+        <span className="text-white/80">{snapshot.latencyMs.toFixed(1)}ms (max {snapshot.maxLatencyMs.toFixed(0)})</span>
+      </div>
+      <div className="flex justify-between">
+        <span>DETECTION</span>
+        <span className="text-white/80">{snapshot.detectionFps.toFixed(0)} FPS</span>
+      </div>
+      <div className="flex justify-between">
+        <span>HANDS</span>
+        <span className="text-white/80">
+          {snapshot.hands.length === 0
+            ? 'none'
+            : snapshot.hands.map(hand => `${hand.side.toUpperCase()} ${Math.round(hand.score * 100)}%`).join(' · ')}
+        </span>
+      </div>
+
+      {targets.map(({ key, label, color }) => {
+        const reading = snapshot.readings?.[key];
+        const gestures = (Object.keys(mapping.continuous) as ContinuousGesture[]).filter(gesture => mapping.continuous[gesture] === key);
+        return (
+          <div key={key} className="pt-1 border-t border-white/10">
+            <div className="flex justify-between" style={{ color }}>
+              <span>{label}</span>
+              <span>RAW {format(reading?.raw ?? null)} → {format(reading?.filtered ?? null)}</span>
+            </div>
+            <div className="text-white/40">
+              {gestures.length === 0
+                ? 'unbound'
+                : gestures.map(gesture => (gesture === reading?.source ? `▸ ${CONTINUOUS_LABELS[gesture]}` : CONTINUOUS_LABELS[gesture])).join(', ')}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="pt-1 border-t border-white/10 space-y-1">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.swapHandedness}
+            onChange={e => update({ swapHandedness: e.target.checked })}
+            className="accent-cyan-400"
+          />
+          Swap left/right hands
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.showOverlay}
+            onChange={e => update({ showOverlay: e.target.checked })}
+            className="accent-cyan-400"
+          />
+          Draw hand skeletons
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default TrackingDiagnosticsPanel;
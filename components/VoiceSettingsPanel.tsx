@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { SpeechOutput, VOICE_LANGUAGES, VoiceSettings } from '../services/speechService';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  output: SpeechOutput;
+  recognitionSupported: boolean;
+}
+
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, onChange, output, recognitionSupported }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => output.getVoices());
+  useEffect(() => output.onVoicesChanged(() => setVoices(output.getVoices())), [output]);
+
+  const update = (patch: Partial<VoiceSettings>) => onChange({ ...settings, ...patch });
+  const language = settings.lang.split('-')[0];
+  const matchingVoices = voices.filter(voice => voice.lang.startsWith(language));
+
+  const inputClass = "flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-2 py-1 text-white/80";
+
+  return (
+    <div className="w-full p-3 space-y-2 rounded-lg border border-white/10 bg-black/60 backdrop-blur-md font-mono text-xs text-white/60">
+      <label className="flex items-center gap-2">
+        <span className="w-16">LANGUAGE</span>
+        <select value={settings.lang} onChange={e => update({ lang: e.target.value, voiceURI: null })} className={inputClass}>
+          {VOICE_LANGUAGES.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+        </select>
+      </label>
+
+      {output.supported ? (
+        <>
+          <label className="flex items-center gap-2">
+            <span className="w-16">VOICE</span>
+            <select
+              value={settings.voiceURI ?? ''}
+              onChange={e => update({ voiceURI: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">Default</option>
+              {matchingVoices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="w-16">RATE</span>
+            <input
+              type="range" min={0.5} max={2} step={0.1}
+              value={settings.rate}
+              onChange={e => update({ rate: Number(e.target.value) })}
+              className="flex-1 accent-cyan-400"
+            />
+            <span className="w-8 text-right">{settings.rate.toFixed(1)}x</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.speakReplies}
+              onChange={e => update({ speakReplies: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Read replies aloud
+          </label>
+        </>
+      ) : (
+        <div className="text-white/30">Spoken replies are not supported in this browser.</div>
+      )}
+
+      {recognitionSupported ? (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.continuous}
+            onChange={e => update({ continuous: e.target.checked })}
+            className="accent-cyan-400"
+          />
+          Hands-free: always listen for "Nebula, ..."
+        </label>
+      ) : (
+        <div className="text-white/30">Voice input is not supported in this browser.</div>
+      )}
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
@@ -0,0 +1,138 @@
+// Relay for shared sessions across machines: every message a client sends is forwarded to
+// the other clients in the same room, untouched. Roles, handoff and catch-up are worked out
+// by the clients themselves (see services/sharedSession.ts), so this stays a dumb pipe.
+//
+//   npm run relay              listens on port 8787
+//   PORT=9000 npm run relay
+//
+// Clients connect to ws://<host>:<port>/?room=<name>. No dependencies: just enough of
+// RFC 6455 for text messages between browsers.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Larger messages (a late joiner's snapshot with a long chat) are fine; this only stops abuse
+const MAX_MESSAGE_BYTES = 1 << 20;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const rooms = new Map();
+
+const frame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of `buffer`. Returns the frames and what is left over.
+const parseFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) return { frames, rest: null };
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(cursor, cursor + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const leave = (room, socket) => {
+  const members = rooms.get(room);
+  if (!members) return;
+  members.delete(socket);
+  if (members.size === 0) rooms.delete(room);
+};
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Nebula session relay: connect with a WebSocket.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room') || 'default';
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room).add(socket);
+  console.info(`[relay] join "${room}" (${rooms.get(room).size} connected)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest } = parseFrames(Buffer.concat([pending, chunk]));
+    if (rest === null) {
+      socket.destroy();
+      return;
+    }
+    pending = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === OPCODE_TEXT) {
+        const message = frame(OPCODE_TEXT, payload);
+        rooms.get(room)?.forEach(other => {
+          if (other !== socket && other.writable) other.write(message);
+        });
+      } else if (opcode === OPCODE_PING) {
+        socket.write(frame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(frame(OPCODE_CLOSE, Buffer.alloc(0)));
+      }
+    });
+  });
+
+  const close = () => {
+    if (!rooms.get(room)?.has(socket)) return;
+    leave(room, socket);
+    console.info(`[relay] leave "${room}"`);
+  };
+  socket.on('close', close);
+  socket.on('error', close);
+});
+
+server.listen(PORT, () => console.info(`[relay] listening on ws://0.0.0.0:${PORT}`));
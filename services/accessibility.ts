@@ -0,0 +1,89 @@
+import { SimulationState } from '../types';
+import { GestureAction } from './gestureMapping';
+
+const STORAGE_KEY = 'nebula.accessibility.v1';
+
+// 'system' follows the OS prefers-reduced-motion setting
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export interface AccessibilitySettings {
+  motion: MotionPreference;
+  // Opaque panels, full-strength text and outlines on the HUD
+  highContrast: boolean;
+  // Single-key action shortcuts; speech input users can turn them off (WCAG 2.1.4)
+  keyboardShortcuts: boolean;
+}
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+const MORE_CONTRAST_QUERY = '(prefers-contrast: more)';
+
+const matches = (query: string) => typeof window !== 'undefined' && !!window.matchMedia?.(query).matches;
+
+export const systemPrefersReducedMotion = () => matches(REDUCED_MOTION_QUERY);
+
+// Calls `listener` whenever the OS setting changes. Returns an unsubscribe function.
+export const watchReducedMotion = (listener: (reduce: boolean) => void): (() => void) => {
+  if (typeof window === 'undefined' || !window.matchMedia) return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = (event: MediaQueryListEvent) => listener(event.matches);
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
+
+export const resolveReducedMotion = (motion: MotionPreference, systemReduce: boolean) =>
+  motion === 'system' ? systemReduce : motion === 'reduce';
+
+// Read out by screen readers on each state transition
+export const STATE_ANNOUNCEMENTS: Record<SimulationState, string> = {
+  [SimulationState.STABLE]: 'Galaxy stable.',
+  [SimulationState.UNSTABLE]: 'Galaxy unstable.',
+  [SimulationState.COLLAPSING]: 'Galaxy collapsing.',
+  [SimulationState.SUPERNOVA]: 'Supernova!'
+};
+
+// Keyboard equivalents of the discrete hand gestures (no modifier keys)
+export const ACTION_SHORTCUTS: { key: string; action: GestureAction }[] = [
+  { key: 'n', action: 'triggerSupernova' },
+  { key: 'c', action: 'triggerCollapse' },
+  { key: 'p', action: 'cyclePreset' },
+  { key: 'r', action: 'toggleRecording' },
+  { key: 's', action: 'takeSnapshot' },
+  { key: 'f', action: 'toggleFreeze' },
+  { key: '0', action: 'reset' }
+];
+
+// Typing into a field or working a control that uses the keys itself
+export const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable);
+};
+
+export const defaultAccessibilitySettings = (): AccessibilitySettings => ({
+  motion: 'system',
+  highContrast: matches(MORE_CONTRAST_QUERY),
+  keyboardShortcuts: true
+});
+
+export const loadAccessibilitySettings = (): AccessibilitySettings => {
+  const defaults = defaultAccessibilitySettings();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaults;
+    const parsed = JSON.parse(raw) as Partial<AccessibilitySettings>;
+    return {
+      motion: parsed.motion === 'reduce' || parsed.motion === 'full' ? parsed.motion : 'system',
+      highContrast: typeof parsed.highContrast === 'boolean' ? parsed.highContrast : defaults.highContrast,
+      keyboardShortcuts: typeof parsed.keyboardShortcuts === 'boolean' ? parsed.keyboardShortcuts : defaults.keyboardShortcuts
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveAccessibilitySettings = (settings: AccessibilitySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist accessibility settings:", err);
+  }
+};
@@ -0,0 +1,137 @@
+import { FunctionDeclaration } from "@google/genai";
+import { ChatMessage, SimulationState } from "../types";
+import { formatSummary, TelemetrySummary } from "./telemetry";
+import { DEFAULT_PARAMS, formatParam, PARAM_SCHEMA, ParamKey } from "./paramSchema";
+
+// Shared contract for everything that can answer the captain: Gemini, an OpenAI-compatible
+// endpoint, or the offline narrator. Prompt building and history trimming live here so
+// every backend sees the same conversation.
+
+export type AnalysisProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface Telemetry extends Partial<Record<ParamKey, number>> {
+  chaos: number;
+  scale: number;
+  state?: SimulationState;
+  // Galaxy type, e.g. "Spiral, 2 arms, 18° pitch"
+  morphology?: string;
+  // Only set while the galaxy is viewed in 3D, e.g. "3D, 55° inclination, 0° azimuth"
+  view?: string;
+  // What happened over the last few seconds, not just this instant
+  recent?: TelemetrySummary | null;
+}
+
+export interface AnalysisRequest {
+  history: ChatMessage[];
+  telemetry: Telemetry;
+  userQuery?: string;
+}
+
+// Provider-neutral tool call
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface StreamOptions {
+  // Called with the full text received so far, each time a chunk arrives
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+  // Declared in Gemini's schema format; other backends convert them
+  tools?: FunctionDeclaration[];
+  // Runs a tool call and returns the response sent back to the model
+  onToolCall?: (call: ToolCall) => Record<string, unknown>;
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  // Streams the reply and resolves with the full text. Throws when the backend can't answer;
+  // if `signal` aborts, resolves with whatever arrived so far.
+  stream(request: AnalysisRequest, options: StreamOptions): Promise<string>;
+}
+
+// Thrown for a provider that isn't set up (no key, no endpoint): skip it quietly
+export class ProviderUnavailableError extends Error {}
+
+// --- Prompt -------------------------------------------------------------------
+
+// History budget. Roughly 4 characters per token, so this keeps the replayed conversation
+// around 2k tokens; the oldest turns are dropped first.
+const MAX_HISTORY_CHARS = 8000;
+const MAX_HISTORY_TURNS = 20;
+// Tool call -> response -> reply cycles allowed per request
+export const MAX_TOOL_ROUNDS = 3;
+
+export const SYSTEM_INSTRUCTION = `
+  You are a cosmic observer AI monitoring a galaxy simulation.
+  Every message from the user (Starship Captain) starts with the current telemetry:
+  - Entropy/Chaos Level: 0% is ordered, 100% is total molecular scattering
+  - Gravitational Scale: 0% is a dense singularity, 100% is a massive expanded nebula
+  - Galaxy type: disc, spiral (with its arm count and pitch), barred spiral, elliptical, ring or irregular
+  Earlier messages carry the telemetry of their own moment, so you can describe how the galaxy has changed.
+  The latest message also summarizes the last few seconds (spikes, state transitions, particle metrics in
+  viewport-relative units); weave the notable events into your answer.
+
+  Use scientific yet poetic language suitable for a sci-fi interface.
+  Do not mention "percentages" explicitly, describe the effects.
+`;
+
+export const TOOL_INSTRUCTION = `
+  When the captain asks to change the galaxy, use the tools instead of only describing it,
+  then briefly confirm what you did.
+`;
+
+// Non-HUD params the captain has moved away from their defaults, e.g. "Color shift 120°"
+const describeTuning = (telemetry: Telemetry) =>
+  PARAM_SCHEMA
+    .filter(spec => !spec.hud && telemetry[spec.key] !== undefined && telemetry[spec.key] !== DEFAULT_PARAMS[spec.key])
+    .map(spec => `${spec.name} ${formatParam(spec.key, telemetry[spec.key]!)}`)
+    .join(', ');
+
+export const describeTelemetry = (telemetry: Telemetry) => {
+  const { chaos, scale, state, morphology, view, recent } = telemetry;
+  const tuning = describeTuning(telemetry);
+  return `[Telemetry] Entropy/Chaos Level: ${Math.round(chaos * 100)}%. Gravitational Scale: ${Math.round(scale * 100)}%.` +
+    (tuning ? ` Tuning: ${tuning}.` : '') +
+    (morphology ? ` Galaxy type: ${morphology}.` : '') +
+    (view ? ` View: ${view}.` : '') +
+    (state ? ` State: ${state}.` : '') +
+    (recent ? `\n${formatSummary(recent)}` : '');
+};
+
+// Newest turns that fit the budget, oldest first, always starting on a user turn
+export const trimHistory = (history: ChatMessage[]): ChatMessage[] => {
+  const kept: ChatMessage[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0 && kept.length < MAX_HISTORY_TURNS; i--) {
+    const message = history[i];
+    if (!message.text) continue;
+    chars += message.text.length;
+    if (chars > MAX_HISTORY_CHARS) break;
+    kept.unshift(message);
+  }
+  while (kept.length > 0 && kept[0].role !== 'user') kept.shift();
+  return kept;
+};
+
+export interface PromptTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Trimmed history plus the new request, with telemetry attached to every user turn
+export const buildTurns = ({ history, telemetry, userQuery }: AnalysisRequest): PromptTurn[] => {
+  const request = userQuery
+    ? `The user asks: "${userQuery}". Answer their specific question based on the telemetry.`
+    : `Describe the visual and physical state of this galaxy in 2 sentences.`;
+
+  return [
+    ...trimHistory(history).map(message => ({
+      role: message.role,
+      text: message.params ? `${describeTelemetry(message.params)}\n${message.text}` : message.text
+    })),
+    { role: 'user', text: `${describeTelemetry(telemetry)}\n${request}` }
+  ];
+};
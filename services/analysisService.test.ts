@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ANALYSIS_SETTINGS, runAnalysis } from './analysisService';
+
+const request = { history: [], telemetry: { chaos: 0.3, scale: 0.6 } };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runAnalysis', () => {
+  it('reports a failing endpoint in skipped, not just an unconfigured one', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('boom', { status: 500 })));
+    const result = await runAnalysis({ ...DEFAULT_ANALYSIS_SETTINGS, provider: 'openai', fallback: false }, request, {});
+    expect(result.providerId).toBe('openai');
+    expect(result.skipped).toEqual([{ providerId: 'openai', reason: 'Endpoint responded 500' }]);
+  });
+
+  it('reports network errors with their message and falls back', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+    const result = await runAnalysis({ ...DEFAULT_ANALYSIS_SETTINGS, provider: 'openai' }, request, {});
+    expect(result.providerId).toBe('offline');
+    expect(result.text).not.toBe('');
+    expect(result.skipped.map(skip => skip.providerId)).toEqual(['openai', 'gemini']);
+    expect(result.skipped[0].reason).toMatch(/Failed to fetch/);
+  });
+
+  it('does not count a cancelled request as a failure', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    }));
+    const result = await runAnalysis({ ...DEFAULT_ANALYSIS_SETTINGS, provider: 'openai' }, request, { signal: controller.signal });
+    expect(result.skipped).toEqual([]);
+  });
+});
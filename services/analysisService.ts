@@ -0,0 +1,115 @@
+import { AnalysisProvider, AnalysisProviderId, AnalysisRequest, StreamOptions } from './analysisProvider';
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from './geminiService';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { OfflineNarratorProvider } from './offlineNarrator';
+
+const STORAGE_KEY = 'nebula.analysis.v1';
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  geminiModel: string;
+  localEndpoint: string;
+  localModel: string;
+  localApiKey: string;
+  // Try the other providers when the selected one fails
+  fallback: boolean;
+}
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  localApiKey: '',
+  fallback: true
+};
+
+export const PROVIDER_LABELS: Record<AnalysisProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'Local endpoint (OpenAI-compatible)',
+  offline: 'Offline narrator'
+};
+
+// Order tried after the selected provider fails. The narrator can't fail, so it goes last.
+const FALLBACK_ORDER: AnalysisProviderId[] = ['gemini', 'openai', 'offline'];
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_ANALYSIS_SETTINGS;
+    const parsed = { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(raw) } as AnalysisSettings;
+    return parsed.provider in PROVIDER_LABELS ? parsed : DEFAULT_ANALYSIS_SETTINGS;
+  } catch {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist analysis settings:", err);
+  }
+};
+
+export const createProvider = (id: AnalysisProviderId, settings: AnalysisSettings): AnalysisProvider => {
+  switch (id) {
+    case 'gemini':
+      return new GeminiProvider(settings.geminiModel || DEFAULT_GEMINI_MODEL);
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        endpoint: settings.localEndpoint,
+        model: settings.localModel,
+        apiKey: settings.localApiKey || undefined
+      });
+    case 'offline':
+      return new OfflineNarratorProvider();
+  }
+};
+
+export interface AnalysisResult {
+  text: string;
+  // Which provider actually answered
+  providerId: AnalysisProviderId;
+  // Providers passed over on the way, and why (e.g. no API key)
+  skipped: { providerId: AnalysisProviderId; reason: string }[];
+}
+
+// Ask the selected provider, falling back down the chain when it fails. A provider that has
+// already streamed text or run a tool is not retried elsewhere: that would repeat its actions.
+export const runAnalysis = async (
+  settings: AnalysisSettings,
+  request: AnalysisRequest,
+  options: StreamOptions
+): Promise<AnalysisResult> => {
+  const chain = settings.fallback
+    ? [settings.provider, ...FALLBACK_ORDER.filter(id => id !== settings.provider)]
+    : [settings.provider];
+  const skipped: AnalysisResult['skipped'] = [];
+
+  for (const providerId of chain) {
+    let committed = false;
+    let partial = '';
+    try {
+      const text = await createProvider(providerId, settings).stream(request, {
+        ...options,
+        onText: text => {
+          committed = true;
+          partial = text;
+          options.onText?.(text);
+        },
+        onToolCall: options.onToolCall && (call => {
+          committed = true;
+          return options.onToolCall!(call);
+        })
+      });
+      return { text, providerId, skipped };
+    } catch (error) {
+      if (committed || options.signal?.aborted) return { text: partial, providerId, skipped };
+      // Unconfigured (no API key) or failed outright (HTTP error, unreachable, bad response)
+      skipped.push({ providerId, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { text: "ANALYSIS FAILED: Cosmic interference detected.", providerId: settings.provider, skipped };
+};
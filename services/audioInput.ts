@@ -0,0 +1,135 @@
+import { InputEmitter, InputProvider } from './inputManager';
+
+// Audio-reactive input: the microphone drives the galaxy. Loudness stirs up entropy; the
+// balance between low and high frequencies sets the gravity well (bass pulls it in deep).
+// The analysis works on an AnalyserNode from any BaseAudioContext, so it can be fed a
+// rendered buffer instead of a live microphone.
+
+export interface AudioFeatures {
+  // RMS level of the waveform, 0..1
+  loudness: number;
+  // Mean magnitude of each band, 0..1
+  bass: number;
+  treble: number;
+}
+
+const BASS_HZ: [number, number] = [20, 250];
+const TREBLE_HZ: [number, number] = [2000, 8000];
+// RMS that counts as full-scale loudness (speech near the mic is around 0.1)
+const LOUDNESS_FULL_SCALE = 0.25;
+// Below this loudness the mic is considered silent and lets other inputs take over
+const SILENCE = 0.02;
+const POLL_MS = 50;
+
+const bandLevel = (frequencyData: Uint8Array, binHz: number, [low, high]: [number, number]) => {
+  const from = Math.max(0, Math.floor(low / binHz));
+  const to = Math.min(frequencyData.length, Math.ceil(high / binHz));
+  if (to <= from) return 0;
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += frequencyData[i];
+  return sum / (to - from) / 255;
+};
+
+export const analyzeAudio = (timeData: Float32Array, frequencyData: Uint8Array, sampleRate: number): AudioFeatures => {
+  let sumSquares = 0;
+  for (let i = 0; i < timeData.length; i++) sumSquares += timeData[i] * timeData[i];
+  const rms = timeData.length ? Math.sqrt(sumSquares / timeData.length) : 0;
+  // Bins cover 0..Nyquist
+  const binHz = sampleRate / 2 / frequencyData.length;
+  return {
+    loudness: Math.min(rms / LOUDNESS_FULL_SCALE, 1),
+    bass: bandLevel(frequencyData, binHz, BASS_HZ),
+    treble: bandLevel(frequencyData, binHz, TREBLE_HZ)
+  };
+};
+
+// Features -> params: quiet sound is calm, loud is chaotic; bass-heavy sound is a deep well
+export const featuresToParams = ({ loudness, bass, treble }: AudioFeatures) => ({
+  chaos: loudness,
+  scale: 0.2 + 0.8 * (bass / (bass + treble + 1e-6))
+});
+
+export interface AudioAnalysis {
+  analyser: AnalyserNode;
+  read(): AudioFeatures;
+}
+
+export const createAudioAnalysis = (ctx: BaseAudioContext, source: AudioNode): AudioAnalysis => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.6;
+  source.connect(analyser);
+  const timeData = new Float32Array(analyser.fftSize);
+  const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  return {
+    analyser,
+    read: () => {
+      analyser.getFloatTimeDomainData(timeData);
+      analyser.getByteFrequencyData(frequencyData);
+      return analyzeAudio(timeData, frequencyData, ctx.sampleRate);
+    }
+  };
+};
+
+// Off by default in the input list: enabling it asks for the microphone
+export class AudioInputProvider implements InputProvider {
+  id = 'audio';
+  label = 'Microphone (audio-reactive)';
+  private features: AudioFeatures | null = null;
+
+  // Latest analysis, for meters; null while the mic is off
+  getFeatures(): AudioFeatures | null {
+    return this.features;
+  }
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    if (!navigator.mediaDevices?.getUserMedia || typeof AudioContext === 'undefined') {
+      setAvailable(false);
+      return;
+    }
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let timer = 0;
+    let wasLoud = false;
+    // Chaos rises with a sound quickly and decays slowly, so it doesn't flicker between words
+    let chaos = 0;
+
+    // The sonification can feed back into the mic; echo cancellation keeps that in check
+    navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: false } })
+      .then(media => {
+        stream = media;
+        if (stopped) return;
+        ctx = new AudioContext();
+        const analysis = createAudioAnalysis(ctx, ctx.createMediaStreamSource(media));
+        setAvailable(true);
+        timer = window.setInterval(() => {
+          const features = analysis.read();
+          this.features = features;
+          const loud = features.loudness >= SILENCE;
+          if (!loud) {
+            if (wasLoud) emit({ active: false });
+            wasLoud = false;
+            return;
+          }
+          wasLoud = true;
+          const target = featuresToParams(features);
+          chaos = target.chaos > chaos ? target.chaos : chaos * 0.9 + target.chaos * 0.1;
+          emit({ chaos, scale: target.scale, active: true });
+        }, POLL_MS);
+      })
+      .catch(err => {
+        console.warn("Microphone unavailable for audio input:", err);
+        setAvailable(false);
+      });
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+      ctx?.close();
+      this.features = null;
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import { DEFAULT_PARAMS } from './paramSchema';
+import { DEFAULT_CAMERA } from '../simulation/camera';
+import { groupSessions, LOG_FORMAT, LOG_VERSION, LogEntry, parseLog, searchLog, toJson } from './captainsLog';
+
+const entry = (sessionId: string, role: 'user' | 'model', text: string, timestamp: number, state = SimulationState.STABLE): LogEntry => ({
+  key: `${sessionId}:${role}:${timestamp}`,
+  sessionId,
+  sessionStartedAt: sessionId === 'a' ? 100 : 200,
+  message: { role, text, timestamp },
+  params: { ...DEFAULT_PARAMS, chaos: 0.3, scale: 0.6 },
+  state
+});
+
+const ENTRIES = [
+  entry('a', 'model', 'The spiral arms are tightening.', 110),
+  entry('a', 'user', 'What is happening?', 110),
+  entry('b', 'user', 'Make it explode', 210, SimulationState.UNSTABLE),
+  entry('b', 'model', 'Supernova imminent.', 220, SimulationState.SUPERNOVA)
+];
+
+const log = (entries: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: LOG_FORMAT, version: LOG_VERSION, exportedAt: 0, entries, ...extra });
+
+describe('parseLog', () => {
+  it('reads back an exported log', () => {
+    expect(parseLog(toJson(ENTRIES))).toEqual(ENTRIES.map(e => ({ ...e, camera: undefined })));
+  });
+
+  it('rejects other files, newer versions and empty logs', () => {
+    expect(() => parseLog('not json')).toThrow(/Not a Nebula/);
+    expect(() => parseLog(JSON.stringify({ format: 'nebula-session' }))).toThrow(/Not a Nebula/);
+    expect(() => parseLog(log(ENTRIES, { version: LOG_VERSION + 1 }))).toThrow(/newer/);
+    expect(() => parseLog(log([]))).toThrow(/no entries/);
+    expect(() => parseLog(log([{ key: 'x' }]))).toThrow(/no valid entries/);
+  });
+
+  it('drops malformed entries and fills in what older logs lack', () => {
+    const { sessionStartedAt, ...old } = ENTRIES[0];
+    const entries = parseLog(log([
+      { ...old, params: { chaos: 0.3, scale: 0.6 }, camera: { mode: '3d', inclination: 500 } },
+      { ...ENTRIES[1], state: 'EXPLODED' },
+      { ...ENTRIES[2], message: { role: 'system', text: 'x', timestamp: 1 } },
+      { ...ENTRIES[3], params: { chaos: '0.3', scale: 0.6 } }
+    ]));
+    expect(entries).toHaveLength(1);
+    expect(entries[0].sessionStartedAt).toBe(ENTRIES[0].message.timestamp);
+    expect(entries[0].params).toEqual({ ...DEFAULT_PARAMS, chaos: 0.3, scale: 0.6 });
+    expect(entries[0].camera).toEqual({ ...DEFAULT_CAMERA, mode: '3d', inclination: 89 });
+  });
+});
+
+describe('searchLog', () => {
+  it('needs every word in the message or its state', () => {
+    expect(searchLog(ENTRIES, 'spiral arms').map(e => e.key)).toEqual([ENTRIES[0].key]);
+    expect(searchLog(ENTRIES, 'SUPERNOVA').map(e => e.key)).toEqual([ENTRIES[3].key]);
+    expect(searchLog(ENTRIES, 'unstable explode').map(e => e.key)).toEqual([ENTRIES[2].key]);
+    expect(searchLog(ENTRIES, 'spiral explode')).toEqual([]);
+    expect(searchLog(ENTRIES, '  ')).toBe(ENTRIES);
+  });
+});
+
+describe('groupSessions', () => {
+  it('puts the newest session first and each question before its answer', () => {
+    const sessions = groupSessions(ENTRIES);
+    expect(sessions.map(s => s.id)).toEqual(['b', 'a']);
+    expect(sessions[1].entries.map(e => e.message.role)).toEqual(['user', 'model']);
+  });
+});
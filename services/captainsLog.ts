@@ -0,0 +1,211 @@
+import { ChatMessage, SimulationState } from '../types';
+import { CameraPose, normalizeCamera } from '../simulation/camera';
+import { DEFAULT_PARAMS } from './paramSchema';
+import { PresetParams } from './presets';
+import { downloadBlob, fileTimestamp } from './download';
+
+// Captain's log: every chat message, with the galaxy as it was when it was written, kept in
+// IndexedDB across reloads. Each page load is one session.
+
+const DB_NAME = 'nebula.log';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+export const LOG_FORMAT = 'nebula-log';
+export const LOG_VERSION = 1;
+
+export interface LogEntry {
+  // `${sessionId}:${role}:${timestamp}`; writing the same message again replaces it
+  key: string;
+  sessionId: string;
+  // When the session began, for grouping and headings
+  sessionStartedAt: number;
+  message: ChatMessage;
+  params: PresetParams;
+  state: SimulationState;
+  camera?: CameraPose;
+}
+
+export interface LogSession {
+  id: string;
+  startedAt: number;
+  // Oldest first
+  entries: LogEntry[];
+}
+
+export const entryKey = (sessionId: string, message: ChatMessage) => `${sessionId}:${message.role}:${message.timestamp}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) &&
+  (value.role === 'user' || value.role === 'model') &&
+  typeof value.text === 'string' &&
+  typeof value.timestamp === 'number';
+
+const isLogEntry = (value: unknown): value is LogEntry =>
+  isRecord(value) &&
+  typeof value.key === 'string' &&
+  typeof value.sessionId === 'string' &&
+  isChatMessage(value.message) &&
+  isRecord(value.params) &&
+  typeof value.params.chaos === 'number' &&
+  typeof value.params.scale === 'number' &&
+  Object.values<unknown>(SimulationState).includes(value.state) &&
+  (value.camera === undefined || isRecord(value.camera));
+
+const byTime = (a: LogEntry, b: LogEntry) =>
+  a.message.timestamp - b.message.timestamp || (a.message.role === 'user' ? -1 : 1) - (b.message.role === 'user' ? -1 : 1);
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+export class CaptainsLog {
+  readonly sessionId: string;
+  readonly sessionStartedAt = Date.now();
+  private db: Promise<IDBDatabase>;
+  private listeners = new Set<() => void>();
+
+  constructor() {
+    this.sessionId = `${this.sessionStartedAt.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    this.db = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available."));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const store = open.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('sessionId', 'sessionId');
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+    // Private browsing can refuse storage; the app carries on without a log
+    this.db.catch(err => console.warn("Captain's log unavailable:", err));
+  }
+
+  // Called after anything is written
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  entry(message: ChatMessage, params: PresetParams, state: SimulationState, camera?: CameraPose): LogEntry {
+    return {
+      key: entryKey(this.sessionId, message),
+      sessionId: this.sessionId,
+      sessionStartedAt: this.sessionStartedAt,
+      message,
+      params,
+      state,
+      camera
+    };
+  }
+
+  // Rejects if the database is unavailable or the write fails
+  async put(entries: LogEntry[]) {
+    if (entries.length === 0) return;
+    const db = await this.db;
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(entry => store.put(entry));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Everything in the log, oldest first
+  async getAll(): Promise<LogEntry[]> {
+    const db = await this.db;
+    const entries = await request(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<LogEntry[]>);
+    return entries.sort(byTime);
+  }
+}
+
+// Newest session first
+export const groupSessions = (entries: LogEntry[]): LogSession[] => {
+  const sessions = new Map<string, LogSession>();
+  entries.forEach(entry => {
+    let session = sessions.get(entry.sessionId);
+    if (!session) {
+      session = { id: entry.sessionId, startedAt: entry.sessionStartedAt, entries: [] };
+      sessions.set(entry.sessionId, session);
+    }
+    session.entries.push(entry);
+  });
+  sessions.forEach(session => session.entries.sort(byTime));
+  return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// Every word of the query has to appear in the message or the state it was written in
+export const searchLog = (entries: LogEntry[], query: string): LogEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(entry => {
+    const haystack = `${entry.message.text} ${entry.state}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+export const toMarkdown = (entries: LogEntry[]): string => {
+  const lines = ["# Captain's log", ''];
+  groupSessions(entries).forEach(session => {
+    lines.push(`## Session of ${formatTime(session.startedAt)}`, '');
+    session.entries.forEach(({ message, params, state }) => {
+      const who = message.role === 'user' ? 'Captain' : 'Observer';
+      const time = new Date(message.timestamp).toLocaleTimeString();
+      lines.push(`**${who}** · ${time} · ${state} · chaos ${params.chaos.toFixed(2)} · scale ${params.scale.toFixed(2)}`, '');
+      lines.push(message.cancelled && !message.text ? '_(cancelled)_' : message.text.split('\n').map(line => `> ${line}`).join('\n'), '');
+    });
+  });
+  return lines.join('\n');
+};
+
+export const toJson = (entries: LogEntry[]): string =>
+  JSON.stringify({ format: LOG_FORMAT, version: LOG_VERSION, exportedAt: Date.now(), entries }, null, 2);
+
+export const parseLog = (json: string): LogEntry[] => {
+  let data;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Not a Nebula captain's log.");
+  }
+  if (data?.format !== LOG_FORMAT) {
+    throw new Error("Not a Nebula captain's log.");
+  }
+  if (data.version > LOG_VERSION) {
+    throw new Error(`Log version ${data.version} is newer than this app supports (${LOG_VERSION}).`);
+  }
+  if (!Array.isArray(data.entries) || data.entries.length === 0) {
+    throw new Error("Log has no entries.");
+  }
+  const entries = data.entries.filter(isLogEntry);
+  if (entries.length === 0) {
+    throw new Error("Log contains no valid entries.");
+  }
+  // Entries from before a param existed get its default
+  return entries.map((entry: LogEntry) => ({
+    ...entry,
+    sessionStartedAt: typeof entry.sessionStartedAt === 'number' ? entry.sessionStartedAt : entry.message.timestamp,
+    params: { ...DEFAULT_PARAMS, ...entry.params },
+    camera: entry.camera ? normalizeCamera(entry.camera) : undefined
+  }));
+};
+
+export const downloadLog = (entries: LogEntry[], format: 'md' | 'json') => {
+  const blob = format === 'md'
+    ? new Blob([toMarkdown(entries)], { type: 'text/markdown' })
+    : new Blob([toJson(entries)], { type: 'application/json' });
+  downloadBlob(blob, `nebula-log-${fileTimestamp()}.${format}`);
+};
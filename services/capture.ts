@@ -0,0 +1,161 @@
+import { SimulationParams, SimulationState } from '../types';
+import { CameraPose } from '../simulation/camera';
+import { PhysicsSettings } from '../simulation/galaxySimulation';
+import { Morphology } from '../simulation/morphology';
+import { formatParam, PARAM_SCHEMA, toFraction } from './paramSchema';
+
+// Everything needed to reproduce a captured frame
+export interface CaptureMetadata {
+  app: 'nebula-control';
+  version: 1;
+  capturedAt: string;
+  params: SimulationParams;
+  state: SimulationState;
+  seed: number;
+  physics: PhysicsSettings;
+  // Missing on captures from before galaxy types existed (they are all discs)
+  morphology?: Morphology;
+  // Missing on captures from before the 3D view existed (they are all face-on)
+  camera?: CameraPose;
+}
+
+export const METADATA_KEYWORD = 'nebula:metadata';
+
+export type SnapshotResult = 'ok' | 'unavailable' | 'failed';
+
+// --- PNG tEXt chunk ---------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// tEXt is Latin-1 only, so non-ASCII characters are escaped to keep the JSON intact
+const toLatin1 = (text: string) => text.replace(/[^\x00-\x7f]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+// Returns a copy of `png` with a tEXt chunk inserted right after IHDR
+export const addPngTextChunk = (png: Uint8Array, keyword: string, text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(`${keyword}\0${toLatin1(text)}`);
+
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode('tEXt'), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 crc)
+  const insertAt = 8 + 25;
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, insertAt), 0);
+  result.set(chunk, insertAt);
+  result.set(png.subarray(insertAt), insertAt + chunk.length);
+  return result;
+};
+
+// --- Snapshot -----------------------------------------------------------------
+
+export interface HudOverlay {
+  params: SimulationParams;
+  state: SimulationState;
+}
+
+// Draw a compact version of the HUD meters onto the frame
+const drawHud = (ctx: CanvasRenderingContext2D, height: number, hud: HudOverlay) => {
+  const x = 40;
+  let y = height - 60 - 45 * PARAM_SCHEMA.filter(spec => spec.hud).length;
+  ctx.font = '14px monospace';
+  ctx.textBaseline = 'top';
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.fillText(`STATE: ${hud.state}`, x, y);
+  y += 30;
+
+  PARAM_SCHEMA.filter(spec => spec.hud).forEach(({ key, label, color }) => {
+    const value = hud.params[key];
+    ctx.fillStyle = color;
+    ctx.fillText(`${label} ${formatParam(key, value)}`, x, y);
+    ctx.fillStyle = 'rgba(55, 65, 81, 1)';
+    ctx.fillRect(x, y + 20, 256, 8);
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y + 20, 256 * toFraction(key, value), 8);
+    y += 45;
+  });
+};
+
+// Take the engine's frame, optionally stamp the HUD on it, and embed the metadata
+export const composeSnapshot = async (frame: Blob, metadata: CaptureMetadata, hud: HudOverlay | null): Promise<Blob> => {
+  let png = frame;
+
+  if (hud) {
+    const bitmap = await createImageBitmap(frame);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(bitmap, 0, 0);
+      drawHud(ctx, canvas.height, hud);
+      png = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode snapshot."))), 'image/png');
+      });
+    }
+    bitmap.close();
+  }
+
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const tagged = addPngTextChunk(bytes, METADATA_KEYWORD, JSON.stringify(metadata));
+  return new Blob([tagged], { type: 'image/png' });
+};
+
+// --- Video --------------------------------------------------------------------
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const isVideoCaptureSupported = () =>
+  typeof MediaRecorder !== 'undefined' && VIDEO_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+// Records `stream` to WebM. Resolves when the duration elapses or `signal` aborts early.
+// The framerate is chosen by whoever created the stream (canvas.captureStream(fps)).
+export const recordVideo = (stream: MediaStream, durationMs: number, signal?: AbortSignal): Promise<Blob> => {
+  const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => recorder.stop(), durationMs);
+    const stopEarly = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    signal?.addEventListener('abort', stopEarly);
+
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      window.clearTimeout(timer);
+      signal?.removeEventListener('abort', stopEarly);
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: mimeType || 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      window.clearTimeout(timer);
+      stream.getTracks().forEach(track => track.stop());
+      reject(new Error("Video recording failed."));
+    };
+
+    recorder.start(1000);
+  });
+};
@@ -0,0 +1,13 @@
+// Trigger a browser download for an in-memory blob
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Filesystem-safe timestamp, e.g. 2024-05-01T12-30-00-000Z
+export const fileTimestamp = (time: number = Date.now()) => new Date(time).toISOString().replace(/[:.]/g, '-');
@@ -1,39 +1,87 @@
-import { GoogleGenAI } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const generateCosmicAnalysis = async (chaos: number, scale: number, userQuery?: string): Promise<string> => {
-  try {
-    const chaosPct = Math.round(chaos * 100);
-    const scalePct = Math.round(scale * 100);
-
-    const contextInstruction = userQuery 
-      ? `The user (Starship Captain) asks: "${userQuery}". Answer their specific question based on the telemetry.` 
-      : `Describe the visual and physical state of this galaxy in 2 sentences.`;
-
-    const prompt = `
-      You are a cosmic observer AI monitoring a galaxy simulation.
-      The current simulation parameters are:
-      - Entropy/Chaos Level: ${chaosPct}% (0% is ordered, 100% is total molecular scattering)
-      - Gravitational Scale: ${scalePct}% (0% is a dense singularity, 100% is a massive expanded nebula)
-
-      ${contextInstruction}
-      
-      Use scientific yet poetic language suitable for a sci-fi interface. 
-      Do not mention "percentages" explicitly, describe the effects.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        thinkingConfig: { thinkingBudget: 0 } // Fast response needed
+import { Content, FunctionCall, GoogleGenAI, Part } from "@google/genai";
+import {
+  AnalysisProvider,
+  AnalysisRequest,
+  buildTurns,
+  MAX_TOOL_ROUNDS,
+  ProviderUnavailableError,
+  StreamOptions,
+  SYSTEM_INSTRUCTION,
+  TOOL_INSTRUCTION
+} from "./analysisProvider";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// The client is created on first use, so a missing key only affects this provider
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!process.env.API_KEY) throw new ProviderUnavailableError("No Gemini API key configured.");
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export class GeminiProvider implements AnalysisProvider {
+  id = 'gemini' as const;
+  label = 'Gemini';
+
+  constructor(private model: string = DEFAULT_GEMINI_MODEL) {}
+
+  // Tool calls are run through `onToolCall` and their results fed back until the model is done
+  async stream(request: AnalysisRequest, { onText, signal, tools, onToolCall }: StreamOptions): Promise<string> {
+    const ai = getClient();
+    const contents: Content[] = buildTurns(request).map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const useTools = !!tools?.length && !!onToolCall;
+
+    let text = '';
+    let usedTools = false;
+    try {
+      for (let round = 0; round <= MAX_TOOL_ROUNDS && !signal?.aborted; round++) {
+        const stream = await ai.models.generateContentStream({
+          model: this.model,
+          contents,
+          config: {
+            systemInstruction: useTools ? SYSTEM_INSTRUCTION + TOOL_INSTRUCTION : SYSTEM_INSTRUCTION,
+            thinkingConfig: { thinkingBudget: 0 }, // Fast response needed
+            // Last round is text only, so a model that keeps calling tools still has to answer
+            tools: useTools && round < MAX_TOOL_ROUNDS ? [{ functionDeclarations: tools }] : undefined,
+            abortSignal: signal
+          }
+        });
+
+        const modelParts: Part[] = [];
+        const calls: FunctionCall[] = [];
+        // Keep text from separate rounds from running together
+        let separator = text ? ' ' : '';
+        for await (const chunk of stream) {
+          if (signal?.aborted) break;
+          modelParts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+          calls.push(...(chunk.functionCalls ?? []));
+          if (!chunk.text) continue;
+          text += separator + chunk.text;
+          separator = '';
+          onText?.(text);
+        }
+
+        if (calls.length === 0 || signal?.aborted || !onToolCall) break;
+        usedTools = true;
+        contents.push({ role: 'model', parts: modelParts });
+        contents.push({
+          role: 'user',
+          parts: calls.map(call => ({
+            functionResponse: {
+              id: call.id,
+              name: call.name,
+              response: onToolCall({ id: call.id, name: call.name ?? '', args: call.args ?? {} })
+            }
+          }))
+        });
       }
-    });
+    } catch (error) {
+      if (signal?.aborted) return text;
+      throw error;
+    }
 
-    return response.text || "Connection to Deep Space Network lost...";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "ANALYSIS FAILED: Cosmic interference detected.";
+    if (!text && !usedTools && !signal?.aborted) throw new Error("Connection to Deep Space Network lost...");
+    return text;
   }
-};
\ No newline at end of file
+}
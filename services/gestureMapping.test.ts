@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GESTURE_MAPPING, describeMapping, normalizeGestureMapping } from './gestureMapping';
+
+describe('normalizeGestureMapping', () => {
+  it('falls back to the defaults for anything that is not a mapping', () => {
+    expect(normalizeGestureMapping(null)).toEqual(DEFAULT_GESTURE_MAPPING);
+    expect(normalizeGestureMapping('spread')).toEqual(DEFAULT_GESTURE_MAPPING);
+  });
+
+  it('keeps valid bindings and replaces invalid ones per gesture', () => {
+    const mapping = normalizeGestureMapping({
+      continuous: { leftPinch: 'hueShift', rightPinch: 'warpDrive', rightRoll: 'none' },
+      discrete: {
+        fist: { action: 'toggleFreeze', debounceMs: 500 },
+        spread: null,
+        squeeze: { action: 'selfDestruct', debounceMs: 500 },
+        point: { action: 'takeSnapshot', debounceMs: -1 },
+        swipeLeft: { action: 'reset', debounceMs: Infinity }
+      }
+    });
+    expect(mapping.continuous.leftPinch).toBe('hueShift');
+    expect(mapping.continuous.rightPinch).toBe(DEFAULT_GESTURE_MAPPING.continuous.rightPinch);
+    expect(mapping.continuous.rightRoll).toBe('none');
+    expect(mapping.discrete.fist).toEqual({ action: 'toggleFreeze', debounceMs: 500 });
+    expect(mapping.discrete.spread).toEqual(DEFAULT_GESTURE_MAPPING.discrete.spread);
+    expect(mapping.discrete.squeeze).toEqual(DEFAULT_GESTURE_MAPPING.discrete.squeeze);
+    expect(mapping.discrete.point).toEqual(DEFAULT_GESTURE_MAPPING.discrete.point);
+    expect(mapping.discrete.swipeLeft).toEqual(DEFAULT_GESTURE_MAPPING.discrete.swipeLeft);
+  });
+
+  it('gives a mapping describeMapping can read', () => {
+    const mapping = normalizeGestureMapping({ discrete: { openPalm: { action: 'toString', debounceMs: 0 } } });
+    expect(() => describeMapping(mapping)).not.toThrow();
+    expect(mapping.discrete.openPalm).toEqual(DEFAULT_GESTURE_MAPPING.discrete.openPalm);
+  });
+});
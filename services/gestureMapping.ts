@@ -0,0 +1,154 @@
+import { ContinuousGesture, DiscreteGesture } from './gestureRecognizer';
+import { isParamKey, PARAM_SCHEMA, ParamKey } from './paramSchema';
+
+const STORAGE_KEY = 'nebula.gestures.v1';
+
+// The 3D camera's orbit, driven directly rather than through the simulation params
+export type CameraTarget = 'cameraAzimuth' | 'cameraInclination';
+
+export const CAMERA_TARGETS: CameraTarget[] = ['cameraAzimuth', 'cameraInclination'];
+
+export const isCameraTarget = (target: unknown): target is CameraTarget =>
+  CAMERA_TARGETS.includes(target as CameraTarget);
+
+// Any simulation param, the camera, or nothing
+export type ContinuousTarget = ParamKey | CameraTarget | 'none';
+
+export type GestureAction =
+  | 'none'
+  | 'triggerSupernova'
+  | 'triggerCollapse'
+  | 'cyclePreset'
+  | 'toggleRecording'
+  | 'takeSnapshot'
+  | 'toggleFreeze'
+  | 'reset';
+
+export interface DiscreteBinding {
+  action: GestureAction;
+  // Minimum time between two firings of this gesture
+  debounceMs: number;
+}
+
+export interface GestureMapping {
+  continuous: Record<ContinuousGesture, ContinuousTarget>;
+  discrete: Record<DiscreteGesture, DiscreteBinding>;
+}
+
+export const CONTINUOUS_LABELS: Record<ContinuousGesture, string> = {
+  leftPinch: 'Pinch LEFT hand',
+  rightPinch: 'Pinch RIGHT hand',
+  leftRoll: 'Roll LEFT wrist',
+  rightRoll: 'Roll RIGHT wrist',
+  leftTilt: 'Tilt LEFT hand',
+  rightTilt: 'Tilt RIGHT hand',
+  handSpread: 'Hands apart'
+};
+
+export const DISCRETE_LABELS: Record<DiscreteGesture, string> = {
+  fist: 'Fist',
+  openPalm: 'Open palm',
+  point: 'Point',
+  swipeLeft: 'Swipe left',
+  swipeRight: 'Swipe right',
+  spread: 'Spread both hands',
+  squeeze: 'Squeeze both hands'
+};
+
+export const TARGET_LABELS = {
+  ...Object.fromEntries(PARAM_SCHEMA.map(spec => [spec.key, spec.name])),
+  cameraAzimuth: 'Camera orbit (3D)',
+  cameraInclination: 'Camera tilt (3D)',
+  none: '-'
+} as Record<ContinuousTarget, string>;
+
+export const ACTION_LABELS: Record<GestureAction, string> = {
+  none: '-',
+  triggerSupernova: 'Trigger supernova',
+  triggerCollapse: 'Trigger collapse',
+  cyclePreset: 'Next preset',
+  toggleRecording: 'Start/stop recording',
+  takeSnapshot: 'Snapshot',
+  toggleFreeze: 'Freeze/resume',
+  reset: 'Reset'
+};
+
+// Matches the original fixed mapping, plus a few discrete actions on deliberate motions and
+// the right hand steering the camera (only in 3D view)
+export const DEFAULT_GESTURE_MAPPING: GestureMapping = {
+  continuous: {
+    leftPinch: 'chaos',
+    rightPinch: 'scale',
+    leftRoll: 'none',
+    rightRoll: 'cameraAzimuth',
+    leftTilt: 'none',
+    rightTilt: 'cameraInclination',
+    handSpread: 'none'
+  },
+  discrete: {
+    fist: { action: 'none', debounceMs: 1000 },
+    openPalm: { action: 'none', debounceMs: 1000 },
+    point: { action: 'none', debounceMs: 1000 },
+    swipeLeft: { action: 'none', debounceMs: 800 },
+    swipeRight: { action: 'cyclePreset', debounceMs: 800 },
+    spread: { action: 'triggerSupernova', debounceMs: 3000 },
+    squeeze: { action: 'triggerCollapse', debounceMs: 3000 }
+  }
+};
+
+const isContinuousTarget = (target: unknown): target is ContinuousTarget =>
+  target === 'none' || isParamKey(target) || isCameraTarget(target);
+
+const isGestureAction = (action: unknown): action is GestureAction =>
+  typeof action === 'string' && Object.prototype.hasOwnProperty.call(ACTION_LABELS, action);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Checked per gesture: anything missing or invalid (e.g. saved before a gesture existed, or
+// naming an action that no longer does) falls back to that gesture's default
+export const normalizeGestureMapping = (value: unknown): GestureMapping => {
+  const parsed = isRecord(value) ? value : {};
+  const continuousIn = isRecord(parsed.continuous) ? parsed.continuous : {};
+  const discreteIn = isRecord(parsed.discrete) ? parsed.discrete : {};
+  const continuous = { ...DEFAULT_GESTURE_MAPPING.continuous };
+  (Object.keys(continuous) as ContinuousGesture[]).forEach(gesture => {
+    const target = continuousIn[gesture];
+    if (isContinuousTarget(target)) continuous[gesture] = target;
+  });
+  const discrete = { ...DEFAULT_GESTURE_MAPPING.discrete };
+  (Object.keys(discrete) as DiscreteGesture[]).forEach(gesture => {
+    const binding = discreteIn[gesture];
+    if (isRecord(binding) && isGestureAction(binding.action) && typeof binding.debounceMs === 'number' && Number.isFinite(binding.debounceMs) && binding.debounceMs >= 0) {
+      discrete[gesture] = { action: binding.action, debounceMs: binding.debounceMs };
+    }
+  });
+  return { continuous, discrete };
+};
+
+export const loadGestureMapping = (): GestureMapping => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_GESTURE_MAPPING;
+    return normalizeGestureMapping(JSON.parse(raw));
+  } catch {
+    return DEFAULT_GESTURE_MAPPING;
+  }
+};
+
+export const saveGestureMapping = (mapping: GestureMapping) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+  } catch (err) {
+    console.warn("Could not persist gesture mapping:", err);
+  }
+};
+
+// One line per bound gesture, e.g. "Pinch LEFT hand: Chaos"
+export const describeMapping = (mapping: GestureMapping): string[] => [
+  ...(Object.keys(mapping.continuous) as ContinuousGesture[])
+    .filter(gesture => mapping.continuous[gesture] !== 'none')
+    .map(gesture => `${CONTINUOUS_LABELS[gesture]}: ${TARGET_LABELS[mapping.continuous[gesture]]}`),
+  ...(Object.keys(mapping.discrete) as DiscreteGesture[])
+    .filter(gesture => mapping.discrete[gesture].action !== 'none')
+    .map(gesture => `${DISCRETE_LABELS[gesture]}: ${ACTION_LABELS[mapping.discrete[gesture].action]}`)
+];
@@ -0,0 +1,165 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { CalibrationProfile, SimulationParams } from '../types';
+import { applyDeadZone, HoldDecay, OneEuroFilter } from './signalFilter';
+import { ContinuousGesture, ContinuousSignals, DiscreteGesture, GestureRecognizer } from './gestureRecognizer';
+import { CAMERA_TARGETS, CameraTarget, DEFAULT_GESTURE_MAPPING, GestureAction, GestureMapping } from './gestureMapping';
+import { DEFAULT_PARAMS, fromFraction, PARAM_KEYS, ParamKey, toFraction } from './paramSchema';
+
+const DEAD_ZONE = 0.05;
+
+// One parameter driven by one hand
+class Channel {
+  private filter = new OneEuroFilter(1.2, 0.05);
+  private hold: HoldDecay;
+
+  constructor(rest: number) {
+    this.hold = new HoldDecay(rest);
+  }
+
+  seen(raw: number, timestampMs: number): number {
+    const filtered = this.filter.filter(applyDeadZone(raw, DEAD_ZONE), timestampMs);
+    return this.hold.track(filtered);
+  }
+
+  missing(timestampMs: number): number | null {
+    const value = this.hold.lost(timestampMs);
+    // Start from a clean slate when the hand comes back, instead of easing in from a stale value
+    if (value === null) this.filter.reset();
+    return value;
+  }
+}
+
+// Mean handedness score of the detected hands (0 when there are none)
+export const handConfidence = (result: HandLandmarkerResult): number => {
+  const scores = result.handednesses.map(categories => categories[0]?.score ?? 0);
+  return scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+};
+
+// What drove one parameter on the last frame, for diagnostics
+export interface ChannelReading {
+  // The bound gesture that was visible, if any
+  source: ContinuousGesture | null;
+  raw: number | null;
+  filtered: number | null;
+}
+
+// Only params with at least one bound gesture have a reading
+export type PipelineReadings = Partial<Record<ParamKey, ChannelReading>>;
+
+// Camera orbit from the hands, as 0..1 fractions of each range. Only targets whose gesture
+// is visible this frame are present: the camera stays wherever the hand left it.
+export type CameraInput = Partial<Record<CameraTarget, number>>;
+
+// Where a param settles (as a fraction of its range) once the hand is gone. Entropy calms
+// down to nothing; everything else returns to its default.
+const restFraction = (param: ParamKey) => (param === 'chaos' ? 0 : toFraction(param, DEFAULT_PARAMS[param]));
+
+// Turns raw HandLandmarker results into filtered simulation params, following the gesture
+// mapping (by default left hand pinch drives chaos, right hand pinch drives scale).
+// Discrete gestures bound to an action are reported through `onGesture`, debounced per gesture.
+export class GesturePipeline {
+  // Channels work in 0..1 fractions of each param's range; created the first time a param is bound
+  private channels = new Map<ParamKey, Channel>();
+  private recognizer: GestureRecognizer;
+  private lastFired = new Map<DiscreteGesture, number>();
+  private readings: PipelineReadings = {};
+  private cameraFilters = new Map<CameraTarget, OneEuroFilter>();
+  private camera: CameraInput = {};
+
+  constructor(
+    profile: CalibrationProfile,
+    private mapping: GestureMapping = DEFAULT_GESTURE_MAPPING,
+    private onGesture?: (gesture: DiscreteGesture, action: GestureAction) => void
+  ) {
+    this.recognizer = new GestureRecognizer(profile);
+  }
+
+  setProfile(profile: CalibrationProfile) {
+    this.recognizer.setProfile(profile);
+  }
+
+  setMapping(mapping: GestureMapping) {
+    this.mapping = mapping;
+  }
+
+  setSwapHandedness(swap: boolean) {
+    this.recognizer.setSwapHandedness(swap);
+  }
+
+  getReadings(): PipelineReadings {
+    return this.readings;
+  }
+
+  // Camera input from the last processed frame
+  getCamera(): CameraInput {
+    return this.camera;
+  }
+
+  process(result: HandLandmarkerResult, timestampMs: number): Partial<SimulationParams> {
+    const { signals, gestures } = this.recognizer.update(result, timestampMs);
+
+    const output: Partial<SimulationParams> = {};
+    const readings: PipelineReadings = {};
+    let active = false;
+    this.boundParams().forEach(param => {
+      const channel = this.channelFor(param);
+      const source = this.sourceFor(param, signals);
+      const raw = source ? signals[source] ?? null : null;
+      const filtered = raw !== null ? channel.seen(raw, timestampMs) : channel.missing(timestampMs);
+      readings[param] = { source, raw, filtered };
+      output[param] = fromFraction(param, filtered ?? restFraction(param));
+      if (filtered !== null) active = true;
+    });
+    this.readings = readings;
+    this.camera = this.processCamera(signals, timestampMs);
+
+    gestures.forEach(gesture => this.fire(gesture, timestampMs));
+
+    // Held/decaying values keep the hand source in control until they settle back to rest
+    return { ...output, active };
+  }
+
+  private boundParams(): ParamKey[] {
+    const targets = new Set(Object.values(this.mapping.continuous));
+    return PARAM_KEYS.filter(param => targets.has(param));
+  }
+
+  private processCamera(signals: ContinuousSignals, timestampMs: number): CameraInput {
+    const camera: CameraInput = {};
+    CAMERA_TARGETS.forEach(target => {
+      let filter = this.cameraFilters.get(target);
+      if (!filter) {
+        filter = new OneEuroFilter(1.2, 0.05);
+        this.cameraFilters.set(target, filter);
+      }
+      const source = this.sourceFor(target, signals);
+      if (source) camera[target] = filter.filter(signals[source]!, timestampMs);
+      else filter.reset();
+    });
+    return camera;
+  }
+
+  private channelFor(param: ParamKey): Channel {
+    let channel = this.channels.get(param);
+    if (!channel) {
+      channel = new Channel(restFraction(param));
+      this.channels.set(param, channel);
+    }
+    return channel;
+  }
+
+  // The first gesture bound to `target` that is visible this frame
+  private sourceFor(target: ParamKey | CameraTarget, signals: ContinuousSignals): ContinuousGesture | null {
+    return (Object.keys(this.mapping.continuous) as ContinuousGesture[])
+      .find(gesture => this.mapping.continuous[gesture] === target && signals[gesture] !== undefined) ?? null;
+  }
+
+  private fire(gesture: DiscreteGesture, timestampMs: number) {
+    const binding = this.mapping.discrete[gesture];
+    if (!this.onGesture || !binding || binding.action === 'none') return;
+    const last = this.lastFired.get(gesture);
+    if (last !== undefined && timestampMs - last < binding.debounceMs) return;
+    this.lastFired.set(gesture, timestampMs);
+    this.onGesture(gesture, binding.action);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { DEFAULT_CALIBRATION } from './handCalibration';
+import { classifyPose, GestureRecognizer, handSide } from './gestureRecognizer';
+
+type Fingers = [index: boolean, middle: boolean, ring: boolean, pinky: boolean];
+
+// An upright hand with the wrist at (x, 0.8); extended fingers reach up past their middle joints
+const hand = (fingers: Fingers, thumbOut = true, x = 0.5): NormalizedLandmark[] => {
+  const point = (dx: number, y: number) => ({ x: x + dx, y, z: 0, visibility: 1 });
+  const landmarks = [point(0, 0.8), point(-0.05, 0.75), point(-0.1, 0.7), point(-0.14, 0.66), thumbOut ? point(-0.2, 0.6) : point(-0.02, 0.65)];
+  [-0.04, 0, 0.03, 0.06].forEach((dx, finger) => {
+    landmarks.push(point(dx, 0.6), point(dx, 0.5), point(dx, 0.45), point(dx, fingers[finger] ? 0.3 : 0.62));
+  });
+  return landmarks;
+};
+
+const OPEN: Fingers = [true, true, true, true];
+const FIST: Fingers = [false, false, false, false];
+
+const result = (...hands: [NormalizedLandmark[], 'Left' | 'Right'][]): HandLandmarkerResult => {
+  const handedness = hands.map(([, side]) => [{ categoryName: side, score: 0.9, index: 0, displayName: side }]);
+  return { landmarks: hands.map(([landmarks]) => landmarks), worldLandmarks: [], handedness, handednesses: handedness };
+};
+
+describe('classifyPose', () => {
+  it('tells the poses apart', () => {
+    expect(classifyPose(hand(FIST))).toBe('fist');
+    expect(classifyPose(hand(OPEN))).toBe('openPalm');
+    expect(classifyPose(hand([true, false, false, false]))).toBe('point');
+    expect(classifyPose(hand(OPEN, false))).toBeNull();
+    expect(classifyPose(hand([true, true, false, false]))).toBeNull();
+  });
+});
+
+describe('handSide', () => {
+  it('follows the reported handedness unless swapped', () => {
+    const frame = result([hand(OPEN), 'Left'], [hand(OPEN), 'Right']);
+    expect(handSide(frame, 0, false)).toBe('left');
+    expect(handSide(frame, 1, false)).toBe('right');
+    expect(handSide(frame, 0, true)).toBe('right');
+  });
+});
+
+describe('GestureRecognizer', () => {
+  it('reports a pose once, after it has been held', () => {
+    const recognizer = new GestureRecognizer(DEFAULT_CALIBRATION);
+    const gestures = [0, 100, 200, 300, 400].map(t => recognizer.update(result([hand(FIST), 'Left']), t).gestures);
+    expect(gestures).toEqual([[], [], ['fist'], [], []]);
+  });
+
+  it('forgets a pose when the hand leaves', () => {
+    const recognizer = new GestureRecognizer(DEFAULT_CALIBRATION);
+    [0, 100, 200].forEach(t => recognizer.update(result([hand(FIST), 'Left']), t));
+    recognizer.update(result(), 300);
+    const again = [400, 500, 600].flatMap(t => recognizer.update(result([hand(FIST), 'Left']), t).gestures);
+    expect(again).toEqual(['fist']);
+  });
+
+  it('gives continuous signals in 0..1 for the hands in view', () => {
+    const recognizer = new GestureRecognizer(DEFAULT_CALIBRATION);
+    const { signals } = recognizer.update(result([hand(OPEN, true, 0.3), 'Left'], [hand(FIST, false, 0.7), 'Right']), 0);
+    expect(Object.keys(signals).sort()).toEqual(['handSpread', 'leftPinch', 'leftRoll', 'leftTilt', 'rightPinch', 'rightRoll', 'rightTilt']);
+    Object.values(signals).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    });
+    expect(signals.leftPinch).toBeGreaterThan(signals.rightPinch!);
+    expect(signals.leftRoll).toBeCloseTo(0.5);
+    expect(signals.handSpread).toBeCloseTo(0.4 / 0.8);
+  });
+
+  it('detects a swipe in the mirrored direction', () => {
+    const recognizer = new GestureRecognizer(DEFAULT_CALIBRATION);
+    const gestures = [0.7, 0.6, 0.5, 0.4].flatMap((x, i) => recognizer.update(result([hand([true, true, false, false], true, x), 'Right']), i * 80).gestures);
+    expect(gestures).toEqual(['swipeRight']);
+  });
+
+  it('detects hands moving apart and together', () => {
+    const recognizer = new GestureRecognizer(DEFAULT_CALIBRATION);
+    const both = (apart: number) => result([hand(FIST, false, 0.5 - apart / 2), 'Left'], [hand(FIST, false, 0.5 + apart / 2), 'Right']);
+    const spread = [0.2, 0.3, 0.45].flatMap((apart, i) => recognizer.update(both(apart), i * 100).gestures.filter(g => g !== 'fist'));
+    expect(spread).toEqual(['spread']);
+    const squeeze = [0.45, 0.3, 0.2].flatMap((apart, i) => recognizer.update(both(apart), 1000 + i * 100).gestures.filter(g => g !== 'fist'));
+    expect(squeeze).toEqual(['squeeze']);
+  });
+});
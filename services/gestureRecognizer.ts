@@ -0,0 +1,210 @@
+import { HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { CalibrationProfile } from '../types';
+import { normalizeSpan, palmWidth, pinchSpan } from './handCalibration';
+
+// Reads the 21 hand landmarks into gestures. Two kinds come out:
+//   continuous signals (0..1 every frame a hand is visible), which can drive parameters
+//   discrete gestures (one event each time a pose is struck or a motion completes)
+// Landmark indices: 0 wrist, 4 thumb tip, 5/9/13/17 finger MCPs, 8/12/16/20 finger tips.
+
+export type ContinuousGesture = 'leftPinch' | 'rightPinch' | 'leftRoll' | 'rightRoll' | 'leftTilt' | 'rightTilt' | 'handSpread';
+
+export type DiscreteGesture = 'fist' | 'openPalm' | 'point' | 'swipeLeft' | 'swipeRight' | 'spread' | 'squeeze';
+
+export type ContinuousSignals = Partial<Record<ContinuousGesture, number>>;
+
+export interface GestureFrame {
+  signals: ContinuousSignals;
+  gestures: DiscreteGesture[];
+}
+
+type Pose = 'fist' | 'openPalm' | 'point' | null;
+
+// A pose must be held this long before it counts (filters transitions through other poses)
+const POSE_CONFIRM_MS = 200;
+// Motions are measured over this trailing window
+const MOTION_WINDOW_MS = 350;
+// Horizontal palm travel for a swipe, in image widths
+const SWIPE_DISTANCE = 0.25;
+// Change in the distance between the two palms for a spread/squeeze, in image widths
+const SPREAD_DISTANCE = 0.2;
+// Palm distance (image widths) that maps to handSpread = 1
+const MAX_HAND_DISTANCE = 0.8;
+// Wrist roll range mapped onto 0..1
+const MAX_ROLL_RADIANS = Math.PI / 2;
+// Hand pitch range mapped onto 0..1
+const MAX_TILT_RADIANS = Math.PI / 3;
+
+const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const palmCenter = (landmarks: NormalizedLandmark[]) => ({
+  x: (landmarks[0].x + landmarks[5].x + landmarks[17].x) / 3,
+  y: (landmarks[0].y + landmarks[5].y + landmarks[17].y) / 3
+});
+
+// A finger is extended when its tip is clearly further from the wrist than its middle joint
+const isExtended = (landmarks: NormalizedLandmark[], tip: number, pip: number) =>
+  distance(landmarks[0], landmarks[tip]) > distance(landmarks[0], landmarks[pip]) * 1.15;
+
+const isThumbOut = (landmarks: NormalizedLandmark[]) =>
+  distance(landmarks[4], landmarks[17]) > distance(landmarks[3], landmarks[17]) * 1.1 &&
+  distance(landmarks[4], landmarks[5]) > palmWidth(landmarks) * 0.5;
+
+export const classifyPose = (landmarks: NormalizedLandmark[]): Pose => {
+  const index = isExtended(landmarks, 8, 6);
+  const middle = isExtended(landmarks, 12, 10);
+  const ring = isExtended(landmarks, 16, 14);
+  const pinky = isExtended(landmarks, 20, 18);
+
+  if (!index && !middle && !ring && !pinky) return 'fist';
+  if (index && middle && ring && pinky && isThumbOut(landmarks)) return 'openPalm';
+  if (index && !middle && !ring && !pinky) return 'point';
+  return null;
+};
+
+// Tilt of the hand around the wrist: 0 when the fingers point straight up. The image is
+// mirrored on screen, so positive means tilted to the user's right.
+export const wristRoll = (landmarks: NormalizedLandmark[]) =>
+  Math.atan2(-(landmarks[9].x - landmarks[0].x), -(landmarks[9].y - landmarks[0].y));
+
+// Pitch of the hand, from MediaPipe's relative depth: 0 when the palm faces the camera
+// upright, positive when the fingers lean away from the camera.
+export const handTilt = (landmarks: NormalizedLandmark[]) =>
+  Math.atan2(landmarks[9].z - landmarks[0].z, distance(landmarks[0], landmarks[9]));
+
+interface Sample {
+  t: number;
+  value: number;
+}
+
+// Trailing window of samples for motion detection
+class Trail {
+  private samples: Sample[] = [];
+
+  push(t: number, value: number) {
+    this.samples.push({ t, value });
+    while (this.samples.length > 0 && t - this.samples[0].t > MOTION_WINDOW_MS) this.samples.shift();
+  }
+
+  // Change across the window
+  delta() {
+    if (this.samples.length < 2) return 0;
+    return this.samples[this.samples.length - 1].value - this.samples[0].value;
+  }
+
+  clear() {
+    this.samples = [];
+  }
+}
+
+class PoseTracker {
+  private candidate: Pose = null;
+  private since = 0;
+  private confirmed: Pose = null;
+
+  // Returns the pose on the frame it becomes confirmed, otherwise null
+  update(pose: Pose, t: number): Pose {
+    if (pose !== this.candidate) {
+      this.candidate = pose;
+      this.since = t;
+    }
+    if (pose !== this.confirmed && t - this.since >= POSE_CONFIRM_MS) {
+      this.confirmed = pose;
+      return pose;
+    }
+    return null;
+  }
+
+  reset() {
+    this.candidate = null;
+    this.confirmed = null;
+  }
+}
+
+export type Side = 'left' | 'right';
+
+// Mediapipe reports what the hand IS ("Right"), regardless of the mirrored preview.
+// `swap` flips that for cameras whose images arrive already mirrored.
+export const handSide = (result: HandLandmarkerResult, index: number, swap: boolean): Side => {
+  const left = result.handednesses[index]?.[0]?.categoryName === 'Left';
+  return left !== swap ? 'left' : 'right';
+};
+
+export class GestureRecognizer {
+  private poses: Record<Side, PoseTracker> = { left: new PoseTracker(), right: new PoseTracker() };
+  private swipes: Record<Side, Trail> = { left: new Trail(), right: new Trail() };
+  private handDistance = new Trail();
+
+  constructor(private profile: CalibrationProfile, private swapHandedness = false) {}
+
+  setProfile(profile: CalibrationProfile) {
+    this.profile = profile;
+  }
+
+  setSwapHandedness(swap: boolean) {
+    this.swapHandedness = swap;
+  }
+
+  update(result: HandLandmarkerResult, timestampMs: number): GestureFrame {
+    const signals: ContinuousSignals = {};
+    const gestures: DiscreteGesture[] = [];
+    const seen: Partial<Record<Side, NormalizedLandmark[]>> = {};
+
+    const hands = result.landmarks || [];
+    for (let index = 0; index < hands.length; index++) {
+      const landmarks = hands[index];
+      const side = handSide(result, index, this.swapHandedness);
+      if (seen[side]) continue;
+      seen[side] = landmarks;
+
+      const pinch = normalizeSpan(pinchSpan(landmarks), this.profile);
+      const roll = Math.min(Math.max(wristRoll(landmarks) / MAX_ROLL_RADIANS, -1), 1) * 0.5 + 0.5;
+      const tilt = Math.min(Math.max(handTilt(landmarks) / MAX_TILT_RADIANS, -1), 1) * 0.5 + 0.5;
+      if (side === 'left') {
+        signals.leftPinch = pinch;
+        signals.leftRoll = roll;
+        signals.leftTilt = tilt;
+      } else {
+        signals.rightPinch = pinch;
+        signals.rightRoll = roll;
+        signals.rightTilt = tilt;
+      }
+
+      const pose = this.poses[side].update(classifyPose(landmarks), timestampMs);
+      if (pose) gestures.push(pose);
+
+      // Image x grows to the camera's right, which is the user's left
+      const swipe = this.swipes[side];
+      swipe.push(timestampMs, -palmCenter(landmarks).x);
+      const travel = swipe.delta();
+      if (Math.abs(travel) >= SWIPE_DISTANCE) {
+        gestures.push(travel > 0 ? 'swipeRight' : 'swipeLeft');
+        swipe.clear();
+      }
+    }
+
+    (['left', 'right'] as Side[]).forEach(side => {
+      if (seen[side]) return;
+      this.poses[side].reset();
+      this.swipes[side].clear();
+    });
+
+    if (seen.left && seen.right) {
+      const a = palmCenter(seen.left);
+      const b = palmCenter(seen.right);
+      const apart = Math.hypot(a.x - b.x, a.y - b.y);
+      signals.handSpread = Math.min(apart / MAX_HAND_DISTANCE, 1);
+
+      this.handDistance.push(timestampMs, apart);
+      const change = this.handDistance.delta();
+      if (Math.abs(change) >= SPREAD_DISTANCE) {
+        gestures.push(change > 0 ? 'spread' : 'squeeze');
+        this.handDistance.clear();
+      }
+    } else {
+      this.handDistance.clear();
+    }
+
+    return { signals, gestures };
+  }
+}
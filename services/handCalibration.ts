@@ -0,0 +1,140 @@
+import { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { CalibrationProfile } from '../types';
+
+const STORAGE_KEY = 'nebula.calibration.v1';
+
+// Reasonable defaults for an uncalibrated adult hand, in palm widths
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  minSpan: 0.25,
+  maxSpan: 1.6,
+  palmWidth: 0.09,
+  createdAt: 0
+};
+
+const distance2D = (a: NormalizedLandmark, b: NormalizedLandmark) =>
+  Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+// Index MCP (5) to pinky MCP (17): stays roughly constant while the fingers move,
+// so it is a good yardstick for hand size and distance from the camera.
+export const palmWidth = (landmarks: NormalizedLandmark[]) => distance2D(landmarks[5], landmarks[17]);
+
+// Thumb tip (4) to index tip (8), expressed in palm widths
+export const pinchSpan = (landmarks: NormalizedLandmark[]) => {
+  const palm = palmWidth(landmarks);
+  if (palm < 1e-4) return 0;
+  return distance2D(landmarks[4], landmarks[8]) / palm;
+};
+
+export const normalizeSpan = (span: number, profile: CalibrationProfile) => {
+  const range = Math.max(profile.maxSpan - profile.minSpan, 1e-3);
+  return Math.min(Math.max((span - profile.minSpan) / range, 0), 1);
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// A profile every span can be mapped with without producing NaN
+export const isCalibrationProfile = (value: unknown): value is CalibrationProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { minSpan, maxSpan, palmWidth, createdAt } = value as Record<string, unknown>;
+  return isFiniteNumber(minSpan) && isFiniteNumber(maxSpan) && maxSpan > minSpan &&
+    isFiniteNumber(palmWidth) && palmWidth > 0 && isFiniteNumber(createdAt);
+};
+
+export const loadCalibration = (): CalibrationProfile => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_CALIBRATION;
+    const parsed: unknown = JSON.parse(raw);
+    return isCalibrationProfile(parsed) ? parsed : DEFAULT_CALIBRATION;
+  } catch {
+    return DEFAULT_CALIBRATION;
+  }
+};
+
+export const saveCalibration = (profile: CalibrationProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (err) {
+    console.warn("Could not persist calibration:", err);
+  }
+};
+
+export const clearCalibration = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export type CalibrationPhase = 'pinch' | 'spread' | 'done';
+
+const PREPARE_MS = 1500;
+const COLLECT_MS = 2500;
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Guided two-step measurement: first a closed pinch, then a wide spread.
+// Each phase gives the user a moment to get into position before sampling starts.
+export class CalibrationSession {
+  private phase: CalibrationPhase = 'pinch';
+  private phaseStartedAt: number;
+  private pinchSamples: number[] = [];
+  private spreadSamples: number[] = [];
+  private palmSamples: number[] = [];
+  private result: CalibrationProfile | null = null;
+
+  constructor(now: number = performance.now()) {
+    this.phaseStartedAt = now;
+  }
+
+  getPhase(): CalibrationPhase {
+    return this.phase;
+  }
+
+  getResult(): CalibrationProfile | null {
+    return this.result;
+  }
+
+  // 0..1 progress within the current phase; negative while the user is still getting ready
+  getProgress(now: number = performance.now()) {
+    return (now - this.phaseStartedAt - PREPARE_MS) / COLLECT_MS;
+  }
+
+  addSample(hands: NormalizedLandmark[][], now: number) {
+    if (this.phase === 'done') return;
+
+    const progress = this.getProgress(now);
+    if (progress >= 0 && progress < 1) {
+      hands.forEach(landmarks => {
+        const samples = this.phase === 'pinch' ? this.pinchSamples : this.spreadSamples;
+        samples.push(pinchSpan(landmarks));
+        this.palmSamples.push(palmWidth(landmarks));
+      });
+    }
+
+    if (progress >= 1) this.advance(now);
+  }
+
+  private advance(now: number) {
+    if (this.phase === 'pinch') {
+      this.phase = 'spread';
+      this.phaseStartedAt = now;
+      return;
+    }
+
+    this.phase = 'done';
+    if (this.pinchSamples.length === 0 || this.spreadSamples.length === 0) return;
+
+    // Bias both ends inwards so a comfortable pinch/spread reaches 0/1 without straining
+    const minSpan = percentile(this.pinchSamples, 0.8);
+    const maxSpan = percentile(this.spreadSamples, 0.2);
+    if (maxSpan - minSpan < 0.1) return; // The user didn't actually move; keep the old profile
+
+    this.result = {
+      minSpan,
+      maxSpan,
+      palmWidth: percentile(this.palmSamples, 0.5),
+      createdAt: Date.now()
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import { HandLandmarker, HandLandmarkerResult, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { handSide, Side } from './gestureRecognizer';
+
+export interface OverlayOptions {
+  swapHandedness: boolean;
+  // Pinch line colour per hand; hands whose pinch isn't bound to anything are drawn dim
+  pinchColors: Partial<Record<Side, string>>;
+}
+
+const SKELETON_COLOR = 'rgba(255, 255, 255, 0.7)';
+const JOINT_COLOR = 'rgba(34, 211, 238, 0.9)';
+const UNBOUND_PINCH_COLOR = 'rgba(255, 255, 255, 0.3)';
+
+// Draws the detected hands over the mirrored, object-cover'd preview. The canvas itself is not
+// mirrored (so labels read normally); landmark x is flipped instead, and the cover crop of the
+// video (`videoWidth` x `videoHeight` into the canvas) is applied to match the picture.
+export const drawHandOverlay = (
+  canvas: HTMLCanvasElement,
+  result: HandLandmarkerResult | null,
+  videoWidth: number,
+  videoHeight: number,
+  options: OverlayOptions
+) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+  ctx.clearRect(0, 0, width, height);
+  if (!result || videoWidth === 0 || videoHeight === 0) return;
+
+  const cover = Math.max(width / videoWidth, height / videoHeight);
+  const offsetX = (width - videoWidth * cover) / 2;
+  const offsetY = (height - videoHeight * cover) / 2;
+  const toCanvas = (landmark: NormalizedLandmark) => ({
+    x: width - (offsetX + landmark.x * videoWidth * cover),
+    y: offsetY + landmark.y * videoHeight * cover
+  });
+
+  ctx.lineWidth = 1.5;
+  ctx.font = '10px monospace';
+  ctx.textBaseline = 'bottom';
+
+  (result.landmarks || []).forEach((landmarks, index) => {
+    const points = landmarks.map(toCanvas);
+
+    ctx.strokeStyle = SKELETON_COLOR;
+    ctx.beginPath();
+    HandLandmarker.HAND_CONNECTIONS.forEach(({ start, end }) => {
+      ctx.moveTo(points[start].x, points[start].y);
+      ctx.lineTo(points[end].x, points[end].y);
+    });
+    ctx.stroke();
+
+    ctx.fillStyle = JOINT_COLOR;
+    points.forEach(({ x, y }) => {
+      ctx.beginPath();
+      ctx.arc(x, y, 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // Thumb tip to index tip: the pinch span the pipeline measures
+    const side = handSide(result, index, options.swapHandedness);
+    ctx.strokeStyle = options.pinchColors[side] ?? UNBOUND_PINCH_COLOR;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(points[4].x, points[4].y);
+    ctx.lineTo(points[8].x, points[8].y);
+    ctx.stroke();
+    ctx.lineWidth = 1.5;
+
+    const score = result.handednesses[index]?.[0]?.score ?? 0;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillText(`${side.toUpperCase()} ${Math.round(score * 100)}%`, points[0].x - 20, points[0].y + 14);
+  });
+};
@@ -0,0 +1,89 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+
+// Where the MediaPipe runtime and hand model come from. Both can be served from the app's own
+// origin (see README): set MEDIAPIPE_WASM_PATH / MEDIAPIPE_MODEL_PATH at build time, or
+// override them per browser in the tracking settings.
+export const DEFAULT_WASM_PATH =
+  process.env.MEDIAPIPE_WASM_PATH || 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm';
+export const DEFAULT_MODEL_PATH =
+  process.env.MEDIAPIPE_MODEL_PATH ||
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export type Delegate = 'GPU' | 'CPU';
+
+// Carries a message that can be shown to the user as is
+export class HandTrackingError extends Error {
+  constructor(message: string, readonly stage: 'models' | 'camera') {
+    super(message);
+  }
+}
+
+// Loads the runtime and model, on the GPU when possible. GPU creation fails on some drivers,
+// headless machines and locked-down browsers; the CPU delegate is slower but works there.
+export const createHandLandmarker = async (
+  wasmPath: string,
+  modelPath: string,
+  onDelegate?: (delegate: Delegate) => void
+): Promise<{ landmarker: HandLandmarker; delegate: Delegate }> => {
+  let vision;
+  try {
+    vision = await FilesetResolver.forVisionTasks(wasmPath);
+  } catch (err) {
+    console.error("Could not load MediaPipe runtime:", err);
+    throw new HandTrackingError(`Could not load the hand tracking runtime from ${wasmPath}.`, 'models');
+  }
+
+  const create = (delegate: Delegate) =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: { modelAssetPath: modelPath, delegate },
+      runningMode: "VIDEO",
+      numHands: 2
+    });
+
+  onDelegate?.('GPU');
+  try {
+    return { landmarker: await create('GPU'), delegate: 'GPU' };
+  } catch (err) {
+    console.warn("GPU delegate unavailable, retrying on CPU:", err);
+  }
+
+  onDelegate?.('CPU');
+  try {
+    return { landmarker: await create('CPU'), delegate: 'CPU' };
+  } catch (err) {
+    console.error("Could not create hand landmarker:", err);
+    throw new HandTrackingError(`Could not load the hand model from ${modelPath}.`, 'models');
+  }
+};
+
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(device => device.kind === 'videoinput');
+  } catch {
+    return [];
+  }
+};
+
+const CAMERA_ERRORS: Record<string, string> = {
+  NotAllowedError: "Camera permission denied.",
+  NotFoundError: "No camera found.",
+  OverconstrainedError: "The selected camera is not available.",
+  NotReadableError: "The camera is in use by another application."
+};
+
+// `deviceId` null picks the browser's default camera
+export const openCamera = async (deviceId: string | null): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new HandTrackingError("Camera access is not available in this browser.", 'camera');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { width: 640, height: 480, ...(deviceId ? { deviceId: { exact: deviceId } } : {}) }
+    });
+  } catch (err) {
+    const name = err instanceof DOMException ? err.name : '';
+    throw new HandTrackingError(CAMERA_ERRORS[name] ?? "Could not start the camera.", 'camera');
+  }
+};
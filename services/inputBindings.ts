@@ -0,0 +1,47 @@
+import { isParamKey, ParamKey } from './paramSchema';
+
+const STORAGE_KEY = 'nebula.bindings.v1';
+
+// Which param each gamepad stick axis and MIDI controller drives. Gestures have their own
+// mapping (see gestureMapping.ts); the keyboard always drives entropy and gravity.
+export interface InputBindings {
+  // Indexed by standard-mapping axis: 0 left X, 1 left Y, 2 right X, 3 right Y
+  gamepadAxes: Array<ParamKey | 'none'>;
+  // Control-change number per param; unbound params are missing
+  midiCc: Partial<Record<ParamKey, number>>;
+}
+
+export const GAMEPAD_AXIS_LABELS = ['Left stick X', 'Left stick Y', 'Right stick X', 'Right stick Y'];
+
+// Matches the original fixed bindings
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  gamepadAxes: ['none', 'chaos', 'none', 'scale'],
+  midiCc: { chaos: 1, scale: 2 }
+};
+
+export const loadInputBindings = (): InputBindings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_INPUT_BINDINGS;
+    const parsed = JSON.parse(raw) as Partial<InputBindings>;
+    const gamepadAxes = GAMEPAD_AXIS_LABELS.map((_, axis) => {
+      const target = parsed.gamepadAxes?.[axis];
+      return isParamKey(target) ? target : 'none';
+    });
+    const midiCc: Partial<Record<ParamKey, number>> = {};
+    Object.entries(parsed.midiCc ?? {}).forEach(([param, cc]) => {
+      if (isParamKey(param) && Number.isInteger(cc) && cc >= 0 && cc <= 127) midiCc[param] = cc;
+    });
+    return { gamepadAxes, midiCc };
+  } catch {
+    return DEFAULT_INPUT_BINDINGS;
+  }
+};
+
+export const saveInputBindings = (bindings: InputBindings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.warn("Could not persist input bindings:", err);
+  }
+};
@@ -0,0 +1,211 @@
+import { SimulationParams } from '../types';
+
+export type InputEmitter = (params: Partial<SimulationParams>) => void;
+
+export interface InputProvider {
+  id: string;
+  label: string;
+  // Begin producing input. `setAvailable` reports whether the underlying device exists at all
+  // (camera granted, gamepad plugged in...). Returns a teardown function.
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void): (() => void) | void;
+}
+
+export interface InputSourceStatus {
+  id: string;
+  label: string;
+  enabled: boolean;
+  available: boolean;
+  engaged: boolean;
+}
+
+export type InputUpdateHandler = (params: Partial<SimulationParams>, controller: string | null) => void;
+
+interface ProviderEntry {
+  provider: InputProvider;
+  enabled: boolean;
+  available: boolean;
+  values: Partial<SimulationParams>;
+  // Last time the provider reported `active: true`
+  lastActiveAt: number;
+  explicitlyInactive: boolean;
+  stop?: () => void;
+}
+
+// A provider that stops emitting (a released gamepad stick, an untouched MIDI knob) keeps
+// control for this long before lower-priority sources get their turn again.
+const ENGAGED_HOLD_MS = 3000;
+
+// Merges the output of every enabled provider into a single params stream. For each parameter
+// the highest-priority engaged provider that supplies it wins; the order of `priority` is the
+// order in which providers were registered unless changed with `raisePriority`.
+export class InputManager {
+  private entries = new Map<string, ProviderEntry>();
+  private priority: string[] = [];
+  private controller: string | null = null;
+  private lastStatusKey = '';
+  private lastUpdateKey = '';
+  private statusListeners = new Set<(statuses: InputSourceStatus[]) => void>();
+  private sweepTimer: number;
+
+  constructor(private onUpdate: InputUpdateHandler) {
+    // Engagement expires on its own, so re-evaluate periodically even when nobody emits
+    this.sweepTimer = window.setInterval(() => this.recompute(), 250);
+  }
+
+  register(provider: InputProvider, enabled: boolean = true) {
+    if (this.entries.has(provider.id)) return;
+    this.entries.set(provider.id, {
+      provider,
+      enabled: false,
+      available: false,
+      values: {},
+      lastActiveAt: 0,
+      explicitlyInactive: true
+    });
+    this.priority.push(provider.id);
+    this.setEnabled(provider.id, enabled);
+  }
+
+  setEnabled(id: string, enabled: boolean) {
+    const entry = this.entries.get(id);
+    if (!entry || entry.enabled === enabled) return;
+    entry.enabled = enabled;
+
+    if (enabled) {
+      const stop = entry.provider.start(
+        params => this.handleEmit(id, params),
+        available => {
+          entry.available = available;
+          this.recompute();
+        }
+      );
+      entry.stop = stop || undefined;
+    } else {
+      entry.stop?.();
+      entry.stop = undefined;
+      entry.values = {};
+      entry.explicitlyInactive = true;
+    }
+    this.recompute();
+  }
+
+  // Move a provider one step up in the priority order
+  raisePriority(id: string) {
+    const index = this.priority.indexOf(id);
+    if (index <= 0) return;
+    [this.priority[index - 1], this.priority[index]] = [this.priority[index], this.priority[index - 1]];
+    this.recompute();
+  }
+
+  // Reorder so `id` sits directly before (higher priority than) or after `otherId`
+  moveBefore(id: string, otherId: string) {
+    this.moveRelative(id, otherId, 0);
+  }
+
+  moveAfter(id: string, otherId: string) {
+    this.moveRelative(id, otherId, 1);
+  }
+
+  hasPriorityOver(id: string, otherId: string) {
+    return this.priority.indexOf(id) < this.priority.indexOf(otherId);
+  }
+
+  getController(): string | null {
+    return this.controller;
+  }
+
+  getStatuses(): InputSourceStatus[] {
+    const now = performance.now();
+    return this.priority.map(id => {
+      const entry = this.entries.get(id)!;
+      return {
+        id,
+        label: entry.provider.label,
+        enabled: entry.enabled,
+        available: entry.available,
+        engaged: this.isEngaged(entry, now)
+      };
+    });
+  }
+
+  subscribeStatus(listener: (statuses: InputSourceStatus[]) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getStatuses());
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  dispose() {
+    window.clearInterval(this.sweepTimer);
+    this.entries.forEach(entry => entry.stop?.());
+    this.entries.clear();
+    this.priority = [];
+    this.statusListeners.clear();
+  }
+
+  private moveRelative(id: string, otherId: string, offset: 0 | 1) {
+    if (id === otherId || !this.entries.has(id) || !this.entries.has(otherId)) return;
+    this.priority = this.priority.filter(other => other !== id);
+    this.priority.splice(this.priority.indexOf(otherId) + offset, 0, id);
+    this.recompute();
+  }
+
+  private handleEmit(id: string, params: Partial<SimulationParams>) {
+    const entry = this.entries.get(id);
+    if (!entry || !entry.enabled) return;
+
+    const { active, ...values } = params;
+    entry.values = { ...entry.values, ...values };
+    // Providers that don't report `active` are treated as engaged whenever they emit
+    if (active === false) {
+      entry.explicitlyInactive = true;
+    } else {
+      entry.explicitlyInactive = false;
+      entry.lastActiveAt = performance.now();
+    }
+    this.recompute();
+  }
+
+  private isEngaged(entry: ProviderEntry, now: number) {
+    return entry.enabled && !entry.explicitlyInactive && now - entry.lastActiveAt < ENGAGED_HOLD_MS;
+  }
+
+  private recompute() {
+    const now = performance.now();
+    const merged: Partial<SimulationParams> = {};
+    let controller: string | null = null;
+
+    for (const id of this.priority) {
+      const entry = this.entries.get(id)!;
+      if (!this.isEngaged(entry, now)) continue;
+      if (controller === null) controller = id;
+
+      (Object.keys(entry.values) as (keyof SimulationParams)[]).forEach(key => {
+        if (merged[key] === undefined) {
+          (merged as Record<string, unknown>)[key] = entry.values[key];
+        }
+      });
+    }
+
+    this.controller = controller;
+
+    // Parameters nobody is driving simply keep their last value. The sweep runs whether or not
+    // anything moved, so only pass on actual changes.
+    const update = { ...merged, active: controller !== null };
+    const key = JSON.stringify([update, controller]);
+    if (key !== this.lastUpdateKey) {
+      this.lastUpdateKey = key;
+      this.onUpdate(update, controller);
+    }
+    this.notifyStatusIfChanged();
+  }
+
+  private notifyStatusIfChanged() {
+    const statuses = this.getStatuses();
+    const key = JSON.stringify(statuses);
+    if (key === this.lastStatusKey) return;
+    this.lastStatusKey = key;
+    this.statusListeners.forEach(listener => listener(statuses));
+  }
+}
@@ -0,0 +1,216 @@
+import { SimulationParams } from '../types';
+import { InputEmitter, InputProvider } from './inputManager';
+import { InputBindings } from './inputBindings';
+import { clampParam, fromFraction, isParamKey, ParamKey, toFraction } from './paramSchema';
+import { PresetParams } from './presets';
+
+// Relative controls (arrow keys, sticks) start from whatever the simulation is showing,
+// not from the provider's own last value, so taking over from another source doesn't jump.
+export type CurrentParamsGetter = () => PresetParams;
+
+// Provider fed from outside, e.g. by a React component that owns the device (the webcam)
+export class PushInputProvider implements InputProvider {
+  private emit: InputEmitter | null = null;
+  private reportAvailable: ((available: boolean) => void) | null = null;
+  private available = false;
+
+  constructor(public id: string, public label: string) {}
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    this.emit = emit;
+    this.reportAvailable = setAvailable;
+    setAvailable(this.available);
+    return () => {
+      this.emit = null;
+      this.reportAvailable = null;
+    };
+  }
+
+  push = (params: Partial<SimulationParams>) => {
+    this.emit?.(params);
+  };
+
+  setAvailable = (available: boolean) => {
+    this.available = available;
+    this.reportAvailable?.(available);
+  };
+}
+
+// On-screen sliders plus keyboard shortcuts:
+// Left/Right arrows adjust entropy, Up/Down adjust the gravity well.
+export class ManualInputProvider implements InputProvider {
+  id = 'manual';
+  label = 'Keyboard / Mouse';
+  private emit: InputEmitter | null = null;
+
+  constructor(private getCurrent: CurrentParamsGetter, private step: number = 0.05) {}
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    this.emit = emit;
+    setAvailable(true);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Don't steal arrow keys from text fields, focused sliders or a control that handled them
+      // itself (the HUD meters, the 3D view); modified arrows are left to the browser
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+
+      const { chaos, scale } = this.getCurrent();
+      switch (event.key) {
+        case 'ArrowRight': this.set({ chaos: chaos + this.step }); break;
+        case 'ArrowLeft': this.set({ chaos: chaos - this.step }); break;
+        case 'ArrowUp': this.set({ scale: scale + this.step }); break;
+        case 'ArrowDown': this.set({ scale: scale - this.step }); break;
+        default: return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      this.emit = null;
+    };
+  }
+
+  set = (params: Partial<PresetParams>) => {
+    const values = { ...this.getCurrent() };
+    (Object.keys(params) as ParamKey[]).forEach(key => {
+      const value = params[key];
+      if (isParamKey(key) && value !== undefined) values[key] = clampParam(key, value);
+    });
+    this.emit?.({ ...values, active: true });
+  };
+}
+
+// Standard-mapping gamepad. Each stick axis can nudge one param (by default left stick Y
+// drives entropy, right stick Y the gravity well). Sticks are rate controls so a released
+// stick leaves the value where it was; the rate is in fractions of the param's range.
+export class GamepadInputProvider implements InputProvider {
+  id = 'gamepad';
+  label = 'Gamepad';
+
+  constructor(
+    private getCurrent: CurrentParamsGetter,
+    private axes: InputBindings['gamepadAxes'],
+    private ratePerSecond: number = 0.6,
+    private deadZone: number = 0.15
+  ) {}
+
+  setAxes(axes: InputBindings['gamepadAxes']) {
+    this.axes = axes;
+  }
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    if (!('getGamepads' in navigator)) {
+      setAvailable(false);
+      return;
+    }
+
+    let values = this.getCurrent();
+    let wasAvailable: boolean | null = null;
+    let wasMoving = false;
+    let frame = 0;
+    let last = performance.now();
+
+    const poll = () => {
+      const now = performance.now();
+      const dt = (now - last) / 1000;
+      last = now;
+
+      const pad = navigator.getGamepads().find(p => p && p.connected);
+      if (!!pad !== wasAvailable) {
+        wasAvailable = !!pad;
+        setAvailable(wasAvailable);
+      }
+
+      if (pad) {
+        const deflected = this.axes
+          .map((param, axis) => ({ param, value: pad.axes[axis] ?? 0 }))
+          .filter(({ param, value }) => param !== 'none' && Math.abs(value) > this.deadZone);
+        const moved = deflected.length > 0;
+
+        if (moved && !wasMoving) values = this.getCurrent();
+        wasMoving = moved;
+
+        if (moved) {
+          deflected.forEach(({ param, value }) => {
+            if (param === 'none') return;
+            // Stick up (and left) is negative on the standard mapping; up should increase
+            const fraction = toFraction(param, values[param]) - value * this.ratePerSecond * dt;
+            values[param] = fromFraction(param, fraction);
+          });
+          emit({ ...values, active: true });
+        }
+      }
+
+      frame = requestAnimationFrame(poll);
+    };
+
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }
+}
+
+// Web MIDI knobs/faders. Control-change numbers for each parameter are configurable; the full
+// 0..127 travel covers the param's range.
+export class MidiInputProvider implements InputProvider {
+  id = 'midi';
+  label = 'MIDI';
+
+  constructor(private ccMap: InputBindings['midiCc']) {}
+
+  setCcMap(ccMap: InputBindings['midiCc']) {
+    this.ccMap = ccMap;
+  }
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    if (!navigator.requestMIDIAccess) {
+      setAvailable(false);
+      return;
+    }
+
+    let access: MIDIAccess | null = null;
+    let stopped = false;
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      if (!event.data || event.data.length < 3) return;
+      const [status, controller, value] = event.data;
+      // 0xB0-0xBF: control change on any channel
+      if ((status & 0xf0) !== 0xb0) return;
+
+      (Object.keys(this.ccMap) as ParamKey[]).forEach(param => {
+        if (controller === this.ccMap[param]) emit({ [param]: fromFraction(param, value / 127), active: true });
+      });
+    };
+
+    const bindInputs = () => {
+      if (!access) return;
+      access.inputs.forEach(input => {
+        input.onmidimessage = handleMessage;
+      });
+      setAvailable(access.inputs.size > 0);
+    };
+
+    navigator.requestMIDIAccess().then(result => {
+      if (stopped) return;
+      access = result;
+      access.onstatechange = bindInputs;
+      bindInputs();
+    }).catch(err => {
+      console.warn("MIDI access unavailable:", err);
+      setAvailable(false);
+    });
+
+    return () => {
+      stopped = true;
+      if (access) {
+        access.onstatechange = null;
+        access.inputs.forEach(input => {
+          input.onmidimessage = null;
+        });
+      }
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { SimulationState } from "../types";
+import { AnalysisProvider, AnalysisRequest, StreamOptions, Telemetry } from "./analysisProvider";
+
+// Rule-based narrator for when no model is reachable. Descriptions are assembled from
+// templates keyed on telemetry bands, so it always answers, instantly, with no network.
+
+type Band = 'low' | 'mid' | 'high';
+
+const band = (value: number, low: number, high: number): Band => (value < low ? 'low' : value < high ? 'mid' : 'high');
+
+const CHAOS_LINES: Record<Band, string[]> = {
+  low: [
+    "The stellar lanes turn in disciplined procession, each sun keeping its appointed orbit.",
+    "Order reigns: the spiral arms sweep past like the hands of an ancient clock.",
+    "Barely a tremor disturbs the disc; the stars glide in quiet, crystalline formation."
+  ],
+  mid: [
+    "Turbulence ripples through the arms, and stars begin to stray from their lanes.",
+    "The disc shivers with restless energy, its orderly currents fraying at the edges.",
+    "Eddies of heat churn the spiral, scattering embers of light across the void."
+  ],
+  high: [
+    "Entropy runs wild: the galaxy boils, its stars flung loose in a blizzard of fire.",
+    "All structure is dissolving into a storm of incandescent debris.",
+    "The arms have shattered; particles scream through the dark on chaotic trajectories."
+  ]
+};
+
+const SCALE_LINES: Record<Band, string[]> = {
+  low: [
+    "Gravity has clenched the galaxy into a blinding, compressed heart.",
+    "The well is deep and hungry, drawing every orbit tight around the core.",
+    "Space itself seems to fold inward toward a dense, luminous singularity."
+  ],
+  mid: [
+    "The gravity well holds the disc at a graceful, balanced span.",
+    "Mass and motion are in equilibrium, cradling the spiral at a stately radius.",
+    "The core's pull is measured, keeping the galaxy compact yet unhurried."
+  ],
+  high: [
+    "The well has relaxed, and the galaxy blooms into a vast, gossamer nebula.",
+    "Orbits stretch wide across the void, thinning the stars into a luminous veil.",
+    "An expansive halo of light now spans the viewport, tenuous and immense."
+  ]
+};
+
+const STATE_LINES: Partial<Record<SimulationState, string>> = {
+  [SimulationState.UNSTABLE]: "Warning: the system is unstable.",
+  [SimulationState.COLLAPSING]: "Alert: gravitational collapse in progress.",
+  [SimulationState.SUPERNOVA]: "Supernova detected: a shockwave is tearing outward from the core."
+};
+
+const pick = (lines: string[], seed: number) => lines[seed % lines.length];
+
+const describeChange = (previous: Telemetry, current: Telemetry) => {
+  const changes: string[] = [];
+  const chaosDelta = current.chaos - previous.chaos;
+  const scaleDelta = current.scale - previous.scale;
+  if (Math.abs(chaosDelta) >= 0.1) changes.push(chaosDelta > 0 ? "entropy has climbed" : "entropy has subsided");
+  if (Math.abs(scaleDelta) >= 0.1) changes.push(scaleDelta > 0 ? "the gravity well has widened" : "the gravity well has tightened");
+  return changes.length ? `Since your last query, ${changes.join(' and ')}.` : '';
+};
+
+export const narrate = ({ history, telemetry, userQuery }: AnalysisRequest): string => {
+  // Vary the wording from one reply to the next without randomness
+  const seed = history.length;
+  const lines = [
+    pick(CHAOS_LINES[band(telemetry.chaos, 0.3, 0.6)], seed),
+    pick(SCALE_LINES[band(telemetry.scale, 0.3, 0.7)], seed + 1)
+  ];
+  if (telemetry.morphology) lines.unshift(`Classification: ${telemetry.morphology}.`);
+  const stateLine = telemetry.state ? STATE_LINES[telemetry.state] : undefined;
+  if (stateLine) lines.unshift(stateLine);
+
+  const previous = [...history].reverse().find(message => message.role === 'user' && message.params)?.params;
+  const change = previous ? describeChange(previous, telemetry) : '';
+  if (change) lines.push(change);
+
+  const recent = telemetry.recent;
+  if (recent?.entropySpikes) {
+    const times = recent.entropySpikes === 1 ? 'once' : `${recent.entropySpikes} times`;
+    lines.push(`Entropy has surged ${times} in the last ${recent.windowSeconds} seconds.`);
+  }
+  if (recent?.transitions.length) {
+    const states = recent.transitions.map(transition => transition.split(' -> ')[1]);
+    lines.push(`The system has passed through ${states.join(', then ')}.`);
+  }
+
+  if (userQuery) lines.unshift("Deep space link offline; local narrator reporting.");
+  return lines.join(' ');
+};
+
+export class OfflineNarratorProvider implements AnalysisProvider {
+  id = 'offline' as const;
+  label = 'Offline narrator';
+
+  async stream(request: AnalysisRequest, { onText, signal }: StreamOptions): Promise<string> {
+    if (signal?.aborted) return '';
+    const text = narrate(request);
+    onText?.(text);
+    return text;
+  }
+}
@@ -0,0 +1,216 @@
+import { FunctionDeclaration, Schema } from "@google/genai";
+import {
+  AnalysisProvider,
+  AnalysisRequest,
+  buildTurns,
+  MAX_TOOL_ROUNDS,
+  ProviderUnavailableError,
+  StreamOptions,
+  SYSTEM_INSTRUCTION,
+  TOOL_INSTRUCTION
+} from "./analysisProvider";
+
+// Any server speaking the OpenAI chat completions API: llama.cpp, Ollama, vLLM, LM Studio...
+// `endpoint` is the API base, e.g. http://localhost:11434/v1
+
+export interface OpenAICompatibleConfig {
+  endpoint: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// One fragment of a streamed tool call; name and arguments arrive a piece at a time
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// What we read from each server-sent event of a streamed completion
+interface OpenAIStreamDelta {
+  content?: string;
+  tool_calls: OpenAIToolCallDelta[];
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+// Gemini schemas use upper-case type names; JSON Schema wants lower case
+const toJsonSchema = (schema: Schema | undefined): Record<string, unknown> | undefined => {
+  if (!schema) return undefined;
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+const toOpenAITools = (tools: FunctionDeclaration[]) =>
+  tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: toJsonSchema(tool.parameters) ?? { type: 'object', properties: {} }
+    }
+  }));
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const toToolCallDelta = (value: unknown): OpenAIToolCallDelta | null => {
+  if (!isRecord(value)) return null;
+  const fn = isRecord(value.function) ? value.function : undefined;
+  return {
+    index: typeof value.index === 'number' ? value.index : undefined,
+    id: optionalString(value.id),
+    function: fn && { name: optionalString(fn.name), arguments: optionalString(fn.arguments) }
+  };
+};
+
+// The delta of the first choice, or null for events that carry none (role-only, usage...)
+const toStreamDelta = (chunk: unknown): OpenAIStreamDelta | null => {
+  if (!isRecord(chunk) || !Array.isArray(chunk.choices)) return null;
+  const choice: unknown = chunk.choices[0];
+  if (!isRecord(choice) || !isRecord(choice.delta)) return null;
+  const { content, tool_calls } = choice.delta;
+  return {
+    content: optionalString(content),
+    tool_calls: Array.isArray(tool_calls)
+      ? tool_calls.map(toToolCallDelta).filter((call): call is OpenAIToolCallDelta => call !== null)
+      : []
+  };
+};
+
+// Yields the JSON payload of each server-sent event until [DONE]
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+          yield JSON.parse(payload) as unknown;
+        } catch {
+          // Ignore keep-alives and partial junk
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export class OpenAICompatibleProvider implements AnalysisProvider {
+  id = 'openai' as const;
+  label = 'Local endpoint';
+
+  constructor(private config: OpenAICompatibleConfig) {}
+
+  async stream(request: AnalysisRequest, { onText, signal, tools, onToolCall }: StreamOptions): Promise<string> {
+    const endpoint = this.config.endpoint.trim().replace(/\/+$/, '');
+    if (!endpoint) throw new ProviderUnavailableError("No local endpoint configured.");
+    const useTools = !!tools?.length && !!onToolCall;
+
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: useTools ? SYSTEM_INSTRUCTION + TOOL_INSTRUCTION : SYSTEM_INSTRUCTION },
+      ...buildTurns(request).map(turn => (turn.role === 'model'
+        ? { role: 'assistant' as const, content: turn.text }
+        : { role: 'user' as const, content: turn.text }))
+    ];
+
+    let text = '';
+    let usedTools = false;
+    try {
+      for (let round = 0; round <= MAX_TOOL_ROUNDS && !signal?.aborted; round++) {
+        const response = await fetch(`${endpoint}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: this.config.model,
+            messages,
+            stream: true,
+            // Last round is text only, so a model that keeps calling tools still has to answer
+            tools: useTools && round < MAX_TOOL_ROUNDS ? toOpenAITools(tools!) : undefined
+          }),
+          signal
+        });
+        if (!response.ok || !response.body) throw new Error(`Endpoint responded ${response.status}`);
+
+        // Tool call names and arguments arrive in fragments, keyed by index
+        const calls: OpenAIToolCall[] = [];
+        let roundText = '';
+        let separator = text ? ' ' : '';
+        for await (const event of readEvents(response.body)) {
+          const delta = toStreamDelta(event);
+          if (!delta) continue;
+          delta.tool_calls.forEach(fragment => {
+            const index = fragment.index ?? calls.length;
+            const call = (calls[index] ??= { id: fragment.id ?? `call_${index}`, type: 'function', function: { name: '', arguments: '' } });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+          });
+          if (delta.content) {
+            roundText += delta.content;
+            text += separator + delta.content;
+            separator = '';
+            onText?.(text);
+          }
+        }
+
+        const pending = calls.filter(Boolean);
+        if (pending.length === 0 || signal?.aborted || !onToolCall) break;
+        usedTools = true;
+        messages.push({ role: 'assistant', content: roundText || null, tool_calls: pending });
+        pending.forEach(call => {
+          const result = onToolCall({ id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) });
+          messages.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+        });
+      }
+    } catch (error) {
+      if (signal?.aborted) return text;
+      throw error;
+    }
+
+    if (!text && !usedTools && !signal?.aborted) throw new Error("Local endpoint returned an empty reply.");
+    return text;
+  }
+}
@@ -0,0 +1,69 @@
+import { SimulationParams } from '../types';
+import { ParamKey } from './paramSchema';
+
+export type AnimatedParam = ParamKey;
+
+export type Easing = (t: number) => number;
+
+export const linear: Easing = t => t;
+export const easeIn: Easing = t => t * t;
+export const easeOut: Easing = t => 1 - (1 - t) * (1 - t);
+export const easeInOut: Easing = t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+// Holds the previous value, then jumps at the end
+export const step: Easing = t => (t >= 1 ? 1 : 0);
+
+interface Ramp {
+  from: number;
+  to: number;
+  startedAt: number;
+  durationMs: number;
+  easing: Easing;
+}
+
+// Moves parameters towards a target over time, one independent ramp per parameter.
+// Starting a new ramp on a parameter replaces the one already running on it.
+export class ParamAnimator {
+  private ramps = new Map<AnimatedParam, Ramp>();
+  private frame = 0;
+
+  constructor(
+    private getCurrent: () => SimulationParams,
+    private apply: (params: Partial<SimulationParams>) => void
+  ) {}
+
+  ramp(param: AnimatedParam, to: number, durationMs: number, easing: Easing = easeInOut) {
+    this.ramps.set(param, {
+      from: this.getCurrent()[param],
+      to,
+      startedAt: performance.now(),
+      durationMs: Math.max(durationMs, 1),
+      easing
+    });
+    if (!this.frame) this.frame = requestAnimationFrame(this.tick);
+  }
+
+  isRamping(param: AnimatedParam) {
+    return this.ramps.has(param);
+  }
+
+  // Stop a ramp where it is (or all of them)
+  cancel(param?: AnimatedParam) {
+    if (param) this.ramps.delete(param);
+    else this.ramps.clear();
+    if (this.ramps.size === 0 && this.frame) {
+      cancelAnimationFrame(this.frame);
+      this.frame = 0;
+    }
+  }
+
+  private tick = (now: number) => {
+    const update: Partial<SimulationParams> = {};
+    this.ramps.forEach((ramp, param) => {
+      const t = Math.min(Math.max((now - ramp.startedAt) / ramp.durationMs, 0), 1);
+      update[param] = ramp.from + (ramp.to - ramp.from) * ramp.easing(t);
+      if (t >= 1) this.ramps.delete(param);
+    });
+    this.apply(update);
+    this.frame = this.ramps.size > 0 ? requestAnimationFrame(this.tick) : 0;
+  };
+}
@@ -0,0 +1,131 @@
+import { SimulationParams } from '../types';
+
+// Every numeric simulation parameter, described once. The HUD meters, the advanced slider
+// panel, the timeline tracks, input bindings, share links and the AI tools are all generated
+// from this list, so adding a parameter here (and to SimulationParams) is enough to expose it.
+
+export type ParamKey = Exclude<keyof SimulationParams, 'active'>;
+
+export type ParamUnit = '%' | 'x' | 'deg' | 'stars' | '';
+
+export interface ParamSpec {
+  key: ParamKey;
+  // Long name for panels and tools; `label` is the short upper-case HUD form
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit: ParamUnit;
+  // HUD accent (any CSS color)
+  color: string;
+  // Shown as a meter on the HUD; the rest only appear in the advanced panel
+  hud: boolean;
+  description: string;
+}
+
+export const PARAM_SCHEMA: ParamSpec[] = [
+  {
+    key: 'scale',
+    name: 'Gravity well',
+    label: 'GRAVITY WELL',
+    min: 0, max: 1, step: 0.01, defaultValue: 0.5, unit: '%',
+    color: '#22d3ee',
+    hud: true,
+    description: 'Size of the galaxy; near 0 it collapses into a singularity.'
+  },
+  {
+    key: 'chaos',
+    name: 'Entropy',
+    label: 'ENTROPY',
+    min: 0, max: 1, step: 0.01, defaultValue: 0.1, unit: '%',
+    color: '#a78bfa',
+    hud: true,
+    description: 'Disorder: jitter, spin and flicker. High values make the galaxy unstable.'
+  },
+  {
+    key: 'particleCount',
+    name: 'Star count',
+    label: 'STARS',
+    min: 400, max: 50000, step: 100, defaultValue: 50000, unit: 'stars',
+    color: '#fde68a',
+    hud: false,
+    description: 'Most stars to simulate. Fewer are used when the frame rate drops.'
+  },
+  {
+    key: 'hueShift',
+    name: 'Color shift',
+    label: 'HUE',
+    min: 0, max: 360, step: 1, defaultValue: 0, unit: 'deg',
+    color: '#f472b6',
+    hud: false,
+    description: 'Rotates the star colors around the color wheel.'
+  },
+  {
+    key: 'trailFade',
+    name: 'Trail fade',
+    label: 'TRAIL FADE',
+    min: 0.02, max: 1, step: 0.01, defaultValue: 0.2, unit: '',
+    color: '#94a3b8',
+    hud: false,
+    description: 'How quickly star trails fade each frame; low values leave long trails.'
+  },
+  {
+    key: 'rotationSpeed',
+    name: 'Rotation speed',
+    label: 'ROTATION',
+    min: 0, max: 3, step: 0.05, defaultValue: 1, unit: 'x',
+    color: '#4ade80',
+    hud: false,
+    description: 'Multiplier on orbital speed (orbit physics).'
+  },
+  {
+    key: 'supernovaThreshold',
+    name: 'Supernova threshold',
+    label: 'NOVA AT',
+    min: 0.6, max: 0.95, step: 0.01, defaultValue: 0.85, unit: '%',
+    color: '#fb923c',
+    hud: false,
+    description: 'Entropy level at which an unstable galaxy goes supernova.'
+  }
+];
+
+export const PARAM_SPECS = Object.fromEntries(PARAM_SCHEMA.map(spec => [spec.key, spec])) as Record<ParamKey, ParamSpec>;
+
+export const PARAM_KEYS = PARAM_SCHEMA.map(spec => spec.key);
+
+export const DEFAULT_PARAMS = Object.fromEntries(
+  PARAM_SCHEMA.map(spec => [spec.key, spec.defaultValue])
+) as Record<ParamKey, number>;
+
+export const isParamKey = (value: unknown): value is ParamKey =>
+  typeof value === 'string' && value in PARAM_SPECS;
+
+export const clampParam = (key: ParamKey, value: number) => {
+  const { min, max } = PARAM_SPECS[key];
+  return Math.min(Math.max(value, min), max);
+};
+
+// Inputs (pinches, sticks, knobs, sliders) all produce 0..1; these map that onto a range
+export const toFraction = (key: ParamKey, value: number) => {
+  const { min, max } = PARAM_SPECS[key];
+  return max > min ? (clampParam(key, value) - min) / (max - min) : 0;
+};
+
+export const fromFraction = (key: ParamKey, fraction: number) => {
+  const { min, max, step } = PARAM_SPECS[key];
+  const value = min + Math.min(Math.max(fraction, 0), 1) * (max - min);
+  // Whole-number params (star count, degrees) stay whole
+  return step >= 1 ? Math.round(value / step) * step : value;
+};
+
+export const formatParam = (key: ParamKey, value: number) => {
+  switch (PARAM_SPECS[key].unit) {
+    case '%': return `${(value * 100).toFixed(0)}%`;
+    case 'x': return `${value.toFixed(2)}x`;
+    case 'deg': return `${value.toFixed(0)}°`;
+    case 'stars': return Math.round(value).toLocaleString();
+    default: return value.toFixed(2);
+  }
+};
@@ -0,0 +1,80 @@
+import { SimulationParams } from '../types';
+import { CameraPose, normalizeCamera } from '../simulation/camera';
+import { DEFAULT_PARAMS, PARAM_KEYS } from './paramSchema';
+
+const STORAGE_KEY = 'nebula.presets.v1';
+
+// Everything a preset restores: the simulation params minus the input bookkeeping
+export type PresetParams = Omit<SimulationParams, 'active'>;
+
+export const toPresetParams = ({ active, ...params }: SimulationParams): PresetParams => params;
+
+export interface Preset {
+  name: string;
+  params: PresetParams;
+  // The view it was saved with; presets from before the 3D view leave the camera alone
+  camera?: CameraPose;
+  savedAt: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Params may lack ones added later (they get defaults), but chaos and scale are always there
+// and whatever is present must be a number
+const isPresetParams = (value: unknown): value is Partial<PresetParams> =>
+  isRecord(value) &&
+  typeof value.chaos === 'number' &&
+  typeof value.scale === 'number' &&
+  PARAM_KEYS.every(key => value[key] === undefined || typeof value[key] === 'number');
+
+const isPreset = (value: unknown): value is Preset =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  isPresetParams(value.params) &&
+  (value.camera === undefined || (isRecord(value.camera) && (value.camera.mode === '2d' || value.camera.mode === '3d'))) &&
+  typeof value.savedAt === 'number';
+
+export const loadPresets = (): Preset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    // Presets saved before a param existed get its default
+    return Array.isArray(parsed)
+      ? parsed.filter(isPreset).map(preset => ({
+          ...preset,
+          params: { ...DEFAULT_PARAMS, ...preset.params },
+          camera: preset.camera ? normalizeCamera(preset.camera) : undefined
+        }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const storePresets = (presets: Preset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.warn("Could not persist presets:", err);
+  }
+};
+
+export const findPreset = (name: string): Preset | undefined => {
+  const key = name.trim().toLowerCase();
+  return loadPresets().find(preset => preset.name.toLowerCase() === key);
+};
+
+// Saving under an existing name (case-insensitive) replaces it. Returns the preset it replaced.
+export const savePreset = (preset: Preset): Preset | undefined => {
+  const key = preset.name.trim().toLowerCase();
+  const presets = loadPresets();
+  const previous = presets.find(p => p.name.toLowerCase() === key);
+  storePresets([...presets.filter(p => p !== previous), preset]);
+  return previous;
+};
+
+export const deletePreset = (name: string) => {
+  const key = name.trim().toLowerCase();
+  storePresets(loadPresets().filter(preset => preset.name.toLowerCase() !== key));
+};
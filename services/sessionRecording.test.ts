@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CALIBRATION } from './handCalibration';
+import { DEFAULT_GESTURE_MAPPING } from './gestureMapping';
+import { parseRecording, RECORDING_FORMAT, RECORDING_VERSION } from './sessionRecording';
+
+const hand = Array.from({ length: 21 }, (_, i) => ({ x: i / 21, y: 0.5, z: 0 }));
+const frame = (t: number) => ({ t, landmarks: [hand], handedness: [{ categoryName: 'Left', score: 0.9 }], params: {} });
+
+const recording = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    createdAt: 1000,
+    durationMs: 100,
+    calibration: { minSpan: 0.3, maxSpan: 1.5, palmWidth: 0.1, createdAt: 5 },
+    swapHandedness: true,
+    frames: [frame(0), frame(50), frame(100)],
+    ...overrides
+  });
+
+describe('parseRecording', () => {
+  it('reads a well-formed recording', () => {
+    const parsed = parseRecording(recording());
+    expect(parsed.durationMs).toBe(100);
+    expect(parsed.calibration.minSpan).toBe(0.3);
+    expect(parsed.swapHandedness).toBe(true);
+    expect(parsed.frames).toHaveLength(3);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(() => parseRecording(JSON.stringify({ format: 'something-else' }))).toThrow(/Not a Nebula/);
+    expect(() => parseRecording(recording({ version: RECORDING_VERSION + 1 }))).toThrow(/newer/);
+    expect(() => parseRecording(recording({ frames: 'none' }))).toThrow(/no frames/);
+  });
+
+  it('rejects hands without all 21 landmarks', () => {
+    expect(() => parseRecording(recording({ frames: [frame(0), { ...frame(10), landmarks: [[]] }] }))).toThrow(/frame 1/);
+    expect(() => parseRecording(recording({ frames: [{ ...frame(0), landmarks: [hand.slice(1)] }] }))).toThrow(/frame 0/);
+    const withNull = hand.map((point, i) => (i === 4 ? { ...point, x: null } : point));
+    expect(() => parseRecording(recording({ frames: [{ ...frame(0), landmarks: [withNull] }] }))).toThrow(/frame 0/);
+  });
+
+  it('accepts frames without hands', () => {
+    expect(parseRecording(recording({ frames: [{ ...frame(0), landmarks: [], handedness: [] }] })).frames).toHaveLength(1);
+  });
+
+  it('derives a missing or short duration from the last frame', () => {
+    expect(parseRecording(recording({ durationMs: undefined })).durationMs).toBe(100);
+    expect(parseRecording(recording({ durationMs: 'long' })).durationMs).toBe(100);
+    expect(parseRecording(recording({ durationMs: 20 })).durationMs).toBe(100);
+  });
+
+  it('falls back to the default calibration and mapping', () => {
+    const parsed = parseRecording(recording({ calibration: { minSpan: 2, maxSpan: 1 }, swapHandedness: 'yes' }));
+    expect(parsed.calibration).toEqual(DEFAULT_CALIBRATION);
+    expect(parsed.swapHandedness).toBe(false);
+    expect(parsed.gestureMapping).toEqual(DEFAULT_GESTURE_MAPPING);
+  });
+
+  it('keeps the gesture mapping it was recorded with', () => {
+    const gestureMapping = { ...DEFAULT_GESTURE_MAPPING, continuous: { ...DEFAULT_GESTURE_MAPPING.continuous, leftPinch: 'hueShift' } };
+    expect(parseRecording(recording({ gestureMapping })).gestureMapping).toEqual(gestureMapping);
+  });
+});
@@ -0,0 +1,291 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { CalibrationProfile, SimulationParams } from '../types';
+import { DEFAULT_CALIBRATION, isCalibrationProfile } from './handCalibration';
+import { downloadBlob, fileTimestamp } from './download';
+import { GesturePipeline } from './gesturePipeline';
+import { DEFAULT_GESTURE_MAPPING, GestureMapping, normalizeGestureMapping } from './gestureMapping';
+
+export const RECORDING_FORMAT = 'nebula-session';
+export const RECORDING_VERSION = 1;
+
+interface RecordedLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface RecordedHandedness {
+  categoryName: string;
+  score: number;
+}
+
+export interface RecordedFrame {
+  t: number; // ms since the recording started
+  landmarks: RecordedLandmark[][];
+  handedness: RecordedHandedness[];
+  params: Partial<SimulationParams>;
+}
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: number;
+  durationMs: number;
+  // The profile the pinch values were mapped with, so replays map identically
+  calibration: CalibrationProfile;
+  // Whether hands were swapped left/right while recording (older recordings: no)
+  swapHandedness?: boolean;
+  // Which gestures drove which params (older recordings: the default mapping)
+  gestureMapping?: GestureMapping;
+  frames: RecordedFrame[];
+}
+
+// MediaPipe hand landmark model
+const LANDMARKS_PER_HAND = 21;
+
+// Landmarks are stored at 4 decimals: well below tracking noise, and keeps files small
+const round = (value: number) => Math.round(value * 1e4) / 1e4;
+
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private startedAt: number | null = null;
+  private calibration: CalibrationProfile = DEFAULT_CALIBRATION;
+  private swapHandedness = false;
+  private gestureMapping: GestureMapping = DEFAULT_GESTURE_MAPPING;
+
+  isRecording() {
+    return this.startedAt !== null;
+  }
+
+  start(
+    calibration: CalibrationProfile,
+    swapHandedness = false,
+    gestureMapping: GestureMapping = DEFAULT_GESTURE_MAPPING,
+    now: number = performance.now()
+  ) {
+    this.frames = [];
+    this.calibration = calibration;
+    this.swapHandedness = swapHandedness;
+    this.gestureMapping = gestureMapping;
+    this.startedAt = now;
+  }
+
+  addFrame(result: HandLandmarkerResult, params: Partial<SimulationParams>, timestampMs: number) {
+    if (this.startedAt === null) return;
+    this.frames.push({
+      t: round(timestampMs - this.startedAt),
+      landmarks: (result.landmarks || []).map(hand => hand.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }))),
+      handedness: (result.handednesses || []).map(categories => ({
+        categoryName: categories[0]?.categoryName ?? '',
+        score: round(categories[0]?.score ?? 0)
+      })),
+      params
+    });
+  }
+
+  stop(): SessionRecording {
+    const recording: SessionRecording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      createdAt: Date.now(),
+      durationMs: this.frames.length > 0 ? this.frames[this.frames.length - 1].t : 0,
+      calibration: this.calibration,
+      swapHandedness: this.swapHandedness,
+      gestureMapping: this.gestureMapping,
+      frames: this.frames
+    };
+    this.startedAt = null;
+    this.frames = [];
+    return recording;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isLandmark = (value: unknown): value is RecordedLandmark =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+
+// The gesture maths indexes specific landmarks, so a hand has to have all of them
+const isHand = (value: unknown): value is RecordedLandmark[] =>
+  Array.isArray(value) && value.length === LANDMARKS_PER_HAND && value.every(isLandmark);
+
+const isHandedness = (value: unknown): value is RecordedHandedness =>
+  isRecord(value) && typeof value.categoryName === 'string' && typeof value.score === 'number';
+
+const isRecordedFrame = (value: unknown): value is RecordedFrame =>
+  isRecord(value) &&
+  isFiniteNumber(value.t) &&
+  value.t >= 0 &&
+  Array.isArray(value.landmarks) &&
+  value.landmarks.every(isHand) &&
+  Array.isArray(value.handedness) &&
+  value.handedness.every(isHandedness) &&
+  isRecord(value.params);
+
+export const parseRecording = (json: string): SessionRecording => {
+  const data = JSON.parse(json);
+  if (data?.format !== RECORDING_FORMAT) {
+    throw new Error("Not a Nebula session recording.");
+  }
+  if (data.version > RECORDING_VERSION) {
+    throw new Error(`Recording version ${data.version} is newer than this app supports (${RECORDING_VERSION}).`);
+  }
+  if (!Array.isArray(data.frames)) {
+    throw new Error("Recording has no frames.");
+  }
+  const bad = data.frames.findIndex((frame: unknown) => !isRecordedFrame(frame));
+  if (bad >= 0) {
+    throw new Error(`Recording frame ${bad} is malformed.`);
+  }
+  const frames = [...(data.frames as RecordedFrame[])].sort((a, b) => a.t - b.t);
+  const lastFrameAt = frames.length > 0 ? frames[frames.length - 1].t : 0;
+  // Anything missing or unusable falls back to what a recording without it would have meant
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    createdAt: isFiniteNumber(data.createdAt) ? data.createdAt : 0,
+    durationMs: isFiniteNumber(data.durationMs) && data.durationMs >= lastFrameAt ? data.durationMs : lastFrameAt,
+    calibration: isCalibrationProfile(data.calibration) ? data.calibration : DEFAULT_CALIBRATION,
+    swapHandedness: data.swapHandedness === true,
+    gestureMapping: normalizeGestureMapping(data.gestureMapping),
+    frames
+  };
+};
+
+export const downloadRecording = (recording: SessionRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  downloadBlob(blob, `nebula-session-${fileTimestamp(recording.createdAt)}.json`);
+};
+
+// Rebuild a HandLandmarkerResult for the gesture pipeline. World landmarks and visibility are
+// not recorded (nothing downstream reads them).
+const toResult = (frame: RecordedFrame): HandLandmarkerResult => {
+  const handedness = frame.handedness.map(h => [{ categoryName: h.categoryName, score: h.score, index: 0, displayName: h.categoryName }]);
+  return {
+    landmarks: frame.landmarks.map(hand => hand.map(({ x, y, z }) => ({ x, y, z, visibility: 0 }))),
+    worldLandmarks: [],
+    handedness,
+    handednesses: handedness
+  };
+};
+
+// Plays a recording back through a fresh GesturePipeline, so replays exercise the same
+// mapping and filtering as live input. Timestamps given to the pipeline are the recorded
+// ones, so the output does not depend on playback speed.
+export class SessionPlayer {
+  private pipeline: GesturePipeline;
+  private position = 0; // ms into the recording
+  private nextFrame = 0;
+  private speed = 1;
+  private playing = false;
+  private frameRequest = 0;
+  private lastTick = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    private recording: SessionRecording,
+    private onParams: (params: Partial<SimulationParams>) => void
+  ) {
+    this.pipeline = this.createPipeline();
+  }
+
+  getDuration() {
+    return this.recording.durationMs;
+  }
+
+  getPosition() {
+    return this.position;
+  }
+
+  getSpeed() {
+    return this.speed;
+  }
+
+  isPlaying() {
+    return this.playing;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.position >= this.recording.durationMs) this.seek(0);
+    this.playing = true;
+    this.lastTick = performance.now();
+    this.frameRequest = requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  pause() {
+    this.playing = false;
+    cancelAnimationFrame(this.frameRequest);
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = speed;
+    this.notify();
+  }
+
+  seek(positionMs: number) {
+    // Filters are stateful, so restart the pipeline and replay up to the target silently
+    this.pipeline = this.createPipeline();
+    this.position = Math.min(Math.max(positionMs, 0), this.recording.durationMs);
+    this.nextFrame = 0;
+    this.advanceTo(this.position);
+    this.notify();
+  }
+
+  dispose() {
+    this.pause();
+    this.listeners.clear();
+    this.onParams({ active: false });
+  }
+
+  private tick = (now: number) => {
+    if (!this.playing) return;
+    this.position += (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+
+    if (this.position >= this.recording.durationMs) {
+      this.position = this.recording.durationMs;
+      this.advanceTo(this.position);
+      this.pause();
+      this.onParams({ active: false });
+      return;
+    }
+
+    this.advanceTo(this.position);
+    this.notify();
+    this.frameRequest = requestAnimationFrame(this.tick);
+  };
+
+  private advanceTo(positionMs: number) {
+    const { frames } = this.recording;
+    let latest: Partial<SimulationParams> | null = null;
+    while (this.nextFrame < frames.length && frames[this.nextFrame].t <= positionMs) {
+      const frame = frames[this.nextFrame];
+      latest = this.pipeline.process(toResult(frame), frame.t);
+      this.nextFrame++;
+    }
+    // While a recording is loaded it stays in control even through stretches without hands
+    if (latest) this.onParams({ ...latest, active: true });
+  }
+
+  private createPipeline() {
+    const pipeline = new GesturePipeline(this.recording.calibration, this.recording.gestureMapping ?? DEFAULT_GESTURE_MAPPING);
+    pipeline.setSwapHandedness(this.recording.swapHandedness ?? false);
+    return pipeline;
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeShareHash, encodeShareHash, SharedState } from './shareLink';
+import { PARAM_SPECS } from './paramSchema';
+import { DEFAULT_PHYSICS } from '../simulation/galaxySimulation';
+import { DEFAULT_MORPHOLOGY, MAX_ARMS } from '../simulation/morphology';
+
+describe('share links', () => {
+  it('round-trips a galaxy', () => {
+    const state: SharedState = {
+      params: { chaos: 0.42, scale: 0.61, hueShift: 120 },
+      seed: 1712345678901,
+      physics: { ...DEFAULT_PHYSICS, mode: 'gravity', selfGravity: true },
+      morphology: { type: 'spiral', arms: 3, pitch: 20 },
+      camera: { mode: '3d', inclination: 55, azimuth: -20, distance: 1.5, thickness: 0.03 }
+    };
+    expect(decodeShareHash(encodeShareHash(state))).toEqual(state);
+  });
+
+  it('leaves out what was not shared', () => {
+    expect(encodeShareHash({ params: { chaos: 0.123456 } })).toBe('#chaos=0.123');
+    expect(decodeShareHash('#chaos=0.5')).toEqual({ params: { chaos: 0.5 } });
+    expect(decodeShareHash('')).toEqual({ params: {} });
+  });
+
+  it('clamps params and drops malformed ones', () => {
+    const { params } = decodeShareHash('#chaos=7&scale=abc&hueShift=&particleCount=-10&warp=3');
+    expect(params).toEqual({ chaos: PARAM_SPECS.chaos.max, particleCount: PARAM_SPECS.particleCount.min });
+  });
+
+  it('only accepts a safe-integer seed and known physics', () => {
+    expect(decodeShareHash('#seed=1.5').seed).toBeUndefined();
+    expect(decodeShareHash('#seed=1e300').seed).toBeUndefined();
+    expect(decodeShareHash('#physics=warp').physics).toBeUndefined();
+    expect(decodeShareHash('#physics=orbit&nbody=1').physics).toEqual({ ...DEFAULT_PHYSICS, mode: 'orbit', selfGravity: false });
+  });
+
+  it('normalizes the galaxy type and view', () => {
+    expect(decodeShareHash('#galaxy=blob').morphology).toBeUndefined();
+    expect(decodeShareHash('#galaxy=spiral&arms=40&pitch=x').morphology).toEqual({ type: 'spiral', arms: MAX_ARMS, pitch: DEFAULT_MORPHOLOGY.pitch });
+    expect(decodeShareHash('#view=2d').camera).toBeUndefined();
+    const camera = decodeShareHash('#view=3d&inc=200&az=370&dist=abc').camera;
+    expect(camera).toMatchObject({ mode: '3d', inclination: 89, azimuth: 10, distance: 1.5 });
+  });
+});
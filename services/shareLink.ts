@@ -0,0 +1,86 @@
+import { CameraPose, normalizeCamera } from '../simulation/camera';
+import { DEFAULT_PHYSICS, PhysicsSettings } from '../simulation/galaxySimulation';
+import { Morphology, MORPHOLOGY_TYPES, MorphologyType, normalizeMorphology } from '../simulation/morphology';
+import { PresetParams } from './presets';
+import { clampParam, PARAM_KEYS } from './paramSchema';
+
+// What a shared link restores: the same seed and physics rebuild the same galaxy, the params
+// put it in the same state. Encoded as a readable query string in the URL hash, e.g.
+//   #chaos=0.42&scale=0.61&seed=1712345678901&physics=gravity&nbody=1&galaxy=spiral&arms=3&pitch=20
+// A 3D view adds &view=3d&inc=55&az=-20&dist=1.5&thick=0.03.
+export interface SharedState {
+  params: Partial<PresetParams>;
+  seed?: number;
+  physics?: PhysicsSettings;
+  morphology?: Morphology;
+  camera?: CameraPose;
+}
+
+const PRECISION = 3;
+
+export const encodeShareHash = (state: SharedState): string => {
+  const query = new URLSearchParams();
+  (Object.keys(state.params) as (keyof PresetParams)[]).forEach(key => {
+    const value = state.params[key];
+    if (typeof value === 'number') query.set(key, String(Number(value.toFixed(PRECISION))));
+  });
+  if (state.seed !== undefined) query.set('seed', String(state.seed));
+  if (state.physics) {
+    query.set('physics', state.physics.mode);
+    if (state.physics.selfGravity) query.set('nbody', '1');
+  }
+  if (state.morphology) {
+    query.set('galaxy', state.morphology.type);
+    if (state.morphology.type === 'spiral' || state.morphology.type === 'barred') {
+      query.set('arms', String(state.morphology.arms));
+      query.set('pitch', String(Math.round(state.morphology.pitch)));
+    }
+  }
+  if (state.camera?.mode === '3d') {
+    query.set('view', '3d');
+    query.set('inc', String(Math.round(state.camera.inclination)));
+    query.set('az', String(Math.round(state.camera.azimuth)));
+    query.set('dist', String(Number(state.camera.distance.toFixed(2))));
+    query.set('thick', String(Number(state.camera.thickness.toFixed(PRECISION))));
+  }
+  return `#${query.toString()}`;
+};
+
+// Unknown or malformed entries are dropped and values are clamped to the schema ranges, so
+// old and hand-edited links still open.
+export const decodeShareHash = (hash: string): SharedState => {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const params: Partial<PresetParams> = {};
+  PARAM_KEYS.forEach(key => {
+    const raw = query.get(key);
+    const value = Number(raw);
+    if (raw && Number.isFinite(value)) params[key] = clampParam(key, value);
+  });
+
+  const state: SharedState = { params };
+  const seed = Number(query.get('seed'));
+  if (query.has('seed') && Number.isSafeInteger(seed)) state.seed = seed;
+  const mode = query.get('physics');
+  if (mode === 'orbit' || mode === 'gravity') {
+    state.physics = { ...DEFAULT_PHYSICS, mode, selfGravity: mode === 'gravity' && query.get('nbody') === '1' };
+  }
+  const galaxy = query.get('galaxy');
+  if (MORPHOLOGY_TYPES.includes(galaxy as MorphologyType)) {
+    state.morphology = normalizeMorphology({
+      type: galaxy as MorphologyType,
+      arms: query.has('arms') ? Number(query.get('arms')) : undefined,
+      pitch: query.has('pitch') ? Number(query.get('pitch')) : undefined
+    });
+  }
+  if (query.get('view') === '3d') {
+    const number = (key: string) => (query.has(key) ? Number(query.get(key)) : undefined);
+    state.camera = normalizeCamera({
+      mode: '3d',
+      inclination: number('inc'),
+      azimuth: number('az'),
+      distance: number('dist'),
+      thickness: number('thick')
+    });
+  }
+  return state;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import { DEFAULT_CAMERA } from '../simulation/camera';
+import { DEFAULT_MORPHOLOGY } from '../simulation/morphology';
+import { createSimulation, serializeSimulation } from '../simulation/galaxySimulation';
+import { readBody } from './sharedSession';
+import { PARAM_SPECS } from './paramSchema';
+
+const frame = { params: { chaos: 0.4, scale: 0.6, active: true }, state: SimulationState.UNSTABLE, camera: DEFAULT_CAMERA };
+const world = { seed: 42, physics: { mode: 'orbit', selfGravity: false }, morphology: DEFAULT_MORPHOLOGY, paused: false };
+
+describe('readBody', () => {
+  it('clamps frame params and fills in missing ones', () => {
+    const body = readBody({ type: 'frame', frame: { ...frame, params: { chaos: 7, scale: -1, hueShift: 'x' } } });
+    expect(body?.type).toBe('frame');
+    if (body?.type !== 'frame') return;
+    expect(body.frame.params.chaos).toBe(PARAM_SPECS.chaos.max);
+    expect(body.frame.params.scale).toBe(PARAM_SPECS.scale.min);
+    expect(body.frame.params.hueShift).toBe(PARAM_SPECS.hueShift.defaultValue);
+  });
+
+  it('drops frames with an unknown state', () => {
+    expect(readBody({ type: 'frame', frame: { ...frame, state: 'EXPLODED' } })).toBeNull();
+  });
+
+  it('normalizes the camera and morphology', () => {
+    const body = readBody({ type: 'snapshot', snapshot: { ...world, ...frame, camera: { mode: 'sideways' }, morphology: { type: 'blob' }, messages: [] } });
+    if (body?.type !== 'snapshot') throw new Error('expected a snapshot');
+    expect(body.snapshot.camera).toEqual(DEFAULT_CAMERA);
+    expect(body.snapshot.morphology).toEqual(DEFAULT_MORPHOLOGY);
+  });
+
+  it('requires a safe-integer seed and known physics', () => {
+    expect(readBody({ type: 'world', world: { ...world, seed: 1.5 } })).toBeNull();
+    expect(readBody({ type: 'world', world: { ...world, seed: '42' } })).toBeNull();
+    expect(readBody({ type: 'world', world: { ...world, physics: { mode: 'warp', selfGravity: false } } })).toBeNull();
+    expect(readBody({ type: 'world', world })).toEqual({ type: 'world', world });
+  });
+
+  it('keeps only well-formed chat messages', () => {
+    expect(readBody({ type: 'chat', message: { role: 'model', text: { html: '<b>' }, timestamp: 1 } })).toBeNull();
+    expect(readBody({ type: 'chat', message: { role: 'system', text: 'hi', timestamp: 1 } })).toBeNull();
+    const body = readBody({
+      type: 'snapshot',
+      snapshot: { ...world, ...frame, messages: [{ role: 'user', text: 'hello', timestamp: 1, extra: true }, null, { role: 'model', text: 2 }] }
+    });
+    if (body?.type !== 'snapshot') throw new Error('expected a snapshot');
+    expect(body.snapshot.messages).toEqual([{ role: 'user', text: 'hello', timestamp: 1 }]);
+  });
+
+  it('passes the particles of a snapshot through, and drops malformed ones', () => {
+    const simulation = JSON.parse(JSON.stringify(serializeSimulation(createSimulation(42, 20))));
+    const good = readBody({ type: 'snapshot', snapshot: { ...world, ...frame, messages: [], simulation } });
+    if (good?.type !== 'snapshot') throw new Error('expected a snapshot');
+    expect(good.snapshot.simulation).toEqual(simulation);
+
+    const broken = { ...simulation, fields: { ...simulation.fields, x: ['a'] } };
+    const bad = readBody({ type: 'snapshot', snapshot: { ...world, ...frame, messages: [], simulation: broken } });
+    if (bad?.type !== 'snapshot') throw new Error('expected a snapshot');
+    expect(bad.snapshot.simulation).toBeUndefined();
+  });
+
+  it('checks presence and ignores unknown message types', () => {
+    expect(readBody({ type: 'hello', name: 'Ada', role: 'controller', since: 5 })).toEqual({ type: 'hello', name: 'Ada', role: 'controller', since: 5 });
+    expect(readBody({ type: 'presence', name: 'Ada', role: 'admin', since: 5 })).toBeNull();
+    expect(readBody({ type: 'handoff' })).toBeNull();
+    expect(readBody({ type: 'shutdown' })).toBeNull();
+    expect(readBody('frame')).toBeNull();
+  });
+});
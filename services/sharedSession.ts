@@ -0,0 +1,587 @@
+import { ChatAction, ChatMessage, SimulationParams, SimulationState } from '../types';
+import { CameraPose, normalizeCamera } from '../simulation/camera';
+import { PhysicsSettings, SerializedSimulation } from '../simulation/galaxySimulation';
+import { Morphology, normalizeMorphology } from '../simulation/morphology';
+import { clampParam, DEFAULT_PARAMS, PARAM_KEYS } from './paramSchema';
+
+const STORAGE_KEY = 'nebula.sharedSession.v1';
+
+// One person drives the galaxy, everyone else in the room watches the same one. Tabs on one
+// machine talk over a BroadcastChannel; across machines messages go through the relay in
+// server/relay.mjs, which only forwards them. Everything else (roles, handoff, catching up
+// late joiners) is agreed between the clients with the messages below.
+
+export type SessionRole = 'controller' | 'spectator';
+
+export type SessionTransportKind = 'local' | 'relay';
+
+export interface SharedSessionSettings {
+  name: string;
+  room: string;
+  // Role to join with; a second controller in the room steps down to spectator
+  role: SessionRole;
+  transport: SessionTransportKind;
+  relayUrl: string;
+}
+
+export const DEFAULT_SHARED_SESSION_SETTINGS: SharedSessionSettings = {
+  name: '',
+  room: 'nebula',
+  role: 'spectator',
+  transport: 'local',
+  relayUrl: 'ws://localhost:8787'
+};
+
+// Changes rarely: a different seed or physics rebuilds the galaxy on spectators
+export interface SessionWorld {
+  seed: number;
+  physics: PhysicsSettings;
+  morphology: Morphology;
+  paused: boolean;
+}
+
+// What the controller streams continuously
+export interface SessionFrame {
+  params: SimulationParams;
+  state: SimulationState;
+  camera: CameraPose;
+}
+
+// Everything a late joiner needs to show the same galaxy
+export interface SessionSnapshot extends SessionWorld, SessionFrame {
+  messages: ChatMessage[];
+  // The particles as they are now; without them the joiner starts over from the seed
+  simulation?: SerializedSimulation;
+}
+
+type SyncBody =
+  | { type: 'hello'; name: string; role: SessionRole; since: number }
+  | { type: 'presence'; name: string; role: SessionRole; since: number }
+  | { type: 'bye' }
+  | { type: 'snapshot'; snapshot: SessionSnapshot }
+  | { type: 'frame'; frame: SessionFrame }
+  | { type: 'world'; world: SessionWorld }
+  | { type: 'chat'; message: ChatMessage }
+  | { type: 'requestControl' }
+  | { type: 'handoff'; to: string };
+
+interface SyncEnvelope {
+  from: string;
+  // Only meant for this peer; everyone else ignores it
+  to?: string;
+  body: SyncBody;
+}
+
+// Anyone on the relay, or a peer running another version, can send anything: every message is
+// checked and brought into range here, before the app sees it. Malformed messages are dropped.
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isRole = (value: unknown): value is SessionRole => value === 'controller' || value === 'spectator';
+
+const isSimulationState = (value: unknown): value is SimulationState => Object.values<unknown>(SimulationState).includes(value);
+
+// Missing or non-numeric params get their defaults, the rest are clamped to the schema ranges
+const readParams = (value: Record<string, unknown>): SimulationParams => {
+  const params: SimulationParams = { ...DEFAULT_PARAMS, active: value.active === true };
+  PARAM_KEYS.forEach(key => {
+    const raw = value[key];
+    if (typeof raw === 'number' && Number.isFinite(raw)) params[key] = clampParam(key, raw);
+  });
+  return params;
+};
+
+const readFrame = (value: unknown): SessionFrame | null => {
+  if (!isRecord(value) || !isRecord(value.params) || !isSimulationState(value.state)) return null;
+  return {
+    params: readParams(value.params),
+    state: value.state,
+    camera: normalizeCamera(isRecord(value.camera) ? value.camera : null)
+  };
+};
+
+const readPhysics = (value: unknown): PhysicsSettings | null =>
+  isRecord(value) && (value.mode === 'orbit' || value.mode === 'gravity') && typeof value.selfGravity === 'boolean'
+    ? { mode: value.mode, selfGravity: value.selfGravity }
+    : null;
+
+const readWorld = (value: unknown): SessionWorld | null => {
+  if (!isRecord(value) || !Number.isSafeInteger(value.seed) || typeof value.paused !== 'boolean') return null;
+  const physics = readPhysics(value.physics);
+  if (!physics) return null;
+  return {
+    seed: value.seed as number,
+    physics,
+    morphology: normalizeMorphology(isRecord(value.morphology) ? value.morphology : null),
+    paused: value.paused
+  };
+};
+
+const readAction = (value: unknown): ChatAction | null =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.summary === 'string'
+    ? { id: value.id, summary: value.summary, undone: value.undone === true }
+    : null;
+
+// Only the fields the chat shows, each checked
+const readChatMessage = (value: unknown): ChatMessage | null => {
+  if (!isRecord(value) || (value.role !== 'user' && value.role !== 'model') || typeof value.text !== 'string' || !Number.isFinite(value.timestamp)) {
+    return null;
+  }
+  const message: ChatMessage = { role: value.role, text: value.text, timestamp: value.timestamp as number };
+  if (isRecord(value.params)) message.params = readParams(value.params);
+  if (value.cancelled === true) message.cancelled = true;
+  if (Array.isArray(value.actions)) message.actions = value.actions.map(readAction).filter((action): action is ChatAction => action !== null);
+  if (typeof value.provider === 'string') message.provider = value.provider;
+  if (Array.isArray(value.skipped)) message.skipped = value.skipped.filter((reason): reason is string => typeof reason === 'string');
+  return message;
+};
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'number' && Number.isFinite(item));
+
+// Shapes and numbers only; deserializeSimulation checks the array lengths against the count
+const readSimulation = (value: unknown): SerializedSimulation | null => {
+  if (!isRecord(value) || value.version !== 1 || !Number.isSafeInteger(value.seed) || !Number.isSafeInteger(value.count)) return null;
+  if (![value.rngState, value.time, value.coreJitter].every(Number.isFinite)) return null;
+  const physics = readPhysics(value.physics);
+  const { effect, morph, fields } = value;
+  const effectOk = effect === null || (isRecord(effect) && isSimulationState(effect.state) && Number.isFinite(effect.elapsedMs) && Number.isFinite(effect.durationMs));
+  const morphOk = morph === null || morph === undefined ||
+    (isRecord(morph) && isNumberArray(morph.fromX) && isNumberArray(morph.fromY) && Number.isFinite(morph.elapsedMs) && Number.isFinite(morph.durationMs));
+  if (!physics || !effectOk || !morphOk || !isRecord(fields) || !Object.values(fields).every(isNumberArray) || !isNumberArray(value.color)) return null;
+  return {
+    ...(value as unknown as SerializedSimulation),
+    physics,
+    morphology: normalizeMorphology(isRecord(value.morphology) ? value.morphology : null)
+  };
+};
+
+const readSnapshot = (value: unknown): SessionSnapshot | null => {
+  const world = readWorld(value);
+  const frame = readFrame(value);
+  if (!world || !frame || !isRecord(value) || !Array.isArray(value.messages)) return null;
+  const simulation = readSimulation(value.simulation);
+  return {
+    ...world,
+    ...frame,
+    messages: value.messages.map(readChatMessage).filter((message): message is ChatMessage => message !== null),
+    ...(simulation && { simulation })
+  };
+};
+
+const readPresence = (value: Record<string, unknown>) =>
+  typeof value.name === 'string' && isRole(value.role) && Number.isFinite(value.since)
+    ? { name: value.name, role: value.role, since: value.since as number }
+    : null;
+
+export const readBody = (value: unknown): SyncBody | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case 'hello':
+    case 'presence': {
+      const presence = readPresence(value);
+      return presence && { type: value.type, ...presence };
+    }
+    case 'bye':
+    case 'requestControl':
+      return { type: value.type };
+    case 'snapshot': {
+      const snapshot = readSnapshot(value.snapshot);
+      return snapshot && { type: 'snapshot', snapshot };
+    }
+    case 'frame': {
+      const frame = readFrame(value.frame);
+      return frame && { type: 'frame', frame };
+    }
+    case 'world': {
+      const world = readWorld(value.world);
+      return world && { type: 'world', world };
+    }
+    case 'chat': {
+      const message = readChatMessage(value.message);
+      return message && { type: 'chat', message };
+    }
+    case 'handoff':
+      return typeof value.to === 'string' ? { type: 'handoff', to: value.to } : null;
+    default:
+      return null;
+  }
+};
+
+const readEnvelope = (value: unknown): SyncEnvelope | null => {
+  if (!isRecord(value) || typeof value.from !== 'string' || (value.to !== undefined && typeof value.to !== 'string')) return null;
+  const body = readBody(value.body);
+  return body && { from: value.from, to: value.to as string | undefined, body };
+};
+
+export type TransportStatus = 'connecting' | 'open' | 'closed';
+
+interface SyncTransport {
+  send(envelope: SyncEnvelope): void;
+  close(): void;
+}
+
+const createLocalTransport = (
+  room: string,
+  onMessage: (data: unknown) => void,
+  onStatus: (status: TransportStatus) => void
+): SyncTransport => {
+  if (typeof BroadcastChannel === 'undefined') throw new Error("This browser cannot sync tabs (no BroadcastChannel).");
+  const channel = new BroadcastChannel(`nebula-session:${room}`);
+  channel.onmessage = event => onMessage(event.data);
+  onStatus('open');
+  return {
+    send: envelope => channel.postMessage(envelope),
+    close: () => {
+      channel.close();
+      onStatus('closed');
+    }
+  };
+};
+
+const createRelayTransport = (
+  url: string,
+  room: string,
+  onMessage: (data: unknown) => void,
+  onStatus: (status: TransportStatus) => void
+): SyncTransport => {
+  const target = new URL(url);
+  target.searchParams.set('room', room);
+  const socket = new WebSocket(target);
+  // Anything sent before the socket opens (the hello) goes out once it does
+  const queue: string[] = [];
+  onStatus('connecting');
+  socket.onopen = () => {
+    onStatus('open');
+    queue.splice(0).forEach(data => socket.send(data));
+  };
+  socket.onclose = () => onStatus('closed');
+  socket.onmessage = event => {
+    try {
+      onMessage(JSON.parse(event.data as string));
+    } catch (err) {
+      console.warn("Ignoring malformed session message:", err);
+    }
+  };
+  return {
+    send: envelope => {
+      const data = JSON.stringify(envelope);
+      if (socket.readyState === WebSocket.OPEN) socket.send(data);
+      else if (socket.readyState === WebSocket.CONNECTING) queue.push(data);
+    },
+    close: () => socket.close()
+  };
+};
+
+export interface SessionPeer {
+  id: string;
+  name: string;
+  role: SessionRole;
+  // When it became controller (0 for spectators); the earliest controller wins if two claim the room
+  since: number;
+  lastSeen: number;
+}
+
+export interface SharedSessionStatus {
+  transport: TransportStatus;
+  role: SessionRole;
+  peers: SessionPeer[];
+  // Spectators who asked the controller for control
+  requests: string[];
+}
+
+export interface SharedSessionHandlers {
+  // Controller side: the current state, read when streaming and when someone joins
+  getFrame: () => SessionFrame;
+  getSnapshot: () => Promise<SessionSnapshot>;
+  // Spectator side
+  onFrame: (frame: SessionFrame) => void;
+  onWorld: (world: SessionWorld) => void;
+  // Late joiners: carry on from the controller's particles
+  onSimulation: (simulation: SerializedSimulation) => void;
+  // From anyone in the room
+  onChat: (message: ChatMessage) => void;
+}
+
+// The controller sends at most this often, and at least once a second so spectators know
+// it is still there
+const FRAME_INTERVAL_MS = 66;
+const FRAME_KEEPALIVE_MS = 1000;
+const PRESENCE_INTERVAL_MS = 2000;
+// A peer that has not been heard from for this long is considered gone
+const PEER_TIMEOUT_MS = 6000;
+
+const createPeerId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Earlier `since` wins; the id breaks ties so both sides agree
+const outranks = (a: { id: string; since: number }, b: { id: string; since: number }) =>
+  a.since < b.since || (a.since === b.since && a.id < b.id);
+
+export class SharedSession {
+  readonly id = createPeerId();
+  private transport: SyncTransport;
+  private transportStatus: TransportStatus = 'connecting';
+  // Bumped on every (re)connect so a dropped transport cannot report into its replacement
+  private connection = 0;
+  private role: SessionRole;
+  private since: number;
+  private peers = new Map<string, SessionPeer>();
+  private requests = new Set<string>();
+  private listeners = new Set<(status: SharedSessionStatus) => void>();
+  private frameTimer: number;
+  private presenceTimer: number;
+  private lastFrameKey = '';
+  private lastFrameAt = 0;
+
+  constructor(private settings: SharedSessionSettings, private handlers: SharedSessionHandlers) {
+    this.role = settings.role;
+    this.since = settings.role === 'controller' ? Date.now() : 0;
+    this.connect();
+    this.frameTimer = window.setInterval(() => this.streamFrame(), FRAME_INTERVAL_MS);
+    this.presenceTimer = window.setInterval(() => {
+      this.send({ type: 'presence', ...this.presence() });
+      this.prunePeers();
+    }, PRESENCE_INTERVAL_MS);
+  }
+
+  getStatus(): SharedSessionStatus {
+    return {
+      transport: this.transportStatus,
+      role: this.role,
+      peers: [...this.peers.values()],
+      requests: [...this.requests]
+    };
+  }
+
+  getRole(): SessionRole {
+    return this.role;
+  }
+
+  subscribe(listener: (status: SharedSessionStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Controller only: seed, physics, galaxy type or pause changed
+  publishWorld(world: SessionWorld) {
+    if (this.role === 'controller') this.send({ type: 'world', world });
+  }
+
+  publishChat(message: ChatMessage) {
+    this.send({ type: 'chat', message });
+  }
+
+  // Whether some other peer currently holds control
+  hasController(): boolean {
+    return [...this.peers.values()].some(peer => peer.role === 'controller');
+  }
+
+  requestControl() {
+    if (this.role === 'spectator') this.send({ type: 'requestControl' });
+  }
+
+  // Spectator only, when nobody is in control (the controller left)
+  takeControl() {
+    if (this.role === 'spectator' && !this.hasController()) this.becomeController();
+  }
+
+  // Controller only: pass control to a spectator
+  handOff(peerId: string) {
+    if (this.role !== 'controller' || !this.peers.has(peerId)) return;
+    this.send({ type: 'handoff', to: peerId });
+    this.becomeSpectator();
+  }
+
+  dismissRequest(peerId: string) {
+    this.requests.delete(peerId);
+    this.notify();
+  }
+
+  // After the relay connection dropped: open a new one and introduce ourselves to the room again
+  reconnect() {
+    if (this.transportStatus !== 'closed') return;
+    this.transport.close();
+    this.connect();
+  }
+
+  leave() {
+    this.send({ type: 'bye' });
+    window.clearInterval(this.frameTimer);
+    window.clearInterval(this.presenceTimer);
+    this.transport.close();
+    this.listeners.clear();
+  }
+
+  private connect() {
+    const connection = ++this.connection;
+    const onMessage = (data: unknown) => {
+      if (connection !== this.connection) return;
+      const envelope = readEnvelope(data);
+      if (envelope) this.receive(envelope);
+      else console.warn("Ignoring malformed session message:", data);
+    };
+    const onStatus = (status: TransportStatus) => {
+      if (connection !== this.connection) return;
+      this.transportStatus = status;
+      this.notify();
+    };
+    this.transport = this.settings.transport === 'relay'
+      ? createRelayTransport(this.settings.relayUrl, this.settings.room, onMessage, onStatus)
+      : createLocalTransport(this.settings.room, onMessage, onStatus);
+    this.send({ type: 'hello', ...this.presence() });
+  }
+
+  private presence() {
+    return { name: this.settings.name || 'Anonymous', role: this.role, since: this.since };
+  }
+
+  private send(body: SyncBody, to?: string) {
+    try {
+      this.transport.send({ from: this.id, to, body });
+    } catch (err) {
+      console.warn("Could not send session message:", err);
+    }
+  }
+
+  private receive({ from, to, body }: SyncEnvelope) {
+    if (from === this.id || (to && to !== this.id)) return;
+    switch (body.type) {
+      case 'hello':
+      case 'presence': {
+        const previous = this.peers.get(from);
+        this.peers.set(from, { id: from, name: body.name, role: body.role, since: body.since, lastSeen: Date.now() });
+        if (body.type === 'hello') {
+          // Introduce ourselves, and bring the newcomer up to date
+          this.send({ type: 'presence', ...this.presence() }, from);
+          if (this.role === 'controller') this.sendSnapshot(from);
+        }
+        if (body.role === 'controller' && this.role === 'controller' && outranks({ id: from, since: body.since }, { id: this.id, since: this.since })) {
+          this.becomeSpectator();
+        }
+        // Heartbeats only matter to the UI when they change something
+        if (!previous || previous.role !== body.role || previous.name !== body.name) this.notify();
+        break;
+      }
+      case 'bye':
+        this.peers.delete(from);
+        this.requests.delete(from);
+        this.notify();
+        break;
+      case 'snapshot':
+        if (this.role !== 'spectator') break;
+        this.handlers.onWorld(body.snapshot);
+        this.handlers.onFrame(body.snapshot);
+        if (body.snapshot.simulation) this.handlers.onSimulation(body.snapshot.simulation);
+        body.snapshot.messages.forEach(message => this.handlers.onChat(message));
+        break;
+      case 'frame':
+        this.touch(from);
+        if (this.role === 'spectator') this.handlers.onFrame(body.frame);
+        break;
+      case 'world':
+        if (this.role === 'spectator') this.handlers.onWorld(body.world);
+        break;
+      case 'chat':
+        this.handlers.onChat(body.message);
+        break;
+      case 'requestControl':
+        if (this.role !== 'controller') break;
+        this.requests.add(from);
+        this.notify();
+        break;
+      case 'handoff': {
+        const previous = this.peers.get(from);
+        if (previous) previous.role = 'spectator';
+        if (body.to === this.id) this.becomeController();
+        else this.notify();
+        break;
+      }
+    }
+  }
+
+  private becomeController() {
+    this.role = 'controller';
+    this.since = Date.now();
+    this.requests.clear();
+    this.send({ type: 'presence', ...this.presence() });
+    // Resynchronize everyone from the new source of truth
+    this.sendSnapshot();
+    this.notify();
+  }
+
+  private sendSnapshot(to?: string) {
+    this.handlers.getSnapshot().then(
+      snapshot => this.send({ type: 'snapshot', snapshot }, to),
+      err => console.warn("Could not take a session snapshot:", err)
+    );
+  }
+
+  private becomeSpectator() {
+    this.role = 'spectator';
+    this.since = 0;
+    this.requests.clear();
+    this.send({ type: 'presence', ...this.presence() });
+    this.notify();
+  }
+
+  private streamFrame() {
+    if (this.role !== 'controller' || this.transportStatus !== 'open') return;
+    const frame = this.handlers.getFrame();
+    const key = JSON.stringify(frame);
+    const now = Date.now();
+    if (key === this.lastFrameKey && now - this.lastFrameAt < FRAME_KEEPALIVE_MS) return;
+    this.lastFrameKey = key;
+    this.lastFrameAt = now;
+    this.send({ type: 'frame', frame });
+  }
+
+  private touch(peerId: string) {
+    const peer = this.peers.get(peerId);
+    if (peer) peer.lastSeen = Date.now();
+  }
+
+  private prunePeers() {
+    const cutoff = Date.now() - PEER_TIMEOUT_MS;
+    let changed = false;
+    this.peers.forEach(peer => {
+      if (peer.lastSeen >= cutoff) return;
+      this.peers.delete(peer.id);
+      this.requests.delete(peer.id);
+      changed = true;
+    });
+    if (changed) this.notify();
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const loadSharedSessionSettings = (): SharedSessionSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SHARED_SESSION_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<SharedSessionSettings>;
+    return {
+      name: typeof parsed.name === 'string' ? parsed.name : DEFAULT_SHARED_SESSION_SETTINGS.name,
+      room: typeof parsed.room === 'string' && parsed.room ? parsed.room : DEFAULT_SHARED_SESSION_SETTINGS.room,
+      role: parsed.role === 'controller' ? 'controller' : 'spectator',
+      transport: parsed.transport === 'relay' ? 'relay' : 'local',
+      relayUrl: typeof parsed.relayUrl === 'string' && parsed.relayUrl ? parsed.relayUrl : DEFAULT_SHARED_SESSION_SETTINGS.relayUrl
+    };
+  } catch {
+    return DEFAULT_SHARED_SESSION_SETTINGS;
+  }
+};
+
+export const saveSharedSessionSettings = (settings: SharedSessionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist shared session settings:", err);
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { applyDeadZone, HoldDecay, OneEuroFilter } from './signalFilter';
+
+describe('OneEuroFilter', () => {
+  it('passes the first value through and holds a steady one', () => {
+    const filter = new OneEuroFilter();
+    expect(filter.filter(0.4, 0)).toBe(0.4);
+    for (let t = 16; t < 1000; t += 16) expect(filter.filter(0.4, t)).toBeCloseTo(0.4);
+  });
+
+  it('smooths jitter around a resting value', () => {
+    const filter = new OneEuroFilter();
+    let worst = 0;
+    for (let i = 0, t = 0; i < 120; i++, t += 16) {
+      const raw = 0.5 + (i % 2 === 0 ? 0.05 : -0.05);
+      if (i > 30) worst = Math.max(worst, Math.abs(filter.filter(raw, t) - 0.5));
+      else filter.filter(raw, t);
+    }
+    expect(worst).toBeLessThan(0.02);
+  });
+
+  it('catches up with a step, and starts again after a reset', () => {
+    const filter = new OneEuroFilter();
+    filter.filter(0, 0);
+    let value = 0;
+    for (let t = 16; t <= 2000; t += 16) value = filter.filter(1, t);
+    expect(value).toBeGreaterThan(0.99);
+    filter.reset();
+    expect(filter.filter(0.2, 3000)).toBe(0.2);
+  });
+});
+
+describe('applyDeadZone', () => {
+  it('snaps the ends and stretches the middle back to 0..1', () => {
+    expect(applyDeadZone(0.03, 0.05)).toBe(0);
+    expect(applyDeadZone(0.97, 0.05)).toBe(1);
+    expect(applyDeadZone(0.5, 0.05)).toBeCloseTo(0.5);
+    expect(applyDeadZone(0.1, 0.05)).toBeCloseTo(0.05 / 0.9);
+  });
+});
+
+describe('HoldDecay', () => {
+  it('holds the last value, then eases back to rest and settles', () => {
+    const hold = new HoldDecay(0.2, 800, 1200);
+    expect(hold.lost(0)).toBeNull();
+    expect(hold.track(0.9)).toBe(0.9);
+    expect(hold.lost(1000)).toBe(0.9);
+    expect(hold.lost(1700)).toBe(0.9);
+    const decaying = hold.lost(2400)!;
+    expect(decaying).toBeLessThan(0.9);
+    expect(decaying).toBeGreaterThan(0.2);
+    expect(hold.lost(20000)).toBeNull();
+  });
+
+  it('starts a fresh hold once the signal comes back', () => {
+    const hold = new HoldDecay(0, 500);
+    hold.track(1);
+    hold.lost(0);
+    hold.lost(400);
+    hold.track(0.6);
+    expect(hold.lost(1000)).toBe(0.6);
+    expect(hold.lost(1400)).toBe(0.6);
+  });
+});
@@ -0,0 +1,96 @@
+// Small signal-conditioning toolkit for noisy tracking input.
+
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed,
+// so slow movements are smoothed heavily while fast ones stay responsive.
+export class OneEuroFilter {
+  private prevValue: number | null = null;
+  private prevDerivative = 0;
+  private prevTime = 0;
+
+  constructor(
+    private minCutoff: number = 1.0, // Hz; lower = smoother at rest
+    private beta: number = 0.02, // how quickly the cutoff grows with speed
+    private derivativeCutoff: number = 1.0
+  ) {}
+
+  private static alpha(cutoff: number, dt: number) {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  filter(value: number, timestampMs: number): number {
+    if (this.prevValue === null) {
+      this.prevValue = value;
+      this.prevTime = timestampMs;
+      return value;
+    }
+
+    // Guard against duplicate timestamps; assume ~60fps
+    const dt = Math.max((timestampMs - this.prevTime) / 1000, 1 / 120);
+    this.prevTime = timestampMs;
+
+    const derivative = (value - this.prevValue) / dt;
+    const aD = OneEuroFilter.alpha(this.derivativeCutoff, dt);
+    const smoothedDerivative = aD * derivative + (1 - aD) * this.prevDerivative;
+    this.prevDerivative = smoothedDerivative;
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(smoothedDerivative);
+    const a = OneEuroFilter.alpha(cutoff, dt);
+    const filtered = a * value + (1 - a) * this.prevValue;
+    this.prevValue = filtered;
+    return filtered;
+  }
+
+  reset() {
+    this.prevValue = null;
+    this.prevDerivative = 0;
+  }
+}
+
+// Snap the ends of a 0..1 range so "fully closed" and "fully open" are easy to hit,
+// and stretch the remaining span back to 0..1.
+export const applyDeadZone = (value: number, deadZone: number): number => {
+  if (value <= deadZone) return 0;
+  if (value >= 1 - deadZone) return 1;
+  return (value - deadZone) / (1 - 2 * deadZone);
+};
+
+// Keeps the last value for `holdMs` after the signal is lost, then eases it back to `rest`.
+export class HoldDecay {
+  private value: number | null = null;
+  private lostAt: number | null = null;
+  private lostValue = 0;
+
+  constructor(
+    private rest: number,
+    private holdMs: number = 800,
+    private decayMs: number = 1200 // exponential time constant once the hold expires
+  ) {}
+
+  // Signal present: pass the value through
+  track(value: number): number {
+    this.value = value;
+    this.lostAt = null;
+    return value;
+  }
+
+  // Signal missing: returns the held/decaying value, or null once it has settled at rest
+  lost(nowMs: number): number | null {
+    if (this.value === null) return null;
+    if (this.lostAt === null) {
+      this.lostAt = nowMs;
+      this.lostValue = this.value;
+    }
+
+    const elapsed = nowMs - this.lostAt;
+    if (elapsed < this.holdMs) return this.value;
+
+    const decayed = this.rest + (this.lostValue - this.rest) * Math.exp(-(elapsed - this.holdMs) / this.decayMs);
+    if (Math.abs(decayed - this.rest) < 0.005) {
+      this.value = null;
+      return null;
+    }
+    this.value = decayed;
+    return decayed;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SimulationParams, SimulationState } from '../types';
+import { DEFAULT_PARAMS } from './paramSchema';
+import { SimulationStateMachine } from './simulationStateMachine';
+
+const params = (chaos: number, scale = 0.5): SimulationParams => ({ ...DEFAULT_PARAMS, chaos, scale, active: true });
+
+// Feeds the same params every 50ms over [from, to]; returns the state at the end
+const hold = (machine: SimulationStateMachine, values: SimulationParams, from: number, to: number) => {
+  for (let t = from; t <= to; t += 50) machine.update(values, t);
+  return machine.getState();
+};
+
+describe('SimulationStateMachine', () => {
+  it('ignores a single-frame spike', () => {
+    const machine = new SimulationStateMachine(0);
+    hold(machine, params(0.1), 0, 1000);
+    machine.update(params(0.9), 1050);
+    expect(hold(machine, params(0.1), 1100, 2000)).toBe(SimulationState.STABLE);
+  });
+
+  it('waits out the dwell time and a confirmation before changing state', () => {
+    const machine = new SimulationStateMachine(0);
+    expect(hold(machine, params(0.6), 0, 700)).toBe(SimulationState.STABLE);
+    expect(hold(machine, params(0.6), 750, 1000)).toBe(SimulationState.UNSTABLE);
+  });
+
+  it('uses different thresholds to enter and leave a state', () => {
+    const machine = new SimulationStateMachine(0);
+    hold(machine, params(0.6), 0, 1000);
+    expect(hold(machine, params(0.45), 1050, 4000)).toBe(SimulationState.UNSTABLE);
+    expect(hold(machine, params(0.3), 4050, 5000)).toBe(SimulationState.STABLE);
+    expect(hold(machine, params(0.5), 5050, 7000)).toBe(SimulationState.STABLE);
+  });
+
+  it('collapses when the gravity well gets small', () => {
+    const machine = new SimulationStateMachine(0);
+    expect(hold(machine, params(0.1, 0.1), 0, 1000)).toBe(SimulationState.COLLAPSING);
+    expect(hold(machine, params(0.1, 0.2), 1050, 4000)).toBe(SimulationState.COLLAPSING);
+    expect(hold(machine, params(0.1, 0.3), 4050, 5000)).toBe(SimulationState.STABLE);
+  });
+
+  it('goes supernova once per build-up', () => {
+    const machine = new SimulationStateMachine(0);
+    hold(machine, params(0.6), 0, 1000);
+    expect(hold(machine, params(0.9), 1050, 2500)).toBe(SimulationState.SUPERNOVA);
+    // Burns out into UNSTABLE and doesn't fire again while chaos stays high
+    expect(hold(machine, params(0.9), 2550, 10000)).toBe(SimulationState.UNSTABLE);
+    // Calming down re-arms it
+    hold(machine, params(0.3), 10050, 11500);
+    hold(machine, params(0.6), 11550, 13000);
+    expect(hold(machine, params(0.9), 13050, 15000)).toBe(SimulationState.SUPERNOVA);
+  });
+
+  it('notifies listeners, and keeps going when one of them throws', () => {
+    const machine = new SimulationStateMachine(0);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    machine.subscribe(() => {
+      throw new Error('boom');
+    });
+    const unsubscribe = machine.subscribe(listener);
+    machine.restore(SimulationState.COLLAPSING, 500);
+    expect(listener).toHaveBeenCalledWith({ from: SimulationState.STABLE, to: SimulationState.COLLAPSING, timestamp: 500, dwellMs: 500 });
+    unsubscribe();
+    machine.restore(SimulationState.STABLE, 600);
+    expect(listener).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('holds a restored state for its dwell time', () => {
+    const machine = new SimulationStateMachine(0);
+    machine.restore(SimulationState.SUPERNOVA, 0);
+    expect(hold(machine, params(0.1), 0, 3900)).toBe(SimulationState.SUPERNOVA);
+    expect(hold(machine, params(0.1), 3950, 4500)).toBe(SimulationState.STABLE);
+  });
+
+  it('mirrors a followed state instead of deriving one', () => {
+    const machine = new SimulationStateMachine(0);
+    machine.follow(SimulationState.UNSTABLE, 0);
+    expect(hold(machine, params(0.1), 0, 5000)).toBe(SimulationState.UNSTABLE);
+    machine.follow(null);
+    expect(hold(machine, params(0.1), 5050, 7000)).toBe(SimulationState.STABLE);
+  });
+});
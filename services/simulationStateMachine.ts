@@ -0,0 +1,139 @@
+import { SimulationParams, SimulationState, StateTransition } from '../types';
+
+export type StateTransitionListener = (transition: StateTransition) => void;
+
+// Enter/exit thresholds are deliberately different (hysteresis) so a hand hovering
+// around a boundary doesn't make the galaxy flap between two states every frame.
+// The supernova threshold is a param (supernovaThreshold) rather than a constant.
+const THRESHOLDS = {
+  unstableEnter: 0.55,
+  unstableExit: 0.4,
+  collapseEnter: 0.15,
+  collapseExit: 0.25
+};
+
+// Minimum time a state must be held before the machine is allowed to leave it
+const MIN_DWELL_MS: Record<SimulationState, number> = {
+  [SimulationState.STABLE]: 800,
+  [SimulationState.UNSTABLE]: 1200,
+  [SimulationState.COLLAPSING]: 1500,
+  [SimulationState.SUPERNOVA]: 4000
+};
+
+// A candidate state has to persist this long before it is accepted (filters single-frame spikes)
+const CONFIRM_MS = 150;
+
+export class SimulationStateMachine {
+  private state = SimulationState.STABLE;
+  private enteredAt: number;
+  private candidate: SimulationState | null = null;
+  private candidateSince = 0;
+  // A supernova can only fire once per build-up; chaos must calm down to re-arm it
+  private supernovaArmed = true;
+  private followed: SimulationState | null = null;
+  private listeners = new Set<StateTransitionListener>();
+
+  constructor(now: number = performance.now()) {
+    this.enteredAt = now;
+  }
+
+  getState(): SimulationState {
+    return this.state;
+  }
+
+  getEnteredAt(): number {
+    return this.enteredAt;
+  }
+
+  getTimeInState(now: number = performance.now()): number {
+    return now - this.enteredAt;
+  }
+
+  subscribe(listener: StateTransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Mirror another machine's state instead of deriving one from the params (spectators of a
+  // shared session). Pass null to go back to deriving it.
+  follow(state: SimulationState | null, now: number = performance.now()) {
+    this.followed = state;
+    if (state !== null && state !== this.state) this.transition(state, now);
+  }
+
+  // Jump straight to a state (restoring a logged galaxy, or a gesture firing one); it is held for
+  // its usual dwell time before the params get a say again
+  restore(state: SimulationState, now: number = performance.now()) {
+    if (state !== this.state) this.transition(state, now);
+  }
+
+  // Feed the latest params; call once per frame. Returns the (possibly new) current state.
+  update(params: SimulationParams, now: number): SimulationState {
+    if (this.followed !== null) return this.state;
+    const { chaos } = params;
+    if (chaos < THRESHOLDS.unstableExit) this.supernovaArmed = true;
+
+    const target = this.deriveTarget(params);
+    if (target === this.state) {
+      this.candidate = null;
+      return this.state;
+    }
+
+    if (target !== this.candidate) {
+      this.candidate = target;
+      this.candidateSince = now;
+    }
+
+    const dwellMet = now - this.enteredAt >= MIN_DWELL_MS[this.state];
+    const confirmed = now - this.candidateSince >= CONFIRM_MS;
+    if (dwellMet && confirmed) {
+      this.transition(target, now);
+    }
+    return this.state;
+  }
+
+  private deriveTarget({ chaos, scale, supernovaThreshold }: SimulationParams): SimulationState {
+    const current = this.state;
+
+    const collapseLimit = current === SimulationState.COLLAPSING ? THRESHOLDS.collapseExit : THRESHOLDS.collapseEnter;
+    if (scale < collapseLimit) return SimulationState.COLLAPSING;
+
+    // Supernova is the climax of an unstable phase, not something you can jump straight into
+    if (current === SimulationState.UNSTABLE && this.supernovaArmed && chaos >= supernovaThreshold) {
+      return SimulationState.SUPERNOVA;
+    }
+
+    const agitated = current === SimulationState.UNSTABLE || current === SimulationState.SUPERNOVA;
+    const unstableLimit = agitated ? THRESHOLDS.unstableExit : THRESHOLDS.unstableEnter;
+    // A supernova that burns out while chaos is still high settles back into UNSTABLE;
+    // the dwell check in update() keeps the shockwave on screen until then
+    if (chaos > unstableLimit) return SimulationState.UNSTABLE;
+
+    return SimulationState.STABLE;
+  }
+
+  private transition(to: SimulationState, now: number) {
+    const transition: StateTransition = {
+      from: this.state,
+      to,
+      timestamp: now,
+      dwellMs: now - this.enteredAt
+    };
+
+    if (to === SimulationState.SUPERNOVA) this.supernovaArmed = false;
+
+    this.state = to;
+    this.enteredAt = now;
+    this.candidate = null;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(transition);
+      } catch (err) {
+        console.error("State transition listener failed:", err);
+      }
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SimulationParams, SimulationState } from '../types';
+import { DEFAULT_PARAMS, PARAM_SPECS } from './paramSchema';
+import { ParamAnimator } from './paramAnimator';
+import { executeToolCall, ToolContext } from './simulationTools';
+
+const setup = () => {
+  let params: SimulationParams = { ...DEFAULT_PARAMS, chaos: 0.3, scale: 0.6, active: true };
+  const animator = { ramp: vi.fn(), cancel: vi.fn() };
+  const context: ToolContext = {
+    getParams: () => params,
+    applyParams: update => {
+      params = { ...params, ...update };
+    },
+    animator: animator as unknown as ParamAnimator
+  };
+  return { context, animator, params: () => params };
+};
+
+describe('executeToolCall', () => {
+  it('sets params, clamped to their range, and undoes them', () => {
+    const { context, params } = setup();
+    const result = executeToolCall({ name: 'set_parameters', args: { chaos: '0.8', hueShift: 900 } }, context);
+    expect(result.response).toEqual({ ok: true, chaos: 0.8, hueShift: PARAM_SPECS.hueShift.max });
+    expect(params().chaos).toBe(0.8);
+    result.action!.undo();
+    expect(params().chaos).toBe(0.3);
+    expect(params().hueShift).toBe(DEFAULT_PARAMS.hueShift);
+  });
+
+  it('reports bad arguments back instead of throwing', () => {
+    const { context, params } = setup();
+    expect(executeToolCall({ name: 'set_parameters', args: { chaos: 'lots' } }, context).response).toEqual({ ok: false, error: '"chaos" must be a number.' });
+    expect(executeToolCall({ name: 'set_parameters', args: { warp: 1 } }, context).response.ok).toBe(false);
+    expect(executeToolCall({ name: 'ramp_parameter', args: { parameter: 'warp', target: 1, seconds: 2 } }, context).response.ok).toBe(false);
+    expect(executeToolCall({ name: 'ramp_parameter', args: { parameter: 'chaos', seconds: 2 } }, context).response).toEqual({ ok: false, error: 'Missing "target".' });
+    expect(executeToolCall({ name: 'trigger_state', args: { state: 'EXPLODED' } }, context).response.ok).toBe(false);
+    expect(executeToolCall({ name: 'save_preset', args: { name: '   ' } }, context).response.ok).toBe(false);
+    expect(executeToolCall({ name: 'self_destruct', args: {} }, context).response).toEqual({ ok: false, error: 'Unknown tool "self_destruct".' });
+    expect(params().chaos).toBe(0.3);
+  });
+
+  it('ramps with the target clamped and the duration kept within limits', () => {
+    const { context, animator } = setup();
+    const result = executeToolCall({ name: 'ramp_parameter', args: { parameter: 'scale', target: 3, seconds: 600 } }, context);
+    expect(result.response).toEqual({ ok: true, parameter: 'scale', target: PARAM_SPECS.scale.max, seconds: 60 });
+    expect(animator.ramp).toHaveBeenCalledWith('scale', PARAM_SPECS.scale.max, 60_000);
+  });
+
+  it('drives the params towards a state', () => {
+    const { context, params } = setup();
+    executeToolCall({ name: 'trigger_state', args: { state: SimulationState.COLLAPSING } }, context);
+    expect(params().scale).toBeLessThan(0.15);
+    executeToolCall({ name: 'trigger_state', args: { state: SimulationState.SUPERNOVA } }, context);
+    expect(params().chaos).toBeGreaterThanOrEqual(params().supernovaThreshold);
+  });
+});
@@ -0,0 +1,194 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { SimulationParams, SimulationState } from '../types';
+import { CameraPose } from '../simulation/camera';
+import { ToolCall } from './analysisProvider';
+import { AnimatedParam, ParamAnimator } from './paramAnimator';
+import { deletePreset, savePreset, toPresetParams } from './presets';
+import { clampParam, formatParam, isParamKey, PARAM_KEYS, PARAM_SCHEMA, PARAM_SPECS, ParamKey } from './paramSchema';
+
+// Tools the AI observer can call to act on the simulation (voice commands go through the
+// same chat flow, so "collapse the galaxy" ends up here too).
+
+export const SIMULATION_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'set_parameters',
+    description: 'Immediately set one or more galaxy parameters, e.g. the entropy (chaos) and/or gravity well (scale).',
+    parameters: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(PARAM_SCHEMA.map(spec => [
+        spec.key,
+        { type: Type.NUMBER, description: `${spec.name} from ${spec.min} to ${spec.max}. ${spec.description}` }
+      ]))
+    }
+  },
+  {
+    name: 'ramp_parameter',
+    description: 'Smoothly move one parameter to a target value over a number of seconds.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        parameter: { type: Type.STRING, enum: PARAM_KEYS },
+        target: { type: Type.NUMBER, description: "Target value within the parameter's range (see set_parameters)." },
+        seconds: { type: Type.NUMBER, description: 'Duration of the ramp, 0.5 to 60 seconds.' }
+      },
+      required: ['parameter', 'target', 'seconds']
+    }
+  },
+  {
+    name: 'trigger_state',
+    description: 'Drive the galaxy into a simulation state. SUPERNOVA builds up through UNSTABLE first.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        state: { type: Type.STRING, enum: Object.values(SimulationState) }
+      },
+      required: ['state']
+    }
+  },
+  {
+    name: 'save_preset',
+    description: 'Save the current parameters under a name so they can be recalled later.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING }
+      },
+      required: ['name']
+    }
+  }
+];
+
+export interface ToolContext {
+  getParams: () => SimulationParams;
+  applyParams: (params: Partial<SimulationParams>) => void;
+  animator: ParamAnimator;
+  // The view saved along with presets, when there is one
+  getCamera?: () => CameraPose;
+}
+
+export interface ToolResult {
+  // Sent back to the model as the function response
+  response: Record<string, unknown>;
+  // What was done, for the chat; missing when the call was rejected
+  action?: {
+    summary: string;
+    undo: () => void;
+  };
+}
+
+class ToolError extends Error {}
+
+const describe = (param: ParamKey, value: number) => `${PARAM_SPECS[param].name.toLowerCase()} ${formatParam(param, value)}`;
+
+const readNumber = (args: Record<string, unknown>, key: string, required: boolean): number | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) {
+    if (required) throw new ToolError(`Missing "${key}".`);
+    return undefined;
+  }
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) throw new ToolError(`"${key}" must be a number.`);
+  return number;
+};
+
+// Params that land in (or, for SUPERNOVA, build up towards) each state's region. The state
+// machine's hysteresis and dwell times still apply, so the transition plays out on screen.
+const paramsForState = (state: SimulationState, current: SimulationParams): Partial<SimulationParams> => {
+  const scale = Math.max(current.scale, 0.5);
+  switch (state) {
+    case SimulationState.STABLE: return { chaos: Math.min(current.chaos, 0.2), scale };
+    case SimulationState.UNSTABLE: return { chaos: 0.7, scale };
+    case SimulationState.COLLAPSING: return { scale: 0.05 };
+    case SimulationState.SUPERNOVA: return { chaos: Math.min(current.supernovaThreshold + 0.1, 1), scale };
+  }
+};
+
+// Snapshot params and return an undo that puts them back (stopping any ramp first)
+const restorer = (context: ToolContext, params: AnimatedParam[]) => {
+  const current = context.getParams();
+  const previous: Partial<SimulationParams> = {};
+  params.forEach(param => {
+    previous[param] = current[param];
+  });
+  return () => {
+    params.forEach(param => context.animator.cancel(param));
+    context.applyParams(previous);
+  };
+};
+
+const setParameters = (args: Record<string, unknown>, context: ToolContext): ToolResult => {
+  const update: Partial<SimulationParams> = {};
+  const changes: string[] = [];
+  PARAM_KEYS.forEach(param => {
+    const value = readNumber(args, param, false);
+    if (value === undefined) return;
+    update[param] = clampParam(param, value);
+    changes.push(describe(param, update[param]));
+  });
+  if (changes.length === 0) throw new ToolError(`Provide at least one of ${PARAM_KEYS.join(', ')}.`);
+
+  const undo = restorer(context, Object.keys(update) as AnimatedParam[]);
+  Object.keys(update).forEach(param => context.animator.cancel(param as AnimatedParam));
+  context.applyParams(update);
+  return { response: { ok: true, ...update }, action: { summary: `Set ${changes.join(', ')}`, undo } };
+};
+
+const rampParameter = (args: Record<string, unknown>, context: ToolContext): ToolResult => {
+  const parameter = args.parameter;
+  if (!isParamKey(parameter)) throw new ToolError(`"parameter" must be one of ${PARAM_KEYS.join(', ')}.`);
+  const target = clampParam(parameter, readNumber(args, 'target', true)!);
+  const seconds = Math.min(Math.max(readNumber(args, 'seconds', true)!, 0.5), 60);
+
+  const undo = restorer(context, [parameter]);
+  context.animator.ramp(parameter, target, seconds * 1000);
+  return {
+    response: { ok: true, parameter, target, seconds },
+    action: { summary: `Ramp ${PARAM_SPECS[parameter].name.toLowerCase()} to ${formatParam(parameter, target)} over ${seconds}s`, undo }
+  };
+};
+
+const triggerState = (args: Record<string, unknown>, context: ToolContext): ToolResult => {
+  const state = args.state;
+  if (!Object.values(SimulationState).includes(state as SimulationState)) {
+    throw new ToolError(`"state" must be one of ${Object.values(SimulationState).join(', ')}.`);
+  }
+  const update = paramsForState(state as SimulationState, context.getParams());
+
+  const undo = restorer(context, ['chaos', 'scale']);
+  context.animator.cancel();
+  context.applyParams(update);
+  return { response: { ok: true, state, ...update }, action: { summary: `Drive galaxy to ${state}`, undo } };
+};
+
+const savePresetTool = (args: Record<string, unknown>, context: ToolContext): ToolResult => {
+  const name = typeof args.name === 'string' ? args.name.trim().slice(0, 40) : '';
+  if (!name) throw new ToolError('"name" must be a non-empty string.');
+
+  const params = toPresetParams(context.getParams());
+  const replaced = savePreset({ name, params, camera: context.getCamera?.(), savedAt: Date.now() });
+  const undo = () => {
+    if (replaced) savePreset(replaced);
+    else deletePreset(name);
+  };
+  return { response: { ok: true, name, ...params }, action: { summary: `Save preset "${name}"`, undo } };
+};
+
+const HANDLERS: Record<string, (args: Record<string, unknown>, context: ToolContext) => ToolResult> = {
+  set_parameters: setParameters,
+  ramp_parameter: rampParameter,
+  trigger_state: triggerState,
+  save_preset: savePresetTool
+};
+
+// Validate and run one call. Bad calls are reported back to the model rather than thrown.
+export const executeToolCall = (call: ToolCall, context: ToolContext): ToolResult => {
+  const handler = HANDLERS[call.name];
+  if (!handler) return { response: { ok: false, error: `Unknown tool "${call.name}".` } };
+  try {
+    return handler(call.args, context);
+  } catch (err) {
+    if (err instanceof ToolError) return { response: { ok: false, error: err.message } };
+    console.error(`Tool ${call.name} failed:`, err);
+    return { response: { ok: false, error: 'Tool failed.' } };
+  }
+};
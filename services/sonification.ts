@@ -0,0 +1,193 @@
+import { SimulationState } from '../types';
+
+const STORAGE_KEY = 'nebula.sound.v1';
+
+// Ambient sound generated from the simulation. Only uses BaseAudioContext, so the same graph
+// runs in the browser and inside an OfflineAudioContext (rendered to a buffer, no speakers):
+//
+//   drone (2 detuned saws) ─┐
+//                           ├─ lowpass ─┐
+//   noise ── bandpass ──────┘           ├─ master ─ destination
+//   stingers ───────────────────────────┘
+
+export interface SoundSettings {
+  // 0..1
+  volume: number;
+  muted: boolean;
+}
+
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = { volume: 0.5, muted: false };
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Drone pitch in Hz: a bigger gravity well sounds lower
+export const droneFrequency = (scale: number) => 110 * Math.pow(2, -clamp01(scale));
+
+// Spread between the two drone voices, in cents; calm is almost unison, chaos beats hard
+export const droneDetune = (chaos: number) => 4 + 46 * clamp01(chaos);
+
+// Gain of the noise bed
+export const noiseLevel = (chaos: number) => 0.25 * Math.pow(clamp01(chaos), 1.5);
+
+// Lowpass cutoff: chaos opens the filter up
+export const filterCutoff = (chaos: number) => 300 + 2700 * clamp01(chaos);
+
+// Parameter changes glide over roughly this time constant (seconds)
+const GLIDE = 0.15;
+const DRONE_GAIN = 0.3;
+
+export class Sonification {
+  private master: GainNode;
+  private filter: BiquadFilterNode;
+  private voices: OscillatorNode[];
+  private noise: AudioBufferSourceNode;
+  private noiseGain: GainNode;
+  private settings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+
+  constructor(private ctx: BaseAudioContext, destination: AudioNode = ctx.destination) {
+    this.master = ctx.createGain();
+    this.master.gain.value = 0;
+    this.master.connect(destination);
+
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = filterCutoff(0);
+    this.filter.Q.value = 0.7;
+    this.filter.connect(this.master);
+
+    const droneGain = ctx.createGain();
+    droneGain.gain.value = DRONE_GAIN;
+    droneGain.connect(this.filter);
+    this.voices = [-1, 1].map(side => {
+      const voice = ctx.createOscillator();
+      voice.type = 'sawtooth';
+      voice.frequency.value = droneFrequency(0.5);
+      voice.detune.value = (side * droneDetune(0)) / 2;
+      voice.connect(droneGain);
+      voice.start();
+      return voice;
+    });
+
+    // Two seconds of white noise, looped
+    const buffer = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    this.noise = ctx.createBufferSource();
+    this.noise.buffer = buffer;
+    this.noise.loop = true;
+    const band = ctx.createBiquadFilter();
+    band.type = 'bandpass';
+    band.frequency.value = 800;
+    band.Q.value = 0.5;
+    this.noiseGain = ctx.createGain();
+    this.noiseGain.gain.value = 0;
+    this.noise.connect(band);
+    band.connect(this.noiseGain);
+    this.noiseGain.connect(this.filter);
+    this.noise.start();
+  }
+
+  setSettings(settings: SoundSettings) {
+    this.settings = settings;
+    const target = settings.muted ? 0 : settings.volume;
+    this.master.gain.setTargetAtTime(target, this.ctx.currentTime, 0.05);
+  }
+
+  // Call whenever the params change (a few times a second is plenty)
+  update({ chaos, scale }: { chaos: number; scale: number }) {
+    const now = this.ctx.currentTime;
+    const frequency = droneFrequency(scale);
+    const detune = droneDetune(chaos);
+    this.voices.forEach((voice, index) => {
+      voice.frequency.setTargetAtTime(frequency, now, GLIDE);
+      voice.detune.setTargetAtTime(((index === 0 ? -1 : 1) * detune) / 2, now, GLIDE);
+    });
+    this.noiseGain.gain.setTargetAtTime(noiseLevel(chaos), now, GLIDE);
+    this.filter.frequency.setTargetAtTime(filterCutoff(chaos), now, GLIDE);
+  }
+
+  // A short sound marking a state transition, on top of the drone
+  stinger(state: SimulationState) {
+    if (this.settings.muted) return;
+    const now = this.ctx.currentTime;
+    switch (state) {
+      case SimulationState.SUPERNOVA:
+        // Blast of noise and a falling boom
+        this.burst(now, 1.8, 0.6);
+        this.tone(now, 'sine', 160, 30, 2, 0.7);
+        break;
+      case SimulationState.COLLAPSING:
+        // Everything drains downwards
+        this.tone(now, 'triangle', 440, 55, 1.5, 0.35);
+        break;
+      case SimulationState.UNSTABLE:
+        // A tritone: unresolved
+        this.tone(now, 'square', 311, 311, 0.6, 0.12);
+        this.tone(now + 0.05, 'square', 440, 440, 0.6, 0.12);
+        break;
+      case SimulationState.STABLE:
+        // An open fifth: resolved
+        this.tone(now, 'sine', 330, 330, 1.2, 0.2);
+        this.tone(now + 0.08, 'sine', 495, 495, 1.2, 0.15);
+        break;
+    }
+  }
+
+  dispose() {
+    this.voices.forEach(voice => voice.stop());
+    this.noise.stop();
+    this.master.disconnect();
+  }
+
+  // A one-shot oscillator gliding from `from` to `to` Hz with a percussive envelope
+  private tone(start: number, type: OscillatorType, from: number, to: number, duration: number, peak: number) {
+    const oscillator = this.ctx.createOscillator();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(from, start);
+    if (to !== from) oscillator.frequency.exponentialRampToValueAtTime(to, start + duration);
+    const envelope = this.envelope(start, duration, peak);
+    oscillator.connect(envelope);
+    oscillator.start(start);
+    oscillator.stop(start + duration);
+  }
+
+  private burst(start: number, duration: number, peak: number) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = this.noise.buffer;
+    const envelope = this.envelope(start, duration, peak);
+    source.connect(envelope);
+    source.start(start);
+    source.stop(start + duration);
+  }
+
+  private envelope(start: number, duration: number, peak: number): GainNode {
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(peak, start + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    gain.connect(this.master);
+    return gain;
+  }
+}
+
+export const loadSoundSettings = (): SoundSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SOUND_SETTINGS;
+    const parsed = JSON.parse(raw) as Partial<SoundSettings>;
+    return {
+      volume: Number.isFinite(parsed.volume) ? clamp01(parsed.volume!) : DEFAULT_SOUND_SETTINGS.volume,
+      muted: typeof parsed.muted === 'boolean' ? parsed.muted : DEFAULT_SOUND_SETTINGS.muted
+    };
+  } catch {
+    return DEFAULT_SOUND_SETTINGS;
+  }
+};
+
+export const saveSoundSettings = (settings: SoundSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist sound settings:", err);
+  }
+};
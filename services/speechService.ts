@@ -0,0 +1,214 @@
+// Speech in and out: replies read aloud with speechSynthesis, and a recognizer that can run
+// push-to-talk or continuously behind a wake phrase. Both degrade to no-ops when the browser
+// lacks the API, so callers only need to check `supported` to adjust the UI.
+
+const STORAGE_KEY = 'nebula.voice.v1';
+
+export interface VoiceSettings {
+  lang: string;
+  // speechSynthesis voice; null picks the browser default for `lang`
+  voiceURI: string | null;
+  rate: number;
+  speakReplies: boolean;
+  continuous: boolean;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  lang: 'en-US',
+  voiceURI: null,
+  rate: 1,
+  speakReplies: true,
+  continuous: false
+};
+
+export const VOICE_LANGUAGES = ['en-US', 'en-GB', 'en-IN', 'es-ES', 'fr-FR', 'de-DE', 'it-IT', 'pt-BR', 'hi-IN', 'ja-JP'];
+
+export const WAKE_PHRASE = 'nebula';
+
+export const loadVoiceSettings = (): VoiceSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(raw) } : DEFAULT_VOICE_SETTINGS;
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist voice settings:", err);
+  }
+};
+
+// "Nebula, collapse the galaxy" -> "collapse the galaxy". Returns null when the transcript
+// doesn't start with the wake phrase ("hey"/"ok" in front is tolerated).
+export const stripWakePhrase = (transcript: string, wakePhrase: string = WAKE_PHRASE): string | null => {
+  const match = transcript.trim().match(new RegExp(`^(?:(?:hey|ok|okay)\\s+)?${wakePhrase}\\b[\\s,.!?:;-]*(.*)$`, 'i'));
+  return match ? match[1].trim() : null;
+};
+
+// --- Output -------------------------------------------------------------------
+
+export class SpeechOutput {
+  readonly supported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.supported ? window.speechSynthesis.getVoices() : [];
+  }
+
+  // Voices load asynchronously in most browsers
+  onVoicesChanged(listener: () => void): () => void {
+    if (!this.supported) return () => {};
+    window.speechSynthesis.addEventListener('voiceschanged', listener);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', listener);
+  }
+
+  isSpeaking() {
+    return this.supported && window.speechSynthesis.speaking;
+  }
+
+  // Replaces anything still being read
+  speak(text: string, settings: VoiceSettings) {
+    if (!this.supported || !text.trim()) return;
+    this.stop();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = settings.lang;
+    utterance.rate = settings.rate;
+    const voice = this.getVoices().find(v => v.voiceURI === settings.voiceURI);
+    if (voice) utterance.voice = voice;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  stop() {
+    if (this.supported) window.speechSynthesis.cancel();
+  }
+}
+
+// --- Input --------------------------------------------------------------------
+
+export type ListenerStatus = 'idle' | 'listening' | 'error';
+
+export interface VoiceListenerCallbacks {
+  // A final transcript (already stripped of the wake phrase in continuous mode)
+  onTranscript: (transcript: string) => void;
+  // The user started talking to us: used for barge-in
+  onSpeech?: () => void;
+  onStatus?: (status: ListenerStatus, error?: string) => void;
+}
+
+// Errors that mean "stop trying" rather than "restart and carry on"
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'language-not-supported'];
+const RESTART_DELAY_MS = 300;
+
+const getRecognitionClass = (): any =>
+  typeof window === 'undefined' ? undefined : (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+
+export class VoiceListener {
+  readonly supported = !!getRecognitionClass();
+  private recognition: any = null;
+  private continuous = false;
+  private wanted = false;
+  private restartTimer = 0;
+
+  constructor(private callbacks: VoiceListenerCallbacks) {}
+
+  // One utterance, then stop (push-to-talk)
+  listenOnce(lang: string) {
+    this.begin(lang, false);
+  }
+
+  // Keep listening for "Nebula, ..." until stop(); restarts itself whenever the browser ends
+  // the session (silence timeouts, network hiccups)
+  listenContinuously(lang: string) {
+    this.begin(lang, true);
+  }
+
+  stop() {
+    this.wanted = false;
+    window.clearTimeout(this.restartTimer);
+    this.recognition?.abort();
+    this.recognition = null;
+    this.callbacks.onStatus?.('idle');
+  }
+
+  isContinuous() {
+    return this.wanted && this.continuous;
+  }
+
+  private begin(lang: string, continuous: boolean) {
+    const Recognition = getRecognitionClass();
+    if (!Recognition) {
+      this.callbacks.onStatus?.('error', 'Voice recognition is not supported in this browser.');
+      return;
+    }
+    this.stop();
+    this.wanted = true;
+    this.continuous = continuous;
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.continuous = continuous;
+    // Interim results let us stop playback as soon as the user starts talking
+    recognition.interimResults = true;
+    recognition.maxAlternatives = 1;
+
+    recognition.onresult = (event: any) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript: string = result[0].transcript;
+        if (!result.isFinal) {
+          // In continuous mode only the wake phrase counts, or we'd barge in on our own voice
+          if (!continuous || stripWakePhrase(transcript) !== null) this.callbacks.onSpeech?.();
+          continue;
+        }
+        const command = continuous ? stripWakePhrase(transcript) : (stripWakePhrase(transcript) ?? transcript.trim());
+        if (command === null) continue;
+        this.callbacks.onSpeech?.();
+        this.callbacks.onTranscript(command);
+      }
+    };
+
+    recognition.onerror = (event: any) => {
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      console.error("Speech recognition error", event.error);
+      if (FATAL_ERRORS.includes(event.error)) {
+        this.wanted = false;
+        this.callbacks.onStatus?.('error', `Voice input unavailable (${event.error}).`);
+      }
+    };
+
+    recognition.onend = () => {
+      if (this.recognition !== recognition) return;
+      if (this.wanted && this.continuous) {
+        this.restartTimer = window.setTimeout(() => {
+          if (this.wanted && this.recognition === recognition) {
+            try {
+              recognition.start();
+            } catch (err) {
+              console.warn("Could not restart voice recognition:", err);
+            }
+          }
+        }, RESTART_DELAY_MS);
+        return;
+      }
+      this.recognition = null;
+      if (this.wanted) {
+        this.wanted = false;
+        this.callbacks.onStatus?.('idle');
+      }
+    };
+
+    this.recognition = recognition;
+    try {
+      recognition.start();
+      this.callbacks.onStatus?.('listening');
+    } catch (err) {
+      console.error("Could not start voice recognition:", err);
+      this.recognition = null;
+      this.wanted = false;
+      this.callbacks.onStatus?.('error', 'Could not start voice recognition.');
+    }
+  }
+}
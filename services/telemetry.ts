@@ -0,0 +1,187 @@
+import { SimulationState } from '../types';
+import { ParticleMetrics } from '../simulation/metrics';
+
+// Rolling record of what the galaxy has been doing, for the AI observer and the HUD sparklines
+
+export interface TelemetrySample extends ParticleMetrics {
+  time: number; // ms, performance.now()
+  chaos: number;
+  scale: number;
+  state: SimulationState;
+  // Mean handedness score of the tracked hands, 0 when none are visible
+  handConfidence: number;
+}
+
+export type TelemetryMetric = Exclude<keyof TelemetrySample, 'time' | 'state'>;
+
+export type Trend = 'rising' | 'falling' | 'steady';
+
+export interface MetricSummary {
+  latest: number;
+  min: number;
+  max: number;
+  mean: number;
+  trend: Trend;
+}
+
+export interface TelemetrySummary {
+  windowSeconds: number;
+  metrics: Record<TelemetryMetric, MetricSummary>;
+  entropySpikes: number;
+  // In order, e.g. "STABLE -> UNSTABLE"
+  transitions: string[];
+  // Share of the window with at least one hand tracked, 0..1
+  handCoverage: number;
+  // Mean confidence over the samples where a hand was tracked
+  trackedHandConfidence: number;
+}
+
+const HISTORY_MS = 60_000;
+export const DEFAULT_SUMMARY_WINDOW_MS = 20_000;
+
+// A rise in chaos of this much counts as a spike; it re-arms once chaos drops back by half
+const SPIKE_RISE = 0.2;
+// Relative change between the start and end of the window that counts as a trend
+const TREND_THRESHOLD = 0.1;
+
+export const METRIC_KEYS: TelemetryMetric[] = [
+  'chaos',
+  'scale',
+  'meanRadius',
+  'rmsRadius',
+  'velocityDispersion',
+  'coreBrightness',
+  'escapeFraction',
+  'handConfidence'
+];
+
+export class TelemetryRecorder {
+  private samples: TelemetrySample[] = [];
+  private listeners = new Set<(sample: TelemetrySample) => void>();
+
+  push(sample: TelemetrySample) {
+    this.samples.push(sample);
+    const cutoff = sample.time - HISTORY_MS;
+    while (this.samples.length > 0 && this.samples[0].time < cutoff) this.samples.shift();
+    this.listeners.forEach(listener => listener(sample));
+  }
+
+  latest(): TelemetrySample | undefined {
+    return this.samples[this.samples.length - 1];
+  }
+
+  // Samples from the last `windowMs`, oldest first
+  getSeries(windowMs: number = HISTORY_MS): TelemetrySample[] {
+    const last = this.latest();
+    if (!last) return [];
+    const cutoff = last.time - windowMs;
+    return this.samples.filter(sample => sample.time >= cutoff);
+  }
+
+  subscribe(listener: (sample: TelemetrySample) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  summarize(windowMs: number = DEFAULT_SUMMARY_WINDOW_MS): TelemetrySummary | null {
+    const series = this.getSeries(windowMs);
+    if (series.length === 0) return null;
+    return summarizeSeries(series);
+  }
+}
+
+const summarizeMetric = (values: number[]): MetricSummary => {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  values.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+  });
+
+  // Compare the first and last quarters so single-frame noise doesn't read as a trend
+  const quarter = Math.max(1, Math.floor(values.length / 4));
+  const average = (part: number[]) => part.reduce((a, b) => a + b, 0) / part.length;
+  const start = average(values.slice(0, quarter));
+  const end = average(values.slice(-quarter));
+  const range = Math.max(Math.abs(start), Math.abs(end), 1e-6);
+  const change = (end - start) / range;
+
+  return {
+    latest: values[values.length - 1],
+    min,
+    max,
+    mean: sum / values.length,
+    trend: change > TREND_THRESHOLD ? 'rising' : change < -TREND_THRESHOLD ? 'falling' : 'steady'
+  };
+};
+
+const countSpikes = (chaos: number[]) => {
+  let spikes = 0;
+  let armed = true;
+  let low = chaos[0];
+  let peak = chaos[0];
+  chaos.forEach(value => {
+    if (armed) {
+      low = Math.min(low, value);
+      if (value - low >= SPIKE_RISE) {
+        spikes++;
+        armed = false;
+        peak = value;
+      }
+    } else {
+      peak = Math.max(peak, value);
+      if (peak - value >= SPIKE_RISE / 2) {
+        armed = true;
+        low = value;
+      }
+    }
+  });
+  return spikes;
+};
+
+export const summarizeSeries = (series: TelemetrySample[]): TelemetrySummary => {
+  const metrics = {} as Record<TelemetryMetric, MetricSummary>;
+  METRIC_KEYS.forEach(key => {
+    metrics[key] = summarizeMetric(series.map(sample => sample[key]));
+  });
+
+  const tracked = series.filter(sample => sample.handConfidence > 0);
+  const transitions: string[] = [];
+  for (let i = 1; i < series.length; i++) {
+    if (series[i].state !== series[i - 1].state) transitions.push(`${series[i - 1].state} -> ${series[i].state}`);
+  }
+
+  return {
+    windowSeconds: Math.round((series[series.length - 1].time - series[0].time) / 1000),
+    metrics,
+    entropySpikes: countSpikes(series.map(sample => sample.chaos)),
+    transitions,
+    handCoverage: tracked.length / series.length,
+    trackedHandConfidence: tracked.length ? tracked.reduce((sum, sample) => sum + sample.handConfidence, 0) / tracked.length : 0
+  };
+};
+
+const fmt = (value: number) => value.toFixed(3);
+
+// Plain-text digest for a model prompt
+export const formatSummary = (summary: TelemetrySummary): string => {
+  const { metrics } = summary;
+  const spikes = summary.entropySpikes;
+  const lines = [
+    `Last ${summary.windowSeconds}s:`,
+    `- Entropy ${spikes === 0 ? 'did not spike' : `spiked ${spikes} time${spikes === 1 ? '' : 's'}`}` +
+      ` (range ${Math.round(metrics.chaos.min * 100)}-${Math.round(metrics.chaos.max * 100)}%, ${metrics.chaos.trend}).`,
+    `- Gravity well ${Math.round(metrics.scale.min * 100)}-${Math.round(metrics.scale.max * 100)}%, ${metrics.scale.trend}.`,
+    `- State transitions: ${summary.transitions.length ? summary.transitions.join(', ') : 'none'}.`,
+    `- Mean orbital radius ${fmt(metrics.meanRadius.latest)} (RMS ${fmt(metrics.rmsRadius.latest)}), ${metrics.meanRadius.trend}.`,
+    `- Velocity dispersion ${fmt(metrics.velocityDispersion.latest)} (peak ${fmt(metrics.velocityDispersion.max)}), ${metrics.velocityDispersion.trend}.`,
+    `- Core brightness ${Math.round(metrics.coreBrightness.latest * 100)}% of total light, ${metrics.coreBrightness.trend}.`,
+    `- Escaping particles ${Math.round(metrics.escapeFraction.latest * 100)}% (peak ${Math.round(metrics.escapeFraction.max * 100)}%).`,
+    `- Hands tracked ${Math.round(summary.handCoverage * 100)}% of the time, mean confidence ${Math.round(summary.trackedHandConfidence * 100)}%.`
+  ];
+  return lines.join('\n');
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TIMELINE, Keyframe, normalizeTimeline, sampleTimeline } from './timeline';
+import { PARAM_SPECS } from './paramSchema';
+
+const keyframe = (overrides: Record<string, unknown> = {}) => ({ id: 'k', param: 'chaos', timeMs: 0, value: 0.5, easing: 'linear', ...overrides });
+
+describe('normalizeTimeline', () => {
+  it('falls back to the default timeline for anything that is not one', () => {
+    expect(normalizeTimeline(null)).toEqual(DEFAULT_TIMELINE);
+    expect(normalizeTimeline('timeline')).toEqual(DEFAULT_TIMELINE);
+    expect(normalizeTimeline({ durationMs: -5, loop: 'yes', keyframes: 'none' })).toEqual(DEFAULT_TIMELINE);
+  });
+
+  it('drops keyframes that cannot be played', () => {
+    const timeline = normalizeTimeline({
+      durationMs: 5000,
+      loop: true,
+      keyframes: [
+        keyframe({ id: 'good' }),
+        keyframe({ param: 'warp' }),
+        keyframe({ timeMs: null }),
+        keyframe({ timeMs: -1 }),
+        keyframe({ value: 'high' }),
+        keyframe({ value: Infinity }),
+        keyframe({ easing: 'bounce' }),
+        keyframe({ easing: 'toString' }),
+        null
+      ]
+    });
+    expect(timeline.durationMs).toBe(5000);
+    expect(timeline.loop).toBe(true);
+    expect(timeline.keyframes.map(k => k.id)).toEqual(['good']);
+  });
+
+  it('sorts keyframes by time and clamps their values', () => {
+    const timeline = normalizeTimeline({
+      durationMs: 5000,
+      keyframes: [keyframe({ id: 'b', timeMs: 2000, value: 4 }), keyframe({ id: 'a', timeMs: 1000, param: 'hueShift', value: -20 })]
+    });
+    expect(timeline.keyframes.map(k => k.id)).toEqual(['a', 'b']);
+    expect(timeline.keyframes[0].value).toBe(PARAM_SPECS.hueShift.min);
+    expect(timeline.keyframes[1].value).toBe(PARAM_SPECS.chaos.max);
+  });
+
+  it('gives keyframes without an id a fresh one', () => {
+    const { keyframes } = normalizeTimeline({ keyframes: [keyframe({ id: undefined })] });
+    expect(typeof keyframes[0].id).toBe('string');
+    expect(keyframes[0].id).not.toBe('');
+  });
+});
+
+describe('sampleTimeline', () => {
+  const keyframes = [keyframe({ timeMs: 1000, value: 0.2 }), keyframe({ timeMs: 3000, value: 0.6 })] as Keyframe[];
+  const timeline = { durationMs: 4000, loop: false, keyframes };
+
+  it('holds the first and last values outside the keyframes', () => {
+    expect(sampleTimeline(timeline, 0).chaos).toBe(0.2);
+    expect(sampleTimeline(timeline, 3500).chaos).toBe(0.6);
+  });
+
+  it('interpolates between keyframes with the easing of the later one', () => {
+    expect(sampleTimeline(timeline, 2000).chaos).toBeCloseTo(0.4);
+    const stepped = { ...timeline, keyframes: [keyframes[0], { ...keyframes[1], easing: 'step' as const }] };
+    expect(sampleTimeline(stepped, 2000).chaos).toBe(0.2);
+  });
+});
@@ -0,0 +1,216 @@
+import { InputEmitter, InputProvider } from './inputManager';
+import { Easing, easeIn, easeInOut, easeOut, linear, step } from './paramAnimator';
+import { clampParam, isParamKey, ParamKey } from './paramSchema';
+
+const STORAGE_KEY = 'nebula.timeline.v1';
+
+export type TimelineParam = ParamKey;
+
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export const EASINGS: Record<EasingName, Easing> = { linear, easeIn, easeOut, easeInOut, step };
+
+export interface Keyframe {
+  id: string;
+  param: TimelineParam;
+  timeMs: number;
+  // In the param's own units (see paramSchema.ts)
+  value: number;
+  // Curve used on the way INTO this keyframe from the previous one
+  easing: EasingName;
+}
+
+export interface Timeline {
+  durationMs: number;
+  loop: boolean;
+  keyframes: Keyframe[];
+}
+
+export const DEFAULT_TIMELINE: Timeline = {
+  durationMs: 20_000,
+  loop: false,
+  keyframes: []
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isEasingName = (value: unknown): value is EasingName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(EASINGS, value);
+
+const readKeyframe = (value: unknown): Keyframe | null => {
+  if (!isRecord(value) || !isParamKey(value.param)) return null;
+  if (!isFiniteNumber(value.timeMs) || value.timeMs < 0 || !isFiniteNumber(value.value) || !isEasingName(value.easing)) return null;
+  return {
+    id: typeof value.id === 'string' ? value.id : createKeyframeId(),
+    param: value.param,
+    timeMs: value.timeMs,
+    value: clampParam(value.param, value.value),
+    easing: value.easing
+  };
+};
+
+// Drops keyframes that can't be played and falls back to the defaults for the rest
+export const normalizeTimeline = (value: unknown): Timeline => {
+  if (!isRecord(value)) return DEFAULT_TIMELINE;
+  const keyframes = Array.isArray(value.keyframes)
+    ? value.keyframes.map(readKeyframe).filter((keyframe): keyframe is Keyframe => keyframe !== null)
+    : [];
+  return {
+    durationMs: isFiniteNumber(value.durationMs) && value.durationMs > 0 ? value.durationMs : DEFAULT_TIMELINE.durationMs,
+    loop: value.loop === true,
+    keyframes: keyframes.sort((a, b) => a.timeMs - b.timeMs)
+  };
+};
+
+export const loadTimeline = (): Timeline => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_TIMELINE;
+    return normalizeTimeline(JSON.parse(raw));
+  } catch {
+    return DEFAULT_TIMELINE;
+  }
+};
+
+export const saveTimeline = (timeline: Timeline) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timeline));
+  } catch (err) {
+    console.warn("Could not persist timeline:", err);
+  }
+};
+
+export const createKeyframeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Value of every keyframed param at `timeMs`. Before the first keyframe of a param it holds
+// that keyframe's value, after the last one it holds the last value.
+export const sampleTimeline = (timeline: Timeline, timeMs: number): Partial<Record<TimelineParam, number>> => {
+  const byParam = new Map<TimelineParam, Keyframe[]>();
+  timeline.keyframes.forEach(keyframe => {
+    const list = byParam.get(keyframe.param) ?? [];
+    list.push(keyframe);
+    byParam.set(keyframe.param, list);
+  });
+
+  const values: Partial<Record<TimelineParam, number>> = {};
+  byParam.forEach((keyframes, param) => {
+    keyframes.sort((a, b) => a.timeMs - b.timeMs);
+    const next = keyframes.findIndex(keyframe => keyframe.timeMs > timeMs);
+    if (next === -1) {
+      values[param] = keyframes[keyframes.length - 1].value;
+    } else if (next === 0) {
+      values[param] = keyframes[0].value;
+    } else {
+      const from = keyframes[next - 1];
+      const to = keyframes[next];
+      const t = (timeMs - from.timeMs) / Math.max(to.timeMs - from.timeMs, 1);
+      values[param] = from.value + (to.value - from.value) * (EASINGS[to.easing] ?? linear)(t);
+    }
+  });
+  return values;
+};
+
+// Plays a timeline as an input source. Where it ranks against hand tracking decides whether a
+// visible hand overrides the keyframes (see InputManager priorities).
+export class TimelinePlayer implements InputProvider {
+  id = 'timeline';
+  label = 'Timeline';
+  private emit: InputEmitter | null = null;
+  private reportAvailable: ((available: boolean) => void) | null = null;
+  private position = 0;
+  private playing = false;
+  private frameRequest = 0;
+  private lastTick = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(private timeline: Timeline) {}
+
+  start(emit: InputEmitter, setAvailable: (available: boolean) => void) {
+    this.emit = emit;
+    this.reportAvailable = setAvailable;
+    setAvailable(this.timeline.keyframes.length > 0);
+    return () => {
+      this.pause();
+      this.emit = null;
+      this.reportAvailable = null;
+    };
+  }
+
+  setTimeline(timeline: Timeline) {
+    this.timeline = timeline;
+    this.position = Math.min(this.position, timeline.durationMs);
+    this.reportAvailable?.(timeline.keyframes.length > 0);
+    if (timeline.keyframes.length === 0) this.pause();
+    this.notify();
+  }
+
+  getPosition() {
+    return this.position;
+  }
+
+  isPlaying() {
+    return this.playing;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play() {
+    if (this.playing || this.timeline.keyframes.length === 0) return;
+    if (this.position >= this.timeline.durationMs) this.position = 0;
+    this.playing = true;
+    this.lastTick = performance.now();
+    this.frameRequest = requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.playing = false;
+    cancelAnimationFrame(this.frameRequest);
+    // Hand control back to the other sources
+    this.emit?.({ active: false });
+    this.notify();
+  }
+
+  seek(positionMs: number) {
+    this.position = Math.min(Math.max(positionMs, 0), this.timeline.durationMs);
+    if (this.playing) this.output();
+    this.notify();
+  }
+
+  private tick = (now: number) => {
+    if (!this.playing) return;
+    this.position += now - this.lastTick;
+    this.lastTick = now;
+
+    if (this.position >= this.timeline.durationMs) {
+      if (this.timeline.loop) {
+        this.position %= Math.max(this.timeline.durationMs, 1);
+      } else {
+        this.position = this.timeline.durationMs;
+        this.output();
+        this.pause();
+        return;
+      }
+    }
+
+    this.output();
+    this.notify();
+    this.frameRequest = requestAnimationFrame(this.tick);
+  };
+
+  private output() {
+    this.emit?.({ ...sampleTimeline(this.timeline, this.position), active: true });
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,56 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { handSide, Side } from './gestureRecognizer';
+import { PipelineReadings } from './gesturePipeline';
+
+export interface DetectedHand {
+  side: Side;
+  // What MediaPipe called it, before any swap
+  label: string;
+  score: number;
+}
+
+export interface DiagnosticsSnapshot {
+  // Mean and worst detectForVideo time over the last LATENCY_SAMPLES calls
+  latencyMs: number;
+  maxLatencyMs: number;
+  detectionFps: number;
+  hands: DetectedHand[];
+  readings: PipelineReadings | null;
+}
+
+const LATENCY_SAMPLES = 30;
+const FPS_WINDOW_MS = 1000;
+
+// Collects per-detection numbers from the tracking loop. Cheap enough to run every frame;
+// the panel reads a snapshot a few times a second.
+export class TrackingDiagnostics {
+  private latencies: number[] = [];
+  private detections: number[] = [];
+  private hands: DetectedHand[] = [];
+  private readings: PipelineReadings | null = null;
+
+  record(latencyMs: number, timestampMs: number, result: HandLandmarkerResult, readings: PipelineReadings, swapHandedness: boolean) {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    this.detections.push(timestampMs);
+    while (this.detections.length > 0 && timestampMs - this.detections[0] > FPS_WINDOW_MS) this.detections.shift();
+
+    this.hands = result.handednesses.map((categories, index) => ({
+      side: handSide(result, index, swapHandedness),
+      label: categories[0]?.categoryName ?? '?',
+      score: categories[0]?.score ?? 0
+    }));
+    this.readings = readings;
+  }
+
+  snapshot(): DiagnosticsSnapshot {
+    const count = this.latencies.length;
+    return {
+      latencyMs: count ? this.latencies.reduce((a, b) => a + b, 0) / count : 0,
+      maxLatencyMs: count ? Math.max(...this.latencies) : 0,
+      detectionFps: this.detections.length * (1000 / FPS_WINDOW_MS),
+      hands: this.hands,
+      readings: this.readings
+    };
+  }
+}
@@ -0,0 +1,39 @@
+const STORAGE_KEY = 'nebula.tracking.v1';
+
+export interface TrackingSettings {
+  // Treat MediaPipe's "Left" as the right hand and vice versa, for cameras that (don't) mirror
+  swapHandedness: boolean;
+  showOverlay: boolean;
+  showDiagnostics: boolean;
+  // Overrides for the MediaPipe asset locations; empty uses the build defaults
+  wasmPath: string;
+  modelPath: string;
+  // Preferred camera; null lets the browser choose
+  cameraId: string | null;
+}
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  swapHandedness: false,
+  showOverlay: true,
+  showDiagnostics: false,
+  wasmPath: '',
+  modelPath: '',
+  cameraId: null
+};
+
+export const loadTrackingSettings = (): TrackingSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_TRACKING_SETTINGS, ...JSON.parse(raw) } : DEFAULT_TRACKING_SETTINGS;
+  } catch {
+    return DEFAULT_TRACKING_SETTINGS;
+  }
+};
+
+export const saveTrackingSettings = (settings: TrackingSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn("Could not persist tracking settings:", err);
+  }
+};
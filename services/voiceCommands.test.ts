@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STEP, normalizeTranscript, parseNumber, parseVoiceCommand } from './voiceCommands';
+import { PARAM_SPECS } from './paramSchema';
+
+describe('parseNumber', () => {
+  it('reads digits and number words', () => {
+    expect(parseNumber('180')).toEqual({ value: 180, kind: 'plain' });
+    expect(parseNumber('forty five')).toEqual({ value: 45, kind: 'plain' });
+    expect(parseNumber('forty-five')).toEqual({ value: 45, kind: 'plain' });
+    expect(parseNumber('a hundred and twenty')).toEqual({ value: 120, kind: 'plain' });
+    expect(parseNumber('zero point four')).toEqual({ value: 0.4, kind: 'plain' });
+    expect(parseNumber('point two five')).toEqual({ value: 0.25, kind: 'plain' });
+    expect(parseNumber('0.3')).toEqual({ value: 0.3, kind: 'plain' });
+  });
+
+  it('tells percentages and shares apart from plain numbers', () => {
+    expect(parseNumber('forty percent')).toEqual({ value: 40, kind: 'percent' });
+    expect(parseNumber('40%')).toEqual({ value: 40, kind: 'percent' });
+    expect(parseNumber('half')).toEqual({ value: 0.5, kind: 'share' });
+    expect(parseNumber('the max')).toEqual({ value: 1, kind: 'share' });
+  });
+
+  it('rejects anything that is not a number', () => {
+    expect(parseNumber('banana')).toBeNull();
+    expect(parseNumber('forty bananas')).toBeNull();
+    expect(parseNumber('percent')).toBeNull();
+    expect(parseNumber('two point')).toBeNull();
+  });
+});
+
+describe('parseVoiceCommand', () => {
+  it('reads numbers in the unit of the param', () => {
+    expect(parseVoiceCommand('set hue to 180')).toEqual({ intent: 'set', param: 'hueShift', value: 180 });
+    expect(parseVoiceCommand('set rotation to 2')).toEqual({ intent: 'set', param: 'rotationSpeed', value: 2 });
+    expect(parseVoiceCommand('set stars to 10000')).toEqual({ intent: 'set', param: 'particleCount', value: 10000 });
+  });
+
+  it('reads % params as percentages', () => {
+    expect(parseVoiceCommand('set entropy to 40')).toEqual({ intent: 'set', param: 'chaos', value: 0.4 });
+    expect(parseVoiceCommand('set entropy to 0.4')).toEqual({ intent: 'set', param: 'chaos', value: 0.4 });
+    expect(parseVoiceCommand('set threshold to ninety percent')).toEqual({ intent: 'set', param: 'supernovaThreshold', value: 0.9 });
+  });
+
+  it('reads shares and percentages of other params across their range', () => {
+    expect(parseVoiceCommand('set stars to half')).toEqual({
+      intent: 'set',
+      param: 'particleCount',
+      value: (PARAM_SPECS.particleCount.min + PARAM_SPECS.particleCount.max) / 2
+    });
+    expect(parseVoiceCommand('set hue to 50%')).toEqual({ intent: 'set', param: 'hueShift', value: 180 });
+  });
+
+  it('clamps set values to the range', () => {
+    expect(parseVoiceCommand('set rotation to 9')).toEqual({ intent: 'set', param: 'rotationSpeed', value: PARAM_SPECS.rotationSpeed.max });
+    expect(parseVoiceCommand('set stars to 10')).toEqual({ intent: 'set', param: 'particleCount', value: PARAM_SPECS.particleCount.min });
+  });
+
+  it('adjusts by an amount in the unit, or by a default step of the range', () => {
+    expect(parseVoiceCommand('increase hue by 30')).toEqual({ intent: 'adjust', param: 'hueShift', delta: 30 });
+    expect(parseVoiceCommand('lower the entropy by ten')).toEqual({ intent: 'adjust', param: 'chaos', delta: -0.1 });
+    expect(parseVoiceCommand('more spin')).toEqual({ intent: 'adjust', param: 'rotationSpeed', delta: DEFAULT_STEP * 3 });
+    expect(parseVoiceCommand('gravity down')).toEqual({ intent: 'adjust', param: 'scale', delta: -DEFAULT_STEP });
+  });
+
+  it('understands synonyms, preferring the longest', () => {
+    expect(parseVoiceCommand('set turbulence to 20')).toMatchObject({ param: 'chaos' });
+    expect(parseVoiceCommand('set colour shift to 90')).toMatchObject({ param: 'hueShift', value: 90 });
+    expect(parseVoiceCommand('set gravity well to half')).toMatchObject({ param: 'scale', value: 0.5 });
+    expect(parseVoiceCommand('set star count to 2000')).toMatchObject({ param: 'particleCount', value: 2000 });
+  });
+
+  it('handles the other intents and politeness', () => {
+    expect(parseVoiceCommand('Please freeze the galaxy.')).toEqual({ intent: 'freeze', frozen: true });
+    expect(parseVoiceCommand('resume')).toEqual({ intent: 'freeze', frozen: false });
+    expect(parseVoiceCommand('reset everything')).toEqual({ intent: 'reset' });
+    expect(parseVoiceCommand('take a snapshot')).toEqual({ intent: 'snapshot' });
+    expect(parseVoiceCommand('load the Spiral Arms preset')).toEqual({ intent: 'loadPreset', name: 'spiral arms' });
+  });
+
+  it('falls through to the AI for anything else', () => {
+    expect(parseVoiceCommand('what is a galaxy')).toBeNull();
+    expect(parseVoiceCommand('set hue to banana')).toBeNull();
+    expect(parseVoiceCommand('set warp to 5')).toBeNull();
+    expect(parseVoiceCommand('   ')).toBeNull();
+  });
+});
+
+describe('normalizeTranscript', () => {
+  it('keeps decimal points and percent signs but drops punctuation', () => {
+    expect(normalizeTranscript('Could you set Entropy to 0.4%, please?')).toBe('set entropy to 0.4%');
+  });
+});
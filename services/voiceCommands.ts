@@ -0,0 +1,227 @@
+import { clampParam, PARAM_SPECS, ParamKey } from './paramSchema';
+
+// Local grammar for spoken commands that don't need the AI. The rules below are data: each
+// intent lists phrase templates, and templates may use these slots:
+//   {param}  - a parameter name or synonym (see PARAM_SYNONYMS)
+//   {number} - digits or number words, optionally a percentage ("forty five percent", "0.3")
+//   {name}   - free text, e.g. a preset name
+// To add a command, add a rule (and handle its intent where commands are executed).
+// Values and deltas come out in the param's own unit (see toParamUnits): "set hue to 180" is
+// 180 degrees and "set stars to 10000" is 10,000 stars, while "half", "max" and percentages of
+// non-% params are shares of the range, so "set stars to half" works like "set entropy to half".
+
+export type VoiceParam = ParamKey;
+
+export type VoiceCommand =
+  // Already clamped to the param's range
+  | { intent: 'set'; param: VoiceParam; value: number }
+  // Not clamped: add it to the current value, then clamp
+  | { intent: 'adjust'; param: VoiceParam; delta: number }
+  | { intent: 'reset' }
+  | { intent: 'freeze'; frozen: boolean }
+  | { intent: 'loadPreset'; name: string }
+  | { intent: 'snapshot' };
+
+export const PARAM_SYNONYMS: Record<VoiceParam, string[]> = {
+  chaos: ['entropy', 'chaos', 'disorder', 'turbulence'],
+  scale: ['gravity well', 'gravity', 'scale', 'size', 'well'],
+  particleCount: ['star count', 'particle count', 'stars', 'particles'],
+  hueShift: ['hue shift', 'color shift', 'colour shift', 'hue', 'color', 'colour'],
+  trailFade: ['trail fade', 'fade'],
+  rotationSpeed: ['rotation speed', 'rotation', 'spin', 'speed'],
+  supernovaThreshold: ['supernova threshold', 'nova threshold', 'threshold']
+};
+
+// Share of the range used by "increase gravity" when no amount is given
+export const DEFAULT_STEP = 0.1;
+
+// A spoken amount before it is tied to a param: a share of the range ("half", "max"), a
+// percentage ("forty percent", "40%") or a plain number ("180", "zero point four")
+export interface SpokenNumber {
+  value: number;
+  kind: 'share' | 'percent' | 'plain';
+}
+
+interface Slots {
+  param?: VoiceParam;
+  number?: SpokenNumber;
+  name?: string;
+}
+
+// Converts an amount into the param's unit. For % params the number is the percentage itself
+// ("entropy to 40" and "entropy to 0.4" are both 0.4). For the others a plain number is already
+// in their unit (degrees, stars, x), and a share or percentage is taken of the range; deltas
+// are measured from zero rather than from the bottom of the range.
+export const toParamUnits = (param: VoiceParam, { value, kind }: SpokenNumber, delta = false) => {
+  const { min, max, unit } = PARAM_SPECS[param];
+  if (unit === '%' && kind !== 'share') return kind === 'percent' || value > 1 ? value / 100 : value;
+  if (unit !== '%' && kind === 'plain') return value;
+  const share = kind === 'percent' ? value / 100 : value;
+  return (delta ? 0 : min) + share * (max - min);
+};
+
+const DEFAULT_AMOUNT: SpokenNumber = { value: DEFAULT_STEP, kind: 'share' };
+
+interface VoiceRule {
+  templates: string[];
+  build: (slots: Slots) => VoiceCommand | null;
+}
+
+const RULES: VoiceRule[] = [
+  {
+    templates: ['set {param} to {number}', 'set {param} {number}', 'make {param} {number}', '{param} to {number}', '{param} at {number}'],
+    build: ({ param, number }) =>
+      param && number !== undefined ? { intent: 'set', param, value: clampParam(param, toParamUnits(param, number)) } : null
+  },
+  {
+    templates: ['(?:increase|raise|boost|more) {param} by {number}', '(?:increase|raise|boost) (?:the )?{param}', 'more {param}', '{param} up'],
+    build: ({ param, number }) => (param ? { intent: 'adjust', param, delta: toParamUnits(param, number ?? DEFAULT_AMOUNT, true) } : null)
+  },
+  {
+    templates: ['(?:decrease|lower|reduce) {param} by {number}', '(?:decrease|lower|reduce|drop) (?:the )?{param}', 'less {param}', '{param} down'],
+    build: ({ param, number }) => (param ? { intent: 'adjust', param, delta: -toParamUnits(param, number ?? DEFAULT_AMOUNT, true) } : null)
+  },
+  {
+    templates: ['reset', 'reset (?:the )?(?:galaxy|simulation|everything|all)'],
+    build: () => ({ intent: 'reset' })
+  },
+  {
+    templates: ['freeze', 'freeze (?:the )?(?:galaxy|simulation|frame)', 'pause', 'hold still'],
+    build: () => ({ intent: 'freeze', frozen: true })
+  },
+  {
+    templates: ['unfreeze', 'resume', 'continue', 'unpause', 'play'],
+    build: () => ({ intent: 'freeze', frozen: false })
+  },
+  {
+    templates: ['load preset {name}', '(?:load|apply|recall) (?:the )?{name} preset', 'preset {name}'],
+    build: ({ name }) => (name ? { intent: 'loadPreset', name } : null)
+  },
+  {
+    templates: ['(?:take )?(?:a )?(?:snapshot|screenshot|picture|photo)', 'capture (?:the )?(?:galaxy|frame|screen)'],
+    build: () => ({ intent: 'snapshot' })
+  }
+];
+
+// --- Numbers ------------------------------------------------------------------
+
+const UNITS: Record<string, number> = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19
+};
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+// Words that stand for a share of the range on their own
+const NAMED_VALUES: Record<string, number> = {
+  half: 0.5, quarter: 0.25, max: 1, maximum: 1, full: 1, min: 0, minimum: 0, nothing: 0, none: 0
+};
+
+// Integer from number words ("forty five", "a hundred"); null if any word isn't a number
+const parseWords = (words: string[]): number | null => {
+  if (words.length === 0) return null;
+  let total = 0;
+  for (const word of words) {
+    if (word === 'a' || word === 'and') continue;
+    if (word in UNITS) total += UNITS[word];
+    else if (word in TENS) total += TENS[word];
+    else if (word === 'hundred') total = (total || 1) * 100;
+    else if (/^\d+$/.test(word)) total += Number(word);
+    else return null;
+  }
+  return total;
+};
+
+// Parses a spoken amount. "forty percent" and "40%" give a percentage of 40, "0.4" and
+// "zero point four" a plain 0.4, and "half" a share of 0.5.
+export const parseNumber = (text: string): SpokenNumber | null => {
+  let words = text.replace(/%/g, ' percent').split(/[\s-]+/).filter(word => word && word !== 'the');
+  const percent = words[words.length - 1] === 'percent';
+  if (percent) words = words.slice(0, -1);
+  if (words.length === 0) return null;
+
+  if (words.length === 1 && words[0] in NAMED_VALUES) return { value: NAMED_VALUES[words[0]], kind: 'share' };
+
+  let value: number | null;
+  if (words.length === 1 && /^\d*\.?\d+$/.test(words[0])) {
+    value = Number(words[0]);
+  } else {
+    const point = words.indexOf('point');
+    if (point >= 0) {
+      const whole = point === 0 ? 0 : parseWords(words.slice(0, point));
+      const decimals = words.slice(point + 1).map(word => (word in UNITS && UNITS[word] < 10 ? String(UNITS[word]) : /^\d+$/.test(word) ? word : null));
+      if (whole === null || decimals.length === 0 || decimals.some(d => d === null)) return null;
+      value = Number(`${whole}.${decimals.join('')}`);
+    } else {
+      value = parseWords(words);
+    }
+  }
+
+  if (value === null || !Number.isFinite(value)) return null;
+  return { value, kind: percent ? 'percent' : 'plain' };
+};
+
+// --- Matching -----------------------------------------------------------------
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const PARAM_PATTERN = Object.values(PARAM_SYNONYMS)
+  .flat()
+  // Longest first, so "gravity well" wins over "gravity"
+  .sort((a, b) => b.length - a.length)
+  .map(escape)
+  .join('|');
+
+const SLOT_PATTERNS: Record<keyof Slots, string> = {
+  param: `(?:the )?(?<param>${PARAM_PATTERN})`,
+  number: '(?<number>[a-z0-9. %-]+?)',
+  name: '(?<name>.+?)'
+};
+
+const compile = (template: string) =>
+  new RegExp(`^${template.replace(/\{(\w+)\}/g, (_, slot: keyof Slots) => SLOT_PATTERNS[slot])}$`);
+
+const COMPILED = RULES.map(rule => ({ rule, patterns: rule.templates.map(compile) }));
+
+const paramFor = (word: string): VoiceParam | undefined =>
+  (Object.keys(PARAM_SYNONYMS) as VoiceParam[]).find(param => PARAM_SYNONYMS[param].includes(word));
+
+// Lower case, no punctuation (but keep % and decimal points), no politeness
+export const normalizeTranscript = (transcript: string) =>
+  transcript
+    .toLowerCase()
+    .replace(/[^a-z0-9%.\s-]/g, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:please |can you |could you |would you |now )+/, '')
+    .replace(/ (?:please|now)$/, '')
+    .trim();
+
+// The first rule that matches, or null (the caller should then ask the AI)
+export const parseVoiceCommand = (transcript: string): VoiceCommand | null => {
+  const text = normalizeTranscript(transcript);
+  if (!text) return null;
+
+  for (const { rule, patterns } of COMPILED) {
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (!match) continue;
+      const groups = match.groups;
+
+      const slots: Slots = {};
+      if (groups?.param) slots.param = paramFor(groups.param);
+      if (groups?.number !== undefined) {
+        const number = parseNumber(groups.number);
+        if (number === null) continue;
+        slots.number = number;
+      }
+      if (groups?.name) slots.name = groups.name.trim();
+
+      const command = rule.build(slots);
+      if (command) return command;
+    }
+  }
+  return null;
+};
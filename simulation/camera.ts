@@ -0,0 +1,115 @@
+// View of the galaxy. In '2d' the disc is drawn face-on and flat, exactly as before 3D
+// existed; in '3d' each particle's depth coordinate lifts it off the disc plane and the
+// scene is seen through a perspective camera orbiting the core.
+
+export type CameraMode = '2d' | '3d';
+
+export interface CameraPose {
+  mode: CameraMode;
+  // Camera elevation above the disc plane, in degrees: 0 = face-on, 90 = edge-on
+  inclination: number;
+  // Camera position around the disc's axis, in degrees
+  azimuth: number;
+  // Camera distance from the core in world units; closer = stronger perspective
+  distance: number;
+  // Disc half-thickness in world units
+  thickness: number;
+}
+
+export const DEFAULT_CAMERA: CameraPose = {
+  mode: '2d',
+  inclination: 55,
+  azimuth: 0,
+  distance: 1.5,
+  thickness: 0.03
+};
+
+export const CAMERA_LIMITS = {
+  inclination: { min: 0, max: 89 },
+  distance: { min: 0.6, max: 4 },
+  thickness: { min: 0, max: 0.15 }
+};
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(Math.max(value, min), max);
+
+// Azimuth in [-180, 180)
+const wrapDegrees = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180;
+
+export const normalizeCamera = (value: Partial<CameraPose> | null | undefined): CameraPose => {
+  const number = (key: keyof Omit<CameraPose, 'mode'>) =>
+    Number.isFinite(value?.[key]) ? (value![key] as number) : DEFAULT_CAMERA[key];
+  return {
+    mode: value?.mode === '3d' ? '3d' : '2d',
+    inclination: clamp(number('inclination'), CAMERA_LIMITS.inclination),
+    azimuth: wrapDegrees(number('azimuth')),
+    distance: clamp(number('distance'), CAMERA_LIMITS.distance),
+    thickness: clamp(number('thickness'), CAMERA_LIMITS.thickness)
+  };
+};
+
+// Orbit by a drag: horizontal turns around the axis, vertical tips the disc towards edge-on
+export const orbitCamera = (pose: CameraPose, azimuthDelta: number, inclinationDelta: number): CameraPose =>
+  normalizeCamera({ ...pose, azimuth: pose.azimuth + azimuthDelta, inclination: pose.inclination + inclinationDelta });
+
+export const zoomCamera = (pose: CameraPose, factor: number): CameraPose =>
+  normalizeCamera({ ...pose, distance: pose.distance * factor });
+
+// "3D, 55° inclination, 20° azimuth"
+export const describeCamera = (pose: CameraPose) =>
+  pose.mode === '2d' ? '2D, face-on' : `3D, ${Math.round(pose.inclination)}° inclination, ${Math.round(pose.azimuth)}° azimuth`;
+
+// Precomputed per frame by the renderer
+export interface Projection {
+  cosAzimuth: number;
+  sinAzimuth: number;
+  cosInclination: number;
+  sinInclination: number;
+  distance: number;
+  thickness: number;
+}
+
+export const createProjection = (pose: CameraPose): Projection => {
+  const azimuth = (pose.azimuth * Math.PI) / 180;
+  const inclination = (pose.inclination * Math.PI) / 180;
+  return {
+    cosAzimuth: Math.cos(azimuth),
+    sinAzimuth: Math.sin(azimuth),
+    cosInclination: Math.cos(inclination),
+    sinInclination: Math.sin(inclination),
+    distance: pose.distance,
+    thickness: pose.thickness
+  };
+};
+
+export interface Projected {
+  // Screen offset from the center, in world units
+  x: number;
+  y: number;
+  // Towards the camera is positive
+  depth: number;
+  // Perspective magnification (1 at the core's depth)
+  scale: number;
+}
+
+// Height above the disc plane for a particle's depth coordinate (0..2, 1 = midplane). The
+// bulge is puffier than the outer disc.
+export const discHeight = (z: number, x: number, y: number, thickness: number) =>
+  (z - 1) * thickness * (1 + 2 * Math.exp(-(x * x + y * y) / 0.004));
+
+// `height` is the particle's offset from the disc plane. Returns false when the point is
+// behind the camera.
+export const project = (p: Projection, x: number, y: number, height: number, out: Projected): boolean => {
+  // Turn the disc under the camera, then tip it away from the viewer
+  const rx = x * p.cosAzimuth - y * p.sinAzimuth;
+  const ry = x * p.sinAzimuth + y * p.cosAzimuth;
+  const screenY = ry * p.cosInclination - height * p.sinInclination;
+  const depth = ry * p.sinInclination + height * p.cosInclination;
+  const toCamera = p.distance - depth;
+  if (toCamera <= 0.05) return false;
+  const scale = p.distance / toCamera;
+  out.x = rx * scale;
+  out.y = screenY * scale;
+  out.depth = depth;
+  out.scale = scale;
+  return true;
+};
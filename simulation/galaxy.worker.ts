@@ -0,0 +1,86 @@
+import { GalaxyEngine } from './galaxyEngine';
+import { EngineCommand, EngineEvent } from './workerProtocol';
+
+// The project's tsconfig only includes DOM typings, so describe the bits of the dedicated
+// worker scope we rely on.
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<EngineCommand>) => void) | null;
+  postMessage(message: EngineEvent): void;
+  requestAnimationFrame?: (callback: (time: number) => void) => number;
+}
+
+const scope = self as unknown as WorkerScope;
+let engine: GalaxyEngine | null = null;
+
+// rAF in workers is tied to the OffscreenCanvas' display; fall back to a timer where missing
+const schedule = (callback: (time: number) => void) => {
+  if (scope.requestAnimationFrame) scope.requestAnimationFrame(callback);
+  else setTimeout(() => callback(performance.now()), 1000 / 60);
+};
+
+const loop = (time: number) => {
+  engine?.frame(time);
+  schedule(loop);
+};
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case 'init': {
+      const ctx = data.canvas.getContext('2d');
+      if (!ctx) return;
+      engine = new GalaxyEngine(
+        ctx,
+        data.seed,
+        data.physics,
+        data.morphology,
+        stats => scope.postMessage({ type: 'stats', stats }),
+        metrics => scope.postMessage({ type: 'metrics', metrics })
+      );
+      engine.resize(data.width, data.height);
+      schedule(loop);
+      break;
+    }
+    case 'input':
+      engine?.setInput(data.params, data.state, data.camera);
+      break;
+    case 'resize':
+      engine?.resize(data.width, data.height);
+      break;
+    case 'physics':
+      engine?.setPhysics(data.physics);
+      break;
+    case 'morphology':
+      engine?.setMorphology(data.morphology);
+      break;
+    case 'effect':
+      engine?.triggerEffect(data.state);
+      break;
+    case 'pause':
+      engine?.setPaused(data.paused);
+      break;
+    case 'motion':
+      engine?.setReducedMotion(data.reducedMotion);
+      break;
+    case 'serialize':
+      scope.postMessage({ type: 'serialized', id: data.id, simulation: engine?.serialize() ?? null });
+      break;
+    case 'restore':
+      try {
+        engine?.restore(data.simulation);
+      } catch (err) {
+        console.warn("Could not restore the simulation:", err);
+      }
+      break;
+    case 'snapshot': {
+      const { id } = data;
+      if (!engine) {
+        scope.postMessage({ type: 'snapshot', id, blob: null, error: "Engine not ready." });
+        break;
+      }
+      engine.snapshot()
+        .then(blob => scope.postMessage({ type: 'snapshot', id, blob }))
+        .catch(err => scope.postMessage({ type: 'snapshot', id, blob: null, error: String(err) }));
+      break;
+    }
+  }
+};
@@ -0,0 +1,169 @@
+import { SimulationState } from '../types';
+import {
+  createSimulation,
+  DEFAULT_PARTICLE_COUNT,
+  deserializeSimulation,
+  GalaxySimulationState,
+  MORPH_DURATION_MS,
+  PhysicsSettings,
+  REDUCED_MOTION_SLOWDOWN,
+  resizeSimulation,
+  SerializedSimulation,
+  serializeSimulation,
+  setMorphology,
+  setPhysics,
+  stepInPlace,
+  triggerEffect
+} from './galaxySimulation';
+import { CameraPose, DEFAULT_CAMERA } from './camera';
+import { computeMetrics, ParticleMetrics } from './metrics';
+import { Morphology } from './morphology';
+import { DEFAULT_GOVERNOR_OPTIONS, QualityGovernor } from './qualityGovernor';
+import { Canvas2D, renderFrame } from './renderer';
+import { EngineParams, EngineStats } from './workerProtocol';
+
+// Long pauses (background tab, debugger) would otherwise make the simulation lurch
+const MAX_STEP_SECONDS = 0.1;
+const STATS_INTERVAL_MS = 500;
+// Metrics are computed every frame but only reported at this rate
+const METRICS_INTERVAL_MS = 100;
+
+// Owns one simulation and draws it into one canvas, one frame() call at a time. Runs inside
+// the worker against an OffscreenCanvas, or on the main thread as a fallback.
+export class GalaxyEngine {
+  private sim: GalaxySimulationState;
+  private governor = new QualityGovernor(DEFAULT_PARTICLE_COUNT);
+  private params: EngineParams = {
+    chaos: 0.1,
+    scale: 0.5,
+    particleCount: DEFAULT_GOVERNOR_OPTIONS.maxParticles,
+    hueShift: 0,
+    trailFade: 0.2,
+    rotationSpeed: 1,
+    supernovaThreshold: 0.85
+  };
+  private state = SimulationState.STABLE;
+  private camera: CameraPose = DEFAULT_CAMERA;
+  private lastFrame: number | null = null;
+  private lastStats = 0;
+  private lastMetrics = 0;
+  private metrics: ParticleMetrics | null = null;
+  private paused = false;
+  private reducedMotion = false;
+
+  constructor(
+    private ctx: Canvas2D,
+    seed: number,
+    physics: PhysicsSettings,
+    morphology: Morphology,
+    private onStats?: (stats: EngineStats) => void,
+    private onMetrics?: (metrics: ParticleMetrics) => void
+  ) {
+    this.sim = createSimulation(seed, this.governor.getLevel().particleCount, morphology);
+    setPhysics(this.sim, physics, this.params.scale);
+  }
+
+  setInput(params: EngineParams, state: SimulationState, camera: CameraPose) {
+    if (params.particleCount !== this.params.particleCount) {
+      const changed = this.governor.setMaxParticles(Math.round(params.particleCount));
+      if (changed) resizeSimulation(this.sim, changed.particleCount, params.scale);
+    }
+    this.params = params;
+    this.state = state;
+    this.camera = camera;
+  }
+
+  setPhysics(physics: PhysicsSettings) {
+    setPhysics(this.sim, physics, this.params.scale);
+  }
+
+  // Morphs the existing particles into the new galaxy type
+  setMorphology(morphology: Morphology) {
+    setMorphology(this.sim, morphology, MORPH_DURATION_MS * (this.reducedMotion ? REDUCED_MOTION_SLOWDOWN : 1));
+  }
+
+  // A paused engine keeps drawing the same particles but doesn't advance them
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  // Steadier particles and slower transitions
+  setReducedMotion(reducedMotion: boolean) {
+    this.reducedMotion = reducedMotion;
+  }
+
+  triggerEffect(state: SimulationState) {
+    triggerEffect(this.sim, state, this.reducedMotion ? REDUCED_MOTION_SLOWDOWN : 1);
+  }
+
+  resize(width: number, height: number) {
+    this.ctx.canvas.width = width;
+    this.ctx.canvas.height = height;
+  }
+
+  serialize(): SerializedSimulation {
+    return serializeSimulation(this.sim);
+  }
+
+  // Continue from someone else's particles, resized to what this machine can draw. Throws on
+  // malformed data and keeps the current galaxy.
+  restore(data: SerializedSimulation) {
+    const sim = deserializeSimulation(data);
+    const { particleCount } = this.governor.getLevel();
+    if (sim.count !== particleCount) resizeSimulation(sim, particleCount, this.params.scale);
+    this.sim = sim;
+  }
+
+  // PNG of the most recently drawn frame
+  snapshot(): Promise<Blob> {
+    const canvas = this.ctx.canvas;
+    if ('convertToBlob' in canvas) return canvas.convertToBlob({ type: 'image/png' });
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Canvas is empty."))), 'image/png');
+    });
+  }
+
+  frame(now: number) {
+    const interval = this.lastFrame === null ? 1000 / 60 : now - this.lastFrame;
+    this.lastFrame = now;
+    const dt = Math.min(interval / 1000, MAX_STEP_SECONDS);
+    const workStart = performance.now();
+
+    const { chaos, scale, rotationSpeed, hueShift, trailFade } = this.params;
+    const level = this.governor.getLevel();
+    if (!this.paused) {
+      stepInPlace(this.sim, { chaos, scale, rotationSpeed, reducedMotion: this.reducedMotion }, dt);
+      this.metrics = computeMetrics(this.sim, scale);
+    }
+    renderFrame(this.ctx, this.sim, {
+      width: this.ctx.canvas.width,
+      height: this.ctx.canvas.height,
+      chaos,
+      scale,
+      hueShift,
+      trailFade,
+      state: this.state,
+      detail: level.detail,
+      camera: this.camera,
+      reducedMotion: this.reducedMotion
+    });
+
+    const changed = this.governor.update(interval, performance.now() - workStart, now);
+    if (changed) resizeSimulation(this.sim, changed.particleCount, scale);
+
+    if (this.onMetrics && this.metrics && now - this.lastMetrics >= METRICS_INTERVAL_MS) {
+      this.lastMetrics = now;
+      this.onMetrics(this.metrics);
+    }
+
+    if (this.onStats && now - this.lastStats >= STATS_INTERVAL_MS) {
+      this.lastStats = now;
+      const current = this.governor.getLevel();
+      this.onStats({
+        fps: Math.round(this.governor.getFps()),
+        particleCount: current.particleCount,
+        detail: current.detail
+      });
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import {
+  createSimulation,
+  deserializeSimulation,
+  GalaxySimulationState,
+  PhysicsSettings,
+  serializeSimulation,
+  setPhysics,
+  step,
+  stepInPlace,
+  StepInput,
+  triggerEffect
+} from './galaxySimulation';
+
+const STEPS = 240;
+const DT = 1 / 60;
+
+// Varying inputs so chaos, scale and the transition effects all play a part
+const inputAt = (i: number): StepInput => ({
+  chaos: (Math.sin(i * 0.05) + 1) / 2,
+  scale: 0.8 + 0.4 * Math.cos(i * 0.03),
+  rotationSpeed: 1 + (i % 60) / 60
+});
+
+const run = (seed: number, physics: PhysicsSettings, count = 200): GalaxySimulationState => {
+  const state = createSimulation(seed, count);
+  setPhysics(state, physics, inputAt(0).scale);
+  for (let i = 0; i < STEPS; i++) {
+    if (i === 60) triggerEffect(state, SimulationState.SUPERNOVA);
+    if (i === 150) triggerEffect(state, SimulationState.COLLAPSING);
+    stepInPlace(state, inputAt(i), DT);
+  }
+  return state;
+};
+
+describe('galaxy simulation', () => {
+  const modes: [string, PhysicsSettings][] = [
+    ['orbit', { mode: 'orbit', selfGravity: false }],
+    ['gravity', { mode: 'gravity', selfGravity: false }],
+    ['gravity with self-gravity', { mode: 'gravity', selfGravity: true }]
+  ];
+
+  it.each(modes)('is deterministic for a seed in %s mode', (_, physics) => {
+    const a = run(1234, physics);
+    const b = run(1234, physics);
+    expect(a.x).toEqual(b.x);
+    expect(a.y).toEqual(b.y);
+    expect(a.z).toEqual(b.z);
+    expect(a.brightness).toEqual(b.brightness);
+    expect(a.rngState).toBe(b.rngState);
+  });
+
+  it('step leaves its input unchanged', () => {
+    const state = run(99, { mode: 'gravity', selfGravity: false });
+    const before = serializeSimulation(state);
+    const next = step(state, inputAt(0), DT);
+    expect(serializeSimulation(state)).toEqual(before);
+    expect(next.x).not.toEqual(state.x);
+  });
+
+  it.each(modes)('resumes from a serialized copy in %s mode', (_, physics) => {
+    const original = run(7, physics);
+    // Through JSON, as it travels between peers
+    const restored = deserializeSimulation(JSON.parse(JSON.stringify(serializeSimulation(original))));
+    let a = original;
+    let b = restored;
+    for (let i = 0; i < 60; i++) {
+      a = step(a, inputAt(i), DT);
+      b = step(b, inputAt(i), DT);
+    }
+    expect(serializeSimulation(b)).toEqual(serializeSimulation(a));
+  });
+
+  it('rejects serialized data whose arrays do not match the particle count', () => {
+    const data = serializeSimulation(createSimulation(1, 50));
+    expect(() => deserializeSimulation({ ...data, fields: { ...data.fields, x: data.fields.x.slice(1) } })).toThrow(/: x$/);
+    expect(() => deserializeSimulation({ ...data, color: [] })).toThrow(/: color$/);
+    expect(() => deserializeSimulation({ ...data, count: 51 })).toThrow();
+  });
+
+  it('diverges for a different seed', () => {
+    const physics: PhysicsSettings = { mode: 'orbit', selfGravity: false };
+    expect(run(1234, physics).x).not.toEqual(run(4321, physics).x);
+  });
+});
@@ -0,0 +1,441 @@
+import { SimulationState } from '../types';
+import { random, RngState, seedRng } from './prng';
+import { seedOrbitalVelocities, stepGravity } from './gravity';
+import { createOrbitGenerator, DEFAULT_MORPHOLOGY, Morphology, Orbit, OrbitGenerator, orbitPosition } from './morphology';
+
+// Headless particle simulation. Everything here is plain data and arithmetic (no DOM, no
+// Math.random, no wall clock), so a given seed and input stream always produce the same
+// particle positions, in the browser or in Node.
+
+// Cosmic colors (RGB): white, cyan, violet, orange/gold
+export const PALETTE: ReadonlyArray<readonly [number, number, number]> = [
+  [255, 255, 255],
+  [100, 200, 255],
+  [200, 100, 255],
+  [255, 150, 50]
+];
+
+// The original tuning constants were per-frame values at ~60fps; they are rescaled by
+// real elapsed time so behavior no longer depends on the display's refresh rate.
+const REFERENCE_FPS = 60;
+const FOLLOW_PER_FRAME = 0.1; // Orbit elasticity
+// Positions are in "world units": 1 = the smaller viewport dimension. 5px of jitter on an
+// 800px viewport matches the original look.
+const JITTER_PER_FRAME = 5 / 800;
+const MAX_ORBIT_RADIUS = 1 / 3;
+// Time taken to morph from one galaxy type into another
+export const MORPH_DURATION_MS = 2500;
+
+export const DEFAULT_PARTICLE_COUNT = 800;
+
+// Reduced motion (prefers-reduced-motion or the accessibility setting): no twinkle, a fraction
+// of the jitter, and transition effects and morphs stretched out by this factor
+export const REDUCED_MOTION_JITTER = 0.3;
+export const REDUCED_MOTION_SLOWDOWN = 2;
+
+export interface StepInput {
+  chaos: number;
+  scale: number;
+  // Orbit speed multiplier (orbit mode); 1 when omitted
+  rotationSpeed?: number;
+  reducedMotion?: boolean;
+}
+
+// 'orbit': particles ease towards scripted circular orbits (the original look).
+// 'gravity': velocities are integrated under a central mass, see gravity.ts.
+export type PhysicsMode = 'orbit' | 'gravity';
+
+export interface PhysicsSettings {
+  mode: PhysicsMode;
+  // Particle-particle attraction (gravity mode only); uses Barnes-Hut for larger counts
+  selfGravity: boolean;
+}
+
+export const DEFAULT_PHYSICS: PhysicsSettings = { mode: 'orbit', selfGravity: false };
+
+// A transient effect triggered by a SimulationState transition
+export interface TransitionEffect {
+  state: SimulationState;
+  elapsedMs: number;
+  durationMs: number;
+}
+
+export const EFFECT_DURATION_MS: Record<SimulationState, number> = {
+  [SimulationState.STABLE]: 1200,
+  [SimulationState.UNSTABLE]: 900,
+  [SimulationState.COLLAPSING]: 1500,
+  [SimulationState.SUPERNOVA]: 3500
+};
+
+// Switching morphology: particles glide from where they were to their new orbits
+export interface MorphTransition {
+  fromX: Float32Array;
+  fromY: Float32Array;
+  elapsedMs: number;
+  durationMs: number;
+}
+
+// Structure-of-arrays particle storage
+export interface GalaxySimulationState extends RngState {
+  seed: number;
+  time: number; // Simulated seconds
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  z: Float32Array;
+  vx: Float32Array; // World units per second (integrated in gravity mode, measured in orbit mode)
+  vy: Float32Array;
+  angle: Float32Array;
+  radius: Float32Array;
+  angularSpeed: Float32Array; // Radians per reference frame
+  ellipticity: Float32Array; // Orbit minor/major axis ratio
+  orientation: Float32Array; // Orbit ellipse rotation, radians
+  precession: Float32Array; // Ellipse rotation per reference frame
+  size: Float32Array; // Pixels
+  brightness: Float32Array; // 0..1, re-rolled every step for the twinkle
+  color: Uint8Array; // Index into PALETTE
+  coreJitter: number; // 0..1, drives the wobble of the central body
+  effect: TransitionEffect | null;
+  physics: PhysicsSettings;
+  morphology: Morphology;
+  morph: MorphTransition | null;
+}
+
+const FLOAT_FIELDS = [
+  'x', 'y', 'z', 'vx', 'vy', 'angle', 'radius', 'angularSpeed', 'ellipticity', 'orientation', 'precession', 'size', 'brightness'
+] as const;
+type FloatField = typeof FLOAT_FIELDS[number];
+
+export const createSimulation = (
+  seed: number,
+  count: number = DEFAULT_PARTICLE_COUNT,
+  morphology: Morphology = DEFAULT_MORPHOLOGY
+): GalaxySimulationState => {
+  const state: GalaxySimulationState = {
+    seed,
+    rngState: seedRng(seed),
+    time: 0,
+    count,
+    x: new Float32Array(count),
+    y: new Float32Array(count),
+    z: new Float32Array(count),
+    vx: new Float32Array(count),
+    vy: new Float32Array(count),
+    angle: new Float32Array(count),
+    radius: new Float32Array(count),
+    angularSpeed: new Float32Array(count),
+    ellipticity: new Float32Array(count),
+    orientation: new Float32Array(count),
+    precession: new Float32Array(count),
+    size: new Float32Array(count),
+    brightness: new Float32Array(count),
+    color: new Uint8Array(count),
+    coreJitter: 0,
+    effect: null,
+    physics: { ...DEFAULT_PHYSICS },
+    morphology: { ...morphology },
+    morph: null
+  };
+
+  const generate = orbitGenerator(state);
+  for (let i = 0; i < count; i++) initParticle(state, i, generate);
+
+  return state;
+};
+
+const orbitGenerator = (state: GalaxySimulationState) =>
+  createOrbitGenerator(state.morphology, MAX_ORBIT_RADIUS, state.seed);
+
+const orbit: Orbit = { radius: 0, angle: 0, angularSpeed: 0, ellipticity: 1, orientation: 0, precession: 0 };
+
+const assignOrbit = (state: GalaxySimulationState, i: number, generate: OrbitGenerator) => {
+  generate(state, orbit);
+  state.angle[i] = orbit.angle;
+  state.radius[i] = orbit.radius;
+  state.angularSpeed[i] = orbit.angularSpeed;
+  state.ellipticity[i] = orbit.ellipticity;
+  state.orientation[i] = orbit.orientation;
+  state.precession[i] = orbit.precession;
+};
+
+// Particles start at the center and fly out to their orbits
+const initParticle = (state: GalaxySimulationState, i: number, generate: OrbitGenerator) => {
+  state.x[i] = 0;
+  state.y[i] = 0;
+  state.vx[i] = 0;
+  state.vy[i] = 0;
+  state.z[i] = random(state) * 2; // Depth simulation
+  assignOrbit(state, i, generate);
+  state.size[i] = random(state) * 2 + 0.5;
+  state.color[i] = Math.floor(random(state) * PALETTE.length);
+  state.brightness[i] = 1;
+};
+
+const resized = (array: Float32Array, count: number) => {
+  const next = new Float32Array(count);
+  next.set(array.subarray(0, Math.min(array.length, count)));
+  return next;
+};
+
+// Grow or shrink the particle count in place. Existing particles keep their state; new ones
+// are spawned from the simulation's own PRNG so resizing stays deterministic.
+export const resizeSimulation = (state: GalaxySimulationState, count: number, scale: number) => {
+  const previous = state.count;
+  if (count === previous) return;
+
+  FLOAT_FIELDS.forEach(field => {
+    state[field] = resized(state[field], count);
+  });
+  const color = new Uint8Array(count);
+  color.set(state.color.subarray(0, Math.min(previous, count)));
+  state.color = color;
+  state.count = count;
+
+  if (state.morph) {
+    // New particles join the morph at their spawn point (the center)
+    state.morph.fromX = resized(state.morph.fromX, count);
+    state.morph.fromY = resized(state.morph.fromY, count);
+  }
+
+  const generate = orbitGenerator(state);
+  for (let i = previous; i < count; i++) initParticle(state, i, generate);
+  if (count > previous && state.physics.mode === 'gravity') {
+    seedOrbitalVelocities(state, scale, previous, count);
+  }
+};
+
+// How far particles are pushed from (or pulled into) their orbit by the active effect.
+// 1 = untouched; the orbit elasticity reforms the disc as this returns to 1.
+export const getRadialFactor = (effect: TransitionEffect | null): number => {
+  if (!effect) return 1;
+  const t = effect.elapsedMs / effect.durationMs;
+  if (t >= 1) return 1;
+
+  switch (effect.state) {
+    case SimulationState.SUPERNOVA:
+      // Violent outward blast in the first 15%, then a slow reform
+      return t < 0.15 ? 1 + (t / 0.15) * 3 : 1 + 3 * Math.pow(1 - (t - 0.15) / 0.85, 2);
+    case SimulationState.COLLAPSING:
+      // Implode towards the core, then relax back out
+      return 1 - 0.7 * Math.sin(Math.PI * t);
+    case SimulationState.UNSTABLE:
+      return 1 + 0.15 * Math.sin(Math.PI * t);
+    default:
+      return 1;
+  }
+};
+
+// Start the effect for a transition into `to`, replacing whatever was still playing
+export const triggerEffect = (state: GalaxySimulationState, to: SimulationState, slowdown: number = 1) => {
+  state.effect = { state: to, elapsedMs: 0, durationMs: EFFECT_DURATION_MS[to] * slowdown };
+};
+
+// Switch physics at runtime. Entering gravity mode gives every particle the velocity of a
+// circular orbit where it currently is, so the disc carries on turning instead of falling in.
+export const setPhysics = (state: GalaxySimulationState, physics: PhysicsSettings, scale: number) => {
+  if (physics.mode === 'gravity' && state.physics.mode !== 'gravity') {
+    seedOrbitalVelocities(state, scale);
+  }
+  state.physics = { ...physics };
+};
+
+// Give every particle an orbit of the new galaxy type and glide it there over `durationMs`.
+// Nothing is re-spawned: particles keep their size, color and depth. A morph that is still
+// playing continues from wherever the particles are now.
+export const setMorphology = (state: GalaxySimulationState, morphology: Morphology, durationMs: number = MORPH_DURATION_MS) => {
+  state.morphology = { ...morphology };
+  const generate = orbitGenerator(state);
+  for (let i = 0; i < state.count; i++) assignOrbit(state, i, generate);
+  state.morph = { fromX: state.x.slice(), fromY: state.y.slice(), elapsedMs: 0, durationMs };
+};
+
+// Advance `state` by `dt` seconds, mutating it. Use for hot loops that own their state.
+export const stepInPlace = (state: GalaxySimulationState, input: StepInput, dt: number) => {
+  const { chaos, scale, reducedMotion } = input;
+  const frames = dt * REFERENCE_FPS;
+  const radialFactor = getRadialFactor(state.effect);
+  const dim = 1 - chaos * 0.5; // Flicker more with chaos
+
+  // A morph is scripted in either mode; gravity takes over again once it has finished
+  if (state.physics.mode === 'gravity' && !state.morph) {
+    // Chaos only drives the thermal kick there, i.e. the jitter
+    stepGravity(state, reducedMotion ? { ...input, chaos: chaos * REDUCED_MOTION_JITTER } : input, dt, radialFactor);
+  } else {
+    const jitter = chaos * (reducedMotion ? REDUCED_MOTION_JITTER : 1);
+    stepOrbits(state, chaos, jitter, scale, input.rotationSpeed ?? 1, radialFactor, frames, dt);
+  }
+
+  if (state.morph) {
+    state.morph.elapsedMs += dt * 1000;
+    if (state.morph.elapsedMs >= state.morph.durationMs) {
+      state.morph = null;
+      if (state.physics.mode === 'gravity') seedOrbitalVelocities(state, scale);
+    }
+  }
+
+  if (reducedMotion) {
+    // Steady stars: each keeps its own brightness instead of re-rolling it every step
+    for (let i = 0; i < state.count; i++) state.brightness[i] = (0.3 + ((i * 0.618034) % 1) * 0.7) * dim;
+    state.coreJitter = random(state) * chaos * REDUCED_MOTION_JITTER;
+  } else {
+    for (let i = 0; i < state.count; i++) {
+      state.brightness[i] = (0.3 + random(state) * 0.7) * dim;
+    }
+    state.coreJitter = random(state) * chaos;
+  }
+
+  if (state.effect) {
+    state.effect.elapsedMs += dt * 1000;
+    if (state.effect.elapsedMs >= state.effect.durationMs) state.effect = null;
+  }
+
+  state.time += dt;
+};
+
+const TWO_PI = Math.PI * 2;
+const wrapAngle = (angle: number) => (angle >= TWO_PI ? angle - TWO_PI : angle < 0 ? angle + TWO_PI : angle);
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+const target = { x: 0, y: 0 };
+
+const stepOrbits = (
+  state: GalaxySimulationState,
+  chaos: number,
+  // Usually the same as chaos; lower with reduced motion
+  jitterAmount: number,
+  scale: number,
+  rotationSpeed: number,
+  radialFactor: number,
+  frames: number,
+  dt: number
+) => {
+  // Scale 1.0 = Normal, Scale 0.0 = Singularity
+  const orbitScale = (0.1 + scale * 1.5) * radialFactor;
+  const spin = (1 + chaos * 2) * rotationSpeed * frames;
+  // Frame-rate independent version of "move 10% of the way each frame"
+  const follow = 1 - Math.pow(1 - FOLLOW_PER_FRAME, frames);
+  // Jitter is a random walk, so it grows with the square root of elapsed frames
+  const jitter = jitterAmount * JITTER_PER_FRAME * Math.sqrt(frames);
+  const { morph } = state;
+  // How far along the morph is (eased); 1 = no morph
+  const blend = morph ? smoothstep(Math.min(morph.elapsedMs / morph.durationMs, 1)) : 1;
+
+  for (let i = 0; i < state.count; i++) {
+    const angle = wrapAngle(state.angle[i] + state.angularSpeed[i] * spin);
+    state.angle[i] = angle;
+    let orientation = state.orientation[i];
+    if (state.precession[i] !== 0) {
+      orientation = state.orientation[i] = wrapAngle(orientation + state.precession[i] * spin);
+    }
+
+    orbitPosition(state.radius[i] * orbitScale, angle, state.ellipticity[i], orientation, target);
+    let targetX = target.x;
+    let targetY = target.y;
+    if (morph) {
+      targetX = morph.fromX[i] + (targetX - morph.fromX[i]) * blend;
+      targetY = morph.fromY[i] + (targetY - morph.fromY[i]) * blend;
+    }
+
+    const dx = (targetX - state.x[i]) * follow + (random(state) - 0.5) * jitter;
+    const dy = (targetY - state.y[i]) * follow + (random(state) - 0.5) * jitter;
+    state.x[i] += dx;
+    state.y[i] += dy;
+    // Not used by this mode, but keeps velocity metrics meaningful
+    if (dt > 0) {
+      state.vx[i] = dx / dt;
+      state.vy[i] = dy / dt;
+    }
+  }
+};
+
+export const cloneSimulation = (state: GalaxySimulationState): GalaxySimulationState => {
+  const clone = {
+    ...state,
+    effect: state.effect ? { ...state.effect } : null,
+    physics: { ...state.physics },
+    morphology: { ...state.morphology },
+    morph: state.morph ? { ...state.morph, fromX: state.morph.fromX.slice(), fromY: state.morph.fromY.slice() } : null
+  };
+  FLOAT_FIELDS.forEach(field => {
+    clone[field] = state[field].slice();
+  });
+  clone.color = state.color.slice();
+  return clone;
+};
+
+// Pure step: returns the next state and leaves the input untouched
+export const step = (state: GalaxySimulationState, input: StepInput, dt: number): GalaxySimulationState => {
+  const next = cloneSimulation(state);
+  stepInPlace(next, input, dt);
+  return next;
+};
+
+export interface SerializedSimulation {
+  version: 1;
+  seed: number;
+  rngState: number;
+  time: number;
+  count: number;
+  coreJitter: number;
+  effect: TransitionEffect | null;
+  physics: PhysicsSettings;
+  // Missing in snapshots taken before galaxy types existed
+  morphology?: Morphology;
+  morph?: { fromX: number[]; fromY: number[]; elapsedMs: number; durationMs: number } | null;
+  fields: Record<FloatField, number[]>;
+  color: number[];
+}
+
+export const serializeSimulation = (state: GalaxySimulationState): SerializedSimulation => {
+  const fields = {} as Record<FloatField, number[]>;
+  FLOAT_FIELDS.forEach(field => {
+    fields[field] = Array.from(state[field]);
+  });
+  return {
+    version: 1,
+    seed: state.seed,
+    rngState: state.rngState,
+    time: state.time,
+    count: state.count,
+    coreJitter: state.coreJitter,
+    effect: state.effect ? { ...state.effect } : null,
+    physics: { ...state.physics },
+    morphology: { ...state.morphology },
+    morph: state.morph
+      ? { fromX: Array.from(state.morph.fromX), fromY: Array.from(state.morph.fromY), elapsedMs: state.morph.elapsedMs, durationMs: state.morph.durationMs }
+      : null,
+    fields,
+    color: Array.from(state.color)
+  };
+};
+
+export const deserializeSimulation = (data: SerializedSimulation): GalaxySimulationState => {
+  if (data.version !== 1) throw new Error(`Unsupported simulation snapshot version: ${data.version}`);
+  if (!Number.isSafeInteger(data.count) || data.count < 0) throw new Error(`Invalid particle count in simulation snapshot: ${data.count}`);
+  // Every per-particle array has to cover exactly `count` particles
+  const mismatched = [
+    ...FLOAT_FIELDS.filter(field => data.fields[field] !== undefined && data.fields[field].length !== data.count),
+    ...(data.color.length !== data.count ? ['color'] : []),
+    ...(data.morph && (data.morph.fromX.length !== data.count || data.morph.fromY.length !== data.count) ? ['morph'] : [])
+  ];
+  if (mismatched.length > 0) {
+    throw new Error(`Simulation snapshot arrays do not match its ${data.count} particles: ${mismatched.join(', ')}`);
+  }
+  const state = createSimulation(data.seed, 0);
+  state.rngState = data.rngState;
+  state.time = data.time;
+  state.count = data.count;
+  state.coreJitter = data.coreJitter;
+  state.effect = data.effect ? { ...data.effect } : null;
+  state.physics = { ...DEFAULT_PHYSICS, ...data.physics };
+  state.morphology = { ...DEFAULT_MORPHOLOGY, ...data.morphology };
+  state.morph = data.morph
+    ? { ...data.morph, fromX: Float32Array.from(data.morph.fromX), fromY: Float32Array.from(data.morph.fromY) }
+    : null;
+  FLOAT_FIELDS.forEach(field => {
+    // Older snapshots only had circular orbits
+    const fallback = field === 'ellipticity' ? 1 : 0;
+    state[field] = Float32Array.from(data.fields[field] ?? new Array(data.count).fill(fallback));
+  });
+  state.color = Uint8Array.from(data.color);
+  return state;
+};
@@ -0,0 +1,144 @@
+import { random } from './prng';
+import { BarnesHutTree } from './quadtree';
+import type { GalaxySimulationState, StepInput } from './galaxySimulation';
+
+// Force-based physics: particles carry real velocities and are integrated under a central
+// mass. `scale` sets that mass, `chaos` is a thermal velocity kick, and collapse or escape
+// fall out of the dynamics instead of being scripted.
+
+// Tuned so that at scale 0.5 a particle at r = 0.2 orbits in roughly the same few seconds
+// as in orbit mode.
+const CENTRAL_MASS_PER_SCALE = 0.06;
+const MIN_CENTRAL_MASS = 0.002;
+const CENTRAL_SOFTENING2 = 0.02 * 0.02;
+
+// Total mass of the disc when particle-particle attraction is on
+const DISC_MASS = 0.01;
+const PARTICLE_SOFTENING2 = 0.01 * 0.01;
+const BARNES_HUT_THETA = 0.7;
+// Below this many particles the direct O(n^2) sum is cheaper than building a tree
+const DIRECT_SUM_LIMIT = 256;
+
+// Velocity dispersion added per sqrt(second) at chaos = 1
+const THERMAL_KICK = 0.25;
+// Weak gas-like drag towards the local circular velocity. Without it the thermal kicks
+// would heat the disc forever; with it the dispersion settles at a level set by chaos.
+const DRAG_PER_SECOND = 0.2;
+// Transition effects push along the radius with this strength (world units / s^2)
+const EFFECT_ACCELERATION = 1.5;
+
+// Escaped particles are re-injected on the outer disc so the galaxy never empties out
+export const ESCAPE_RADIUS = 1.5;
+const MAX_SUBSTEP = 1 / 120;
+
+export const centralMass = (scale: number) => MIN_CENTRAL_MASS + CENTRAL_MASS_PER_SCALE * scale;
+
+// Speed of a circular orbit at radius r around the central mass
+export const circularSpeed = (r: number, scale: number) => {
+  const r2 = r * r + CENTRAL_SOFTENING2;
+  return Math.sqrt((centralMass(scale) * r * r) / (r2 * Math.sqrt(r2)));
+};
+
+// Give every particle the velocity of a circular orbit at its current position.
+// Particles still sitting at the center (a freshly created galaxy) are first placed on
+// their orbit, otherwise they would have nothing to circle.
+export const seedOrbitalVelocities = (state: GalaxySimulationState, scale: number, from: number = 0, to: number = state.count) => {
+  for (let i = from; i < to; i++) {
+    let x = state.x[i];
+    let y = state.y[i];
+    let r = Math.sqrt(x * x + y * y);
+    if (r < 1e-3) {
+      r = Math.max(state.radius[i] * (0.1 + scale * 1.5), 1e-3);
+      x = state.x[i] = Math.cos(state.angle[i]) * r;
+      y = state.y[i] = Math.sin(state.angle[i]) * r;
+    }
+    const speed = circularSpeed(r, scale) * Math.sign(state.angularSpeed[i] || 1);
+    state.vx[i] = (-y / r) * speed;
+    state.vy[i] = (x / r) * speed;
+  }
+};
+
+const respawn = (state: GalaxySimulationState, i: number, scale: number) => {
+  const angle = random(state) * Math.PI * 2;
+  const r = state.radius[i] || 0.3;
+  const speed = circularSpeed(r, scale) * Math.sign(state.angularSpeed[i] || 1);
+  state.x[i] = Math.cos(angle) * r;
+  state.y[i] = Math.sin(angle) * r;
+  state.vx[i] = -Math.sin(angle) * speed;
+  state.vy[i] = Math.cos(angle) * speed;
+};
+
+const tree = new BarnesHutTree();
+const accel = { ax: 0, ay: 0 };
+
+const substep = (state: GalaxySimulationState, input: StepInput, dt: number, radialPush: number) => {
+  const { count, x, y, vx, vy } = state;
+  const mass = centralMass(input.scale);
+  const selfGravity = state.physics.selfGravity && count > 1;
+  const bodyMass = DISC_MASS / count;
+  const useTree = selfGravity && count > DIRECT_SUM_LIMIT;
+  if (useTree) tree.build(x, y, count, bodyMass);
+
+  const kick = input.chaos * THERMAL_KICK * Math.sqrt(dt);
+  const drag = 1 - Math.exp(-DRAG_PER_SECOND * dt);
+
+  for (let i = 0; i < count; i++) {
+    const px = x[i];
+    const py = y[i];
+    const r2 = px * px + py * py;
+    const soft = r2 + CENTRAL_SOFTENING2;
+    const inv = mass / (soft * Math.sqrt(soft));
+    accel.ax = -px * inv;
+    accel.ay = -py * inv;
+
+    if (r2 > 1e-8) {
+      const r = Math.sqrt(r2);
+      accel.ax += (px / r) * radialPush;
+      accel.ay += (py / r) * radialPush;
+
+      const speed = circularSpeed(r, input.scale) * Math.sign(state.angularSpeed[i] || 1);
+      vx[i] += ((-py / r) * speed - vx[i]) * drag;
+      vy[i] += ((px / r) * speed - vy[i]) * drag;
+    }
+
+    if (useTree) {
+      tree.accumulate(px, py, i, BARNES_HUT_THETA, PARTICLE_SOFTENING2, accel);
+    } else if (selfGravity) {
+      for (let j = 0; j < count; j++) {
+        if (j === i) continue;
+        const dx = x[j] - px;
+        const dy = y[j] - py;
+        const d2 = dx * dx + dy * dy + PARTICLE_SOFTENING2;
+        const f = bodyMass / (d2 * Math.sqrt(d2));
+        accel.ax += dx * f;
+        accel.ay += dy * f;
+      }
+    }
+
+    // Semi-implicit Euler: update velocity first, then position (symplectic, stable for orbits)
+    vx[i] += accel.ax * dt + (random(state) - 0.5) * kick;
+    vy[i] += accel.ay * dt + (random(state) - 0.5) * kick;
+  }
+
+  for (let i = 0; i < count; i++) {
+    x[i] += vx[i] * dt;
+    y[i] += vy[i] * dt;
+    if (x[i] * x[i] + y[i] * y[i] > ESCAPE_RADIUS * ESCAPE_RADIUS) respawn(state, i, input.scale);
+  }
+};
+
+// Advance the gravity model by `dt` seconds, in fixed-size substeps for stability
+export const stepGravity = (state: GalaxySimulationState, input: StepInput, dt: number, radialFactor: number) => {
+  // radialFactor > 1 pushes outwards (supernova), < 1 pulls inwards (collapse)
+  const radialPush = (radialFactor - 1) * EFFECT_ACCELERATION;
+  const substeps = Math.max(1, Math.ceil(dt / MAX_SUBSTEP));
+  const h = dt / substeps;
+  for (let s = 0; s < substeps; s++) substep(state, input, h, radialPush);
+
+  // Keep the orbit-mode phase in sync so switching back doesn't snap particles around
+  for (let i = 0; i < state.count; i++) {
+    let angle = Math.atan2(state.y[i], state.x[i]);
+    if (angle < 0) angle += Math.PI * 2;
+    state.angle[i] = angle;
+  }
+};
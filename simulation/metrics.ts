@@ -0,0 +1,70 @@
+import { GalaxySimulationState } from './galaxySimulation';
+import { circularSpeed } from './gravity';
+
+// Physical readings of the particle system, in world units (1 = the smaller viewport dimension)
+export interface ParticleMetrics {
+  meanRadius: number;
+  rmsRadius: number;
+  // Spread of radial velocities: random motion, as opposed to the disc's orderly rotation
+  velocityDispersion: number;
+  // Brightness concentrated in the core, 0..1 (share of all particle light within CORE_RADIUS)
+  coreBrightness: number;
+  // Share of particles past the visible edge or, in gravity mode, moving faster than escape speed
+  escapeFraction: number;
+}
+
+const CORE_RADIUS = 0.05;
+const EDGE_RADIUS = 0.5;
+
+export const EMPTY_METRICS: ParticleMetrics = {
+  meanRadius: 0,
+  rmsRadius: 0,
+  velocityDispersion: 0,
+  coreBrightness: 0,
+  escapeFraction: 0
+};
+
+// One pass over the particles; cheap enough to run every frame
+export const computeMetrics = (state: GalaxySimulationState, scale: number): ParticleMetrics => {
+  const { count, x, y, vx, vy, brightness } = state;
+  if (count === 0) return EMPTY_METRICS;
+  const gravity = state.physics.mode === 'gravity';
+
+  let sumR = 0;
+  let sumR2 = 0;
+  let sumVr = 0;
+  let sumVr2 = 0;
+  let coreLight = 0;
+  let totalLight = 0;
+  let escaping = 0;
+
+  for (let i = 0; i < count; i++) {
+    const r = Math.sqrt(x[i] * x[i] + y[i] * y[i]);
+    sumR += r;
+    sumR2 += r * r;
+
+    const vr = r > 1e-6 ? (vx[i] * x[i] + vy[i] * y[i]) / r : 0;
+    sumVr += vr;
+    sumVr2 += vr * vr;
+
+    totalLight += brightness[i];
+    if (r < CORE_RADIUS) coreLight += brightness[i];
+
+    if (r > EDGE_RADIUS) {
+      escaping++;
+    } else if (gravity) {
+      // Unbound from a point mass when v^2 > 2 * v_circular^2
+      const vc = circularSpeed(r, scale);
+      if (vx[i] * vx[i] + vy[i] * vy[i] > 2 * vc * vc) escaping++;
+    }
+  }
+
+  const meanVr = sumVr / count;
+  return {
+    meanRadius: sumR / count,
+    rmsRadius: Math.sqrt(sumR2 / count),
+    velocityDispersion: Math.sqrt(Math.max(sumVr2 / count - meanVr * meanVr, 0)),
+    coreBrightness: totalLight > 0 ? coreLight / totalLight : 0,
+    escapeFraction: escaping / count
+  };
+};
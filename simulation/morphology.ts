@@ -0,0 +1,197 @@
+import { random, randomRange, randomSign, RngState, seedRng } from './prng';
+
+// Galaxy types (Hubble-ish). Each generator places a particle on an orbit: a phase angle on
+// an ellipse of semi-major axis `radius` and axis ratio `ellipticity`, rotated by
+// `orientation`. Spiral, barred, ring and irregular galaxies turn (nearly) rigidly so their
+// structure survives; the classic disc keeps the original random orbits.
+
+export type MorphologyType = 'disc' | 'spiral' | 'barred' | 'elliptical' | 'ring' | 'irregular';
+
+export interface Morphology {
+  type: MorphologyType;
+  // Spiral and barred only
+  arms: number;
+  // Arm pitch angle in degrees; small = tightly wound
+  pitch: number;
+}
+
+export const DEFAULT_MORPHOLOGY: Morphology = { type: 'disc', arms: 2, pitch: 18 };
+
+export const MORPHOLOGY_TYPES: MorphologyType[] = ['disc', 'spiral', 'barred', 'elliptical', 'ring', 'irregular'];
+
+export const MORPHOLOGY_LABELS: Record<MorphologyType, string> = {
+  disc: 'Disc',
+  spiral: 'Spiral',
+  barred: 'Barred spiral',
+  elliptical: 'Elliptical',
+  ring: 'Ring',
+  irregular: 'Irregular'
+};
+
+export const MIN_ARMS = 1;
+export const MAX_ARMS = 6;
+export const MIN_PITCH = 5;
+export const MAX_PITCH = 40;
+
+export const normalizeMorphology = (value: Partial<Morphology> | null | undefined): Morphology => {
+  const type = MORPHOLOGY_TYPES.includes(value?.type as MorphologyType) ? value!.type! : DEFAULT_MORPHOLOGY.type;
+  const arms = Number.isFinite(value?.arms) ? Math.round(value!.arms!) : DEFAULT_MORPHOLOGY.arms;
+  const pitch = Number.isFinite(value?.pitch) ? value!.pitch! : DEFAULT_MORPHOLOGY.pitch;
+  return {
+    type,
+    arms: Math.min(Math.max(arms, MIN_ARMS), MAX_ARMS),
+    pitch: Math.min(Math.max(pitch, MIN_PITCH), MAX_PITCH)
+  };
+};
+
+// "Barred spiral, 2 arms, 18° pitch"
+export const describeMorphology = ({ type, arms, pitch }: Morphology) =>
+  type === 'spiral' || type === 'barred'
+    ? `${MORPHOLOGY_LABELS[type]}, ${arms} arm${arms === 1 ? '' : 's'}, ${Math.round(pitch)}° pitch`
+    : MORPHOLOGY_LABELS[type];
+
+export interface Orbit {
+  radius: number;
+  angle: number;
+  // Radians per reference frame (see galaxySimulation.ts)
+  angularSpeed: number;
+  // Minor/major axis ratio, 1 = circle
+  ellipticity: number;
+  orientation: number;
+  // Turning of the ellipse itself, radians per reference frame (the bar of a barred spiral)
+  precession: number;
+}
+
+export type OrbitGenerator = (rng: RngState, orbit: Orbit) => void;
+
+const TWO_PI = Math.PI * 2;
+// Rigid rotation rate shared by the structured types
+const PATTERN_SPEED = 0.035;
+
+// Roughly normal, in [-1, 1]
+const bell = (rng: RngState) => (random(rng) + random(rng) + random(rng)) / 1.5 - 1;
+
+const circular = (orbit: Orbit, radius: number, angle: number, angularSpeed: number) => {
+  orbit.radius = radius;
+  orbit.angle = ((angle % TWO_PI) + TWO_PI) % TWO_PI;
+  orbit.angularSpeed = angularSpeed;
+  orbit.ellipticity = 1;
+  orbit.orientation = 0;
+  orbit.precession = 0;
+};
+
+// Logarithmic spiral: the arm's angle grows with ln(radius) / tan(pitch)
+const armAngle = (radius: number, innerRadius: number, pitch: number) =>
+  Math.log(Math.max(radius, innerRadius) / innerRadius) / Math.tan((pitch * Math.PI) / 180);
+
+// Small dense core shared by the spirals and the ring
+const bulge = (rng: RngState, orbit: Orbit, maxRadius: number, size: number) =>
+  circular(orbit, maxRadius * size * Math.sqrt(random(rng)), random(rng) * TWO_PI, PATTERN_SPEED);
+
+// `seed` only matters for layouts with galaxy-wide random features (irregular clumps), so
+// those stay put when particles are added later.
+export const createOrbitGenerator = (morphology: Morphology, maxRadius: number, seed: number): OrbitGenerator => {
+  const { arms, pitch } = morphology;
+  switch (morphology.type) {
+    case 'disc':
+      // The original layout; the draw order matches it so existing seeds look the same
+      return (rng, orbit) => {
+        const angle = random(rng) * TWO_PI;
+        const radius = random(rng) * maxRadius;
+        circular(orbit, radius, angle, randomRange(rng, 0.02, 0.07) * randomSign(rng));
+      };
+
+    case 'spiral': {
+      const inner = maxRadius * 0.1;
+      return (rng, orbit) => {
+        if (random(rng) < 0.15) return bulge(rng, orbit, maxRadius, 0.2);
+        const radius = inner + random(rng) * (maxRadius - inner);
+        const arm = Math.floor(random(rng) * arms);
+        // Arms get fuzzier further out
+        const spread = bell(rng) * (0.15 + 0.35 * (radius / maxRadius));
+        circular(orbit, radius, (arm * TWO_PI) / arms + armAngle(radius, inner, pitch) + spread, PATTERN_SPEED);
+      };
+    }
+
+    case 'barred': {
+      const barLength = maxRadius * 0.45;
+      return (rng, orbit) => {
+        if (random(rng) < 0.3) {
+          // Stars stream along thin ellipses that all point the same way; the ellipses
+          // precess together, which turns the bar
+          orbit.radius = random(rng) * barLength;
+          orbit.angle = random(rng) * TWO_PI;
+          orbit.angularSpeed = PATTERN_SPEED * 2.5;
+          orbit.ellipticity = randomRange(rng, 0.2, 0.35);
+          orbit.orientation = bell(rng) * 0.05;
+          orbit.precession = PATTERN_SPEED;
+          return;
+        }
+        // Arms leave from the ends of the bar
+        const radius = barLength + random(rng) * (maxRadius - barLength);
+        const arm = Math.floor(random(rng) * arms);
+        const spread = bell(rng) * (0.1 + 0.3 * (radius / maxRadius));
+        circular(orbit, radius, (arm * TWO_PI) / arms + armAngle(radius, barLength, pitch) + spread, PATTERN_SPEED);
+      };
+    }
+
+    case 'elliptical':
+      // No disc: stars on elongated orbits turning both ways, concentrated towards the center
+      return (rng, orbit) => {
+        orbit.radius = maxRadius * Math.pow(random(rng), 1.6);
+        orbit.angle = random(rng) * TWO_PI;
+        orbit.angularSpeed = randomRange(rng, 0.01, 0.03) * randomSign(rng);
+        orbit.ellipticity = randomRange(rng, 0.55, 0.95);
+        orbit.orientation = bell(rng) * 0.3;
+        orbit.precession = 0;
+      };
+
+    case 'ring':
+      return (rng, orbit) => {
+        if (random(rng) < 0.2) return bulge(rng, orbit, maxRadius, 0.12);
+        const radius = maxRadius * (0.8 + bell(rng) * 0.06);
+        circular(orbit, radius, random(rng) * TWO_PI, randomRange(rng, 0.028, 0.034));
+      };
+
+    case 'irregular': {
+      // A handful of star-forming clumps, fixed per galaxy, over a faint diffuse glow
+      const clumpRng: RngState = { rngState: seedRng(seed ^ 0x5bd1e995) };
+      const clumps = Array.from({ length: 4 + Math.floor(random(clumpRng) * 3) }, () => {
+        const r = maxRadius * randomRange(clumpRng, 0.1, 0.85);
+        const a = random(clumpRng) * TWO_PI;
+        return { x: Math.cos(a) * r, y: Math.sin(a) * r, size: maxRadius * randomRange(clumpRng, 0.06, 0.16) };
+      });
+      return (rng, orbit) => {
+        if (random(rng) < 0.3) {
+          circular(orbit, maxRadius * Math.sqrt(random(rng)), random(rng) * TWO_PI, PATTERN_SPEED * 0.6);
+          return;
+        }
+        const clump = clumps[Math.floor(random(rng) * clumps.length)];
+        const x = clump.x + bell(rng) * clump.size;
+        const y = clump.y + bell(rng) * clump.size;
+        circular(orbit, Math.sqrt(x * x + y * y), Math.atan2(y, x), PATTERN_SPEED * 0.6);
+      };
+    }
+  }
+};
+
+// Position on an orbit (before the simulation's scale is applied)
+export const orbitPosition = (
+  radius: number,
+  angle: number,
+  ellipticity: number,
+  orientation: number,
+  out: { x: number; y: number }
+) => {
+  const localX = Math.cos(angle) * radius;
+  const localY = Math.sin(angle) * radius * ellipticity;
+  if (orientation === 0) {
+    out.x = localX;
+    out.y = localY;
+    return;
+  }
+  const cos = Math.cos(orientation);
+  const sin = Math.sin(orientation);
+  out.x = localX * cos - localY * sin;
+  out.y = localX * sin + localY * cos;
+};
@@ -0,0 +1,20 @@
+// Mulberry32: tiny, fast, seedable 32-bit PRNG. Its whole state is a single uint32,
+// which keeps simulation snapshots trivially serializable.
+
+export interface RngState {
+  rngState: number;
+}
+
+export const seedRng = (seed: number): number => (seed >>> 0) || 0x9e3779b9;
+
+// Returns a float in [0, 1) and advances `holder.rngState`
+export const random = (holder: RngState): number => {
+  let t = (holder.rngState = (holder.rngState + 0x6d2b79f5) >>> 0);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomRange = (holder: RngState, min: number, max: number) => min + random(holder) * (max - min);
+
+export const randomSign = (holder: RngState) => (random(holder) < 0.5 ? 1 : -1);
@@ -0,0 +1,180 @@
+// Barnes-Hut quadtree over flat typed arrays. Rebuilt every step; storage is kept between
+// builds so steady-state simulation does not allocate.
+
+const EMPTY = -1;
+const INTERNAL = -2;
+// Bodies that still share a cell at this depth are (numerically) coincident; the extra ones
+// are left out of the tree rather than subdividing forever.
+const MAX_DEPTH = 32;
+
+export class BarnesHutTree {
+  private capacity = 0;
+  private nodeCount = 0;
+  private centerX = new Float64Array(0);
+  private centerY = new Float64Array(0);
+  private half = new Float64Array(0);
+  private mass = new Float64Array(0);
+  private comX = new Float64Array(0);
+  private comY = new Float64Array(0);
+  private body = new Int32Array(0); // Particle index for a leaf, EMPTY, or INTERNAL
+  private child = new Int32Array(0); // 4 per node, -1 when absent
+  private stack = new Int32Array(0);
+
+  private xs: ArrayLike<number> = [];
+  private ys: ArrayLike<number> = [];
+  private bodyMass = 0;
+
+  build(x: ArrayLike<number>, y: ArrayLike<number>, count: number, bodyMass: number) {
+    this.xs = x;
+    this.ys = y;
+    this.bodyMass = bodyMass;
+    this.nodeCount = 0;
+    this.ensureCapacity(Math.max(16, count * 3));
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < count; i++) {
+      if (x[i] < minX) minX = x[i];
+      if (x[i] > maxX) maxX = x[i];
+      if (y[i] < minY) minY = y[i];
+      if (y[i] > maxY) maxY = y[i];
+    }
+    if (count === 0) {
+      minX = minY = -1;
+      maxX = maxY = 1;
+    }
+
+    const half = Math.max(maxX - minX, maxY - minY) / 2 + 1e-6;
+    this.addNode((minX + maxX) / 2, (minY + maxY) / 2, half);
+    for (let i = 0; i < count; i++) this.insert(i);
+    this.computeMass();
+  }
+
+  // Adds the acceleration on body `self` (at px, py) from every other body to `out`
+  accumulate(px: number, py: number, self: number, theta: number, softening2: number, out: { ax: number; ay: number }) {
+    const theta2 = theta * theta;
+    let top = 0;
+    this.stack[top++] = 0;
+
+    while (top > 0) {
+      const node = this.stack[--top];
+      const m = this.mass[node];
+      if (m === 0) continue;
+
+      const dx = this.comX[node] - px;
+      const dy = this.comY[node] - py;
+      const d2 = dx * dx + dy * dy;
+      const b = this.body[node];
+      const size = this.half[node] * 2;
+
+      if (b === INTERNAL && size * size >= theta2 * d2) {
+        // Too close to approximate: open the cell
+        for (let q = 0; q < 4; q++) {
+          const c = this.child[node * 4 + q];
+          if (c >= 0) this.stack[top++] = c;
+        }
+        continue;
+      }
+      if (b === self) continue;
+
+      const r2 = d2 + softening2;
+      const inv = m / (r2 * Math.sqrt(r2));
+      out.ax += dx * inv;
+      out.ay += dy * inv;
+    }
+  }
+
+  private ensureCapacity(nodes: number) {
+    if (nodes <= this.capacity) return;
+    const growF64 = (old: Float64Array) => {
+      const next = new Float64Array(nodes);
+      next.set(old);
+      return next;
+    };
+    const growI32 = (old: Int32Array, size: number) => {
+      const next = new Int32Array(size);
+      next.set(old);
+      return next;
+    };
+    this.centerX = growF64(this.centerX);
+    this.centerY = growF64(this.centerY);
+    this.half = growF64(this.half);
+    this.mass = growF64(this.mass);
+    this.comX = growF64(this.comX);
+    this.comY = growF64(this.comY);
+    this.body = growI32(this.body, nodes);
+    this.child = growI32(this.child, nodes * 4);
+    this.stack = new Int32Array(nodes * 4);
+    this.capacity = nodes;
+  }
+
+  private addNode(cx: number, cy: number, half: number): number {
+    if (this.nodeCount >= this.capacity) this.ensureCapacity(this.capacity * 2);
+    const node = this.nodeCount++;
+    this.centerX[node] = cx;
+    this.centerY[node] = cy;
+    this.half[node] = half;
+    this.mass[node] = 0;
+    this.body[node] = EMPTY;
+    this.child.fill(-1, node * 4, node * 4 + 4);
+    return node;
+  }
+
+  private quadrant(i: number, node: number) {
+    return (this.xs[i] >= this.centerX[node] ? 1 : 0) + (this.ys[i] >= this.centerY[node] ? 2 : 0);
+  }
+
+  private childFor(node: number, q: number): number {
+    const existing = this.child[node * 4 + q];
+    if (existing >= 0) return existing;
+    const h = this.half[node] / 2;
+    const cx = this.centerX[node] + (q & 1 ? h : -h);
+    const cy = this.centerY[node] + (q & 2 ? h : -h);
+    // addNode may reallocate, so read parent fields before calling it
+    const created = this.addNode(cx, cy, h);
+    this.child[node * 4 + q] = created;
+    return created;
+  }
+
+  private insert(i: number) {
+    let node = 0;
+    for (let depth = 0; depth <= MAX_DEPTH; depth++) {
+      const b = this.body[node];
+      if (b === EMPTY) {
+        this.body[node] = i;
+        return;
+      }
+      if (b >= 0) {
+        if (depth === MAX_DEPTH) return;
+        // Split the leaf: push its body one level down, then keep descending with `i`
+        this.body[node] = INTERNAL;
+        const moved = this.childFor(node, this.quadrant(b, node));
+        this.body[moved] = b;
+      }
+      node = this.childFor(node, this.quadrant(i, node));
+    }
+  }
+
+  // Children are always created after their parent, so a reverse sweep is a post-order walk
+  private computeMass() {
+    for (let node = this.nodeCount - 1; node >= 0; node--) {
+      const b = this.body[node];
+      if (b >= 0) {
+        this.mass[node] = this.bodyMass;
+        this.comX[node] = this.xs[b];
+        this.comY[node] = this.ys[b];
+      } else if (b === INTERNAL) {
+        let m = 0, mx = 0, my = 0;
+        for (let q = 0; q < 4; q++) {
+          const c = this.child[node * 4 + q];
+          if (c < 0) continue;
+          m += this.mass[c];
+          mx += this.comX[c] * this.mass[c];
+          my += this.comY[c] * this.mass[c];
+        }
+        this.mass[node] = m;
+        this.comX[node] = m > 0 ? mx / m : this.centerX[node];
+        this.comY[node] = m > 0 ? my / m : this.centerY[node];
+      }
+    }
+  }
+}
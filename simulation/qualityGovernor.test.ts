@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from './qualityGovernor';
+
+// Feeds `seconds` of frames at a steady interval and work time; returns the final level
+const run = (governor: QualityGovernor, intervalMs: number, workMs: number, seconds: number, start = 0) => {
+  let now = start;
+  while (now < start + seconds * 1000) {
+    now += intervalMs;
+    governor.update(intervalMs, workMs, now);
+  }
+  return governor.getLevel();
+};
+
+describe('QualityGovernor', () => {
+  it('cuts particles when frames fall behind 60fps', () => {
+    const governor = new QualityGovernor(20000);
+    run(governor, 1000 / 60, 5, 1);
+    expect(run(governor, 33, 25, 5, 1000).particleCount).toBeLessThan(20000);
+  });
+
+  it('treats a display slower than 60 Hz as on target', () => {
+    for (const hz of [50, 48, 30]) {
+      const governor = new QualityGovernor(20000);
+      expect(run(governor, 1000 / hz, 10, 10).particleCount).toBeGreaterThanOrEqual(20000);
+    }
+  });
+
+  it('still cuts on a slow display when our work fills the frame', () => {
+    const governor = new QualityGovernor(20000);
+    expect(run(governor, 40, 38, 5).particleCount).toBeLessThan(20000);
+  });
+
+  it('grows when there is headroom', () => {
+    const governor = new QualityGovernor(2000);
+    expect(run(governor, 1000 / 50, 2, 5).particleCount).toBeGreaterThan(2000);
+  });
+});
@@ -0,0 +1,113 @@
+import { RenderDetail } from './renderer';
+
+export interface QualityLevel {
+  particleCount: number;
+  detail: RenderDetail;
+}
+
+export interface GovernorOptions {
+  targetFps: number;
+  minParticles: number;
+  maxParticles: number;
+}
+
+export const DEFAULT_GOVERNOR_OPTIONS: GovernorOptions = {
+  targetFps: 60,
+  minParticles: 400,
+  maxParticles: 50000
+};
+
+// Smoothing for the frame-time averages (per frame)
+const EMA = 0.1;
+// Wait this long after a change before judging its effect
+const COOLDOWN_MS = 1000;
+// Above this many particles switch to the cheaper render path
+const LOW_DETAIL_ABOVE = 15000;
+// Recent frame intervals kept to estimate the display's refresh interval (about 2s at 60 Hz)
+const REFRESH_WINDOW = 120;
+// Frames can't come faster than the display refreshes, so a low percentile of the recent
+// intervals is the refresh interval (plus a little timer jitter)
+const REFRESH_PERCENTILE = 0.1;
+
+// Frame-time governor: scales particle count (and render detail) up or down to hold the
+// target frame rate. Two signals are tracked: the interval between frames (are we keeping
+// up?) and the time spent in our own work (is there headroom to grow?). The target is capped
+// at the display's refresh rate: on a 50 Hz screen 20ms frames are as fast as it gets.
+export class QualityGovernor {
+  private intervalMs: number;
+  private workMs = 0;
+  private recentIntervals: number[] = [];
+  private lastChange = 0;
+  private level: QualityLevel;
+
+  constructor(initialCount: number, private options: GovernorOptions = DEFAULT_GOVERNOR_OPTIONS) {
+    this.intervalMs = 1000 / options.targetFps;
+    this.level = this.levelFor(initialCount);
+  }
+
+  getLevel(): QualityLevel {
+    return this.level;
+  }
+
+  getFps() {
+    return 1000 / this.intervalMs;
+  }
+
+  setTargetFps(targetFps: number) {
+    this.options = { ...this.options, targetFps };
+  }
+
+  // Lower (or raise) the ceiling. Returns the new level when the current one had to shrink.
+  setMaxParticles(maxParticles: number): QualityLevel | null {
+    if (maxParticles === this.options.maxParticles) return null;
+    this.options = { ...this.options, maxParticles: Math.max(maxParticles, this.options.minParticles) };
+    const next = this.levelFor(this.level.particleCount);
+    if (next.particleCount === this.level.particleCount) return null;
+    this.level = next;
+    return next;
+  }
+
+  // Report one frame. Returns the new level when it changed, otherwise null.
+  update(frameIntervalMs: number, workMs: number, now: number): QualityLevel | null {
+    this.intervalMs += (frameIntervalMs - this.intervalMs) * EMA;
+    this.workMs += (workMs - this.workMs) * EMA;
+    this.recentIntervals.push(frameIntervalMs);
+    if (this.recentIntervals.length > REFRESH_WINDOW) this.recentIntervals.shift();
+    if (now - this.lastChange < COOLDOWN_MS) return null;
+
+    const budget = Math.max(1000 / this.options.targetFps, this.refreshIntervalMs());
+    let count = this.level.particleCount;
+
+    // Slow frames from the start would look like a slow display; our own work filling the
+    // frame says otherwise
+    if (this.intervalMs > budget * 1.15 || this.workMs > budget * 0.85) {
+      // Falling behind: cut hard
+      count = Math.floor(count * 0.8);
+    } else if (this.workMs < budget * 0.5) {
+      // Plenty of headroom: grow gently
+      count = Math.ceil(count * 1.15);
+    } else {
+      return null;
+    }
+
+    const next = this.levelFor(count);
+    if (next.particleCount === this.level.particleCount && next.detail === this.level.detail) return null;
+    this.level = next;
+    this.lastChange = now;
+    return next;
+  }
+
+  private refreshIntervalMs() {
+    if (this.recentIntervals.length === 0) return 0;
+    const sorted = [...this.recentIntervals].sort((a, b) => a - b);
+    return sorted[Math.floor((sorted.length - 1) * REFRESH_PERCENTILE)];
+  }
+
+  private levelFor(count: number): QualityLevel {
+    const particleCount = Math.min(Math.max(count, this.options.minParticles), this.options.maxParticles);
+    return {
+      particleCount,
+      detail: particleCount > LOW_DETAIL_ABOVE ? 'low' : 'high'
+    };
+  }
+}
@@ -0,0 +1,287 @@
+import { SimulationState } from '../types';
+import { CameraPose, createProjection, discHeight, project, Projected } from './camera';
+import { GalaxySimulationState, PALETTE, TransitionEffect } from './galaxySimulation';
+
+// Canvas2D drawing of a simulation state. Shared by the worker (OffscreenCanvas) and the
+// main-thread fallback, so it must not touch the DOM.
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export type RenderDetail = 'high' | 'low';
+
+export interface FrameInfo {
+  width: number;
+  height: number;
+  chaos: number;
+  scale: number;
+  // Palette rotation in degrees
+  hueShift: number;
+  // Base background alpha per frame (chaos adds to it); lower leaves longer trails
+  trailFade: number;
+  state: SimulationState;
+  // 'low' draws particles as squares and skips the glow passes (picked by the quality governor)
+  detail: RenderDetail;
+  camera: CameraPose;
+  // Skips the full-screen supernova flash
+  reducedMotion?: boolean;
+}
+
+// Brightness is quantized so particles can be batched into one path per (color, level)
+// instead of paying a fillStyle change and fill() call per particle.
+const BRIGHTNESS_LEVELS = 8;
+const BUCKETS = PALETTE.length * BRIGHTNESS_LEVELS;
+
+// Rotate an RGB color's hue (Rodrigues rotation around the grey axis); white stays white
+const rotateHue = ([r, g, b]: readonly [number, number, number], degrees: number): [number, number, number] => {
+  const angle = (degrees * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const k = (1 - cos) / 3;
+  const s = Math.sqrt(1 / 3) * sin;
+  const channel = (x: number, y: number, z: number) => Math.round(Math.min(Math.max(x * (cos + k) + y * (k - s) + z * (k + s), 0), 255));
+  return [channel(r, g, b), channel(g, b, r), channel(b, r, g)];
+};
+
+const bucketStyles = (hueShift: number) => PALETTE.flatMap(color => {
+  const [r, g, b] = rotateHue(color, hueShift);
+  return Array.from({ length: BRIGHTNESS_LEVELS }, (_, level) =>
+    `rgba(${r}, ${g}, ${b}, ${((level + 0.5) / BRIGHTNESS_LEVELS).toFixed(3)})`
+  );
+});
+
+// Rebuilt only when the (whole-degree) hue shift changes
+let bucketHue = 0;
+let BUCKET_STYLES = bucketStyles(0);
+
+const bucketCounts = new Int32Array(BUCKETS + 1);
+let order = new Int32Array(0);
+
+// 3D only: particles are also sorted into depth slices, drawn back to front
+const DEPTH_LAYERS = 8;
+// Depth covered by the slices; anything beyond lands in the first or last one
+const DEPTH_RANGE = 0.5;
+const layerCounts = new Int32Array(DEPTH_LAYERS * BUCKETS + 1);
+let layerKeys = new Int32Array(0);
+let screenX = new Float32Array(0);
+let screenY = new Float32Array(0);
+let screenSize = new Float32Array(0);
+const projected: Projected = { x: 0, y: 0, depth: 0, scale: 1 };
+
+const drawEffect = (ctx: Canvas2D, effect: TransitionEffect, width: number, height: number, reducedMotion: boolean) => {
+  const t = effect.elapsedMs / effect.durationMs;
+  if (t >= 1) return;
+  const cx = width / 2;
+  const cy = height / 2;
+  const maxRadius = Math.hypot(width, height) / 2;
+
+  switch (effect.state) {
+    case SimulationState.SUPERNOVA: {
+      // Initial flash
+      if (t < 0.1 && !reducedMotion) {
+        ctx.fillStyle = `rgba(255, 255, 255, ${0.6 * (1 - t / 0.1)})`;
+        ctx.fillRect(0, 0, width, height);
+      }
+      // Expanding shockwave ring
+      const ringRadius = maxRadius * Math.min(1, t * 1.6);
+      ctx.beginPath();
+      ctx.arc(cx, cy, ringRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(255, 200, 120, ${0.8 * (1 - t)})`;
+      ctx.lineWidth = 2 + 18 * (1 - t);
+      ctx.stroke();
+      break;
+    }
+    case SimulationState.COLLAPSING: {
+      // Ring imploding into the core
+      const ringRadius = maxRadius * 0.5 * (1 - t);
+      ctx.beginPath();
+      ctx.arc(cx, cy, ringRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(100, 200, 255, ${0.6 * t})`;
+      ctx.lineWidth = 3;
+      ctx.stroke();
+      break;
+    }
+    case SimulationState.UNSTABLE: {
+      const ringRadius = 40 + 160 * t;
+      ctx.beginPath();
+      ctx.arc(cx, cy, ringRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(200, 100, 255, ${0.5 * (1 - t)})`;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      break;
+    }
+    case SimulationState.STABLE: {
+      const glow = ctx.createRadialGradient(cx, cy, 0, cx, cy, 200);
+      glow.addColorStop(0, `rgba(100, 200, 255, ${0.25 * (1 - t)})`);
+      glow.addColorStop(1, 'rgba(0,0,0,0)');
+      ctx.fillStyle = glow;
+      ctx.fillRect(cx - 200, cy - 200, 400, 400);
+      break;
+    }
+  }
+};
+
+const updateHue = (hueShift: number) => {
+  const hue = Math.round(hueShift) % 360;
+  if (hue !== bucketHue) {
+    bucketHue = hue;
+    BUCKET_STYLES = bucketStyles(hue);
+  }
+};
+
+const drawParticles = (ctx: Canvas2D, sim: GalaxySimulationState, width: number, height: number, detail: RenderDetail) => {
+  // World units -> pixels: 1 world unit = the smaller viewport dimension
+  const unit = Math.min(width, height);
+  const cx = width / 2;
+  const cy = height / 2;
+  const count = sim.count;
+
+  // Counting sort of particle indices by bucket
+  if (order.length < count) order = new Int32Array(count);
+  bucketCounts.fill(0);
+  for (let i = 0; i < count; i++) {
+    const level = Math.min(BRIGHTNESS_LEVELS - 1, Math.floor(sim.brightness[i] * BRIGHTNESS_LEVELS));
+    bucketCounts[sim.color[i] * BRIGHTNESS_LEVELS + level + 1]++;
+  }
+  for (let b = 1; b <= BUCKETS; b++) bucketCounts[b] += bucketCounts[b - 1];
+  const cursor = bucketCounts.slice(0, BUCKETS);
+  for (let i = 0; i < count; i++) {
+    const level = Math.min(BRIGHTNESS_LEVELS - 1, Math.floor(sim.brightness[i] * BRIGHTNESS_LEVELS));
+    order[cursor[sim.color[i] * BRIGHTNESS_LEVELS + level]++] = i;
+  }
+
+  ctx.globalCompositeOperation = 'screen'; // Additive blending for glow
+  for (let b = 0; b < BUCKETS; b++) {
+    const start = bucketCounts[b];
+    const end = bucketCounts[b + 1];
+    if (start === end) continue;
+
+    ctx.beginPath();
+    for (let k = start; k < end; k++) {
+      const i = order[k];
+      const px = cx + sim.x[i] * unit;
+      const py = cy + sim.y[i] * unit;
+      const size = sim.size[i];
+      if (detail === 'high') {
+        ctx.moveTo(px + size, py);
+        ctx.arc(px, py, size, 0, Math.PI * 2);
+      } else {
+        ctx.rect(px - size, py - size, size * 2, size * 2);
+      }
+    }
+    ctx.fillStyle = BUCKET_STYLES[b];
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+// Perspective projection of the particles. Returns a function that draws the slices in
+// [from, to), so the caller can put the core between the far and the near half.
+const projectParticles = (ctx: Canvas2D, sim: GalaxySimulationState, width: number, height: number, detail: RenderDetail, camera: CameraPose) => {
+  const unit = Math.min(width, height);
+  const cx = width / 2;
+  const cy = height / 2;
+  const count = sim.count;
+  const projection = createProjection(camera);
+
+  if (layerKeys.length < count) {
+    layerKeys = new Int32Array(count);
+    screenX = new Float32Array(count);
+    screenY = new Float32Array(count);
+    screenSize = new Float32Array(count);
+  }
+  if (order.length < count) order = new Int32Array(count);
+
+  // Project once, remembering each particle's (slice, bucket) key; -1 = behind the camera
+  layerCounts.fill(0);
+  for (let i = 0; i < count; i++) {
+    const x = sim.x[i];
+    const y = sim.y[i];
+    if (!project(projection, x, y, discHeight(sim.z[i], x, y, projection.thickness), projected)) {
+      layerKeys[i] = -1;
+      continue;
+    }
+    screenX[i] = cx + projected.x * unit;
+    screenY[i] = cy + projected.y * unit;
+    screenSize[i] = sim.size[i] * projected.scale;
+    // Nearer is bigger and brighter
+    const brightness = Math.min(sim.brightness[i] * projected.scale, 1);
+    const level = Math.min(BRIGHTNESS_LEVELS - 1, Math.floor(brightness * BRIGHTNESS_LEVELS));
+    const layer = Math.min(DEPTH_LAYERS - 1, Math.max(0, Math.floor(((projected.depth + DEPTH_RANGE) / (2 * DEPTH_RANGE)) * DEPTH_LAYERS)));
+    const key = layer * BUCKETS + sim.color[i] * BRIGHTNESS_LEVELS + level;
+    layerKeys[i] = key;
+    layerCounts[key + 1]++;
+  }
+  for (let k = 1; k <= DEPTH_LAYERS * BUCKETS; k++) layerCounts[k] += layerCounts[k - 1];
+  const cursor = layerCounts.slice(0, DEPTH_LAYERS * BUCKETS);
+  for (let i = 0; i < count; i++) {
+    if (layerKeys[i] >= 0) order[cursor[layerKeys[i]]++] = i;
+  }
+
+  return (fromLayer: number, toLayer: number) => {
+    ctx.globalCompositeOperation = 'screen';
+    for (let key = fromLayer * BUCKETS; key < toLayer * BUCKETS; key++) {
+      const start = layerCounts[key];
+      const end = layerCounts[key + 1];
+      if (start === end) continue;
+
+      ctx.beginPath();
+      for (let k = start; k < end; k++) {
+        const i = order[k];
+        const px = screenX[i];
+        const py = screenY[i];
+        const size = screenSize[i];
+        if (detail === 'high') {
+          ctx.moveTo(px + size, py);
+          ctx.arc(px, py, size, 0, Math.PI * 2);
+        } else {
+          ctx.rect(px - size, py - size, size * 2, size * 2);
+        }
+      }
+      ctx.fillStyle = BUCKET_STYLES[key % BUCKETS];
+      ctx.fill();
+    }
+    ctx.globalCompositeOperation = 'source-over';
+  };
+};
+
+const drawCore = (ctx: Canvas2D, sim: GalaxySimulationState, width: number, height: number, scale: number, state: SimulationState, detail: RenderDetail) => {
+  const hotCore = state === SimulationState.SUPERNOVA;
+  let centerSize = 20 * scale + sim.coreJitter * 5;
+  if (state === SimulationState.COLLAPSING) centerSize *= 0.5;
+  ctx.beginPath();
+  ctx.arc(width/2, height/2, centerSize, 0, Math.PI * 2);
+  ctx.fillStyle = hotCore ? 'white' : 'black';
+  ctx.fill();
+
+  // Glow
+  if (detail === 'high') {
+    const gradient = ctx.createRadialGradient(width/2, height/2, centerSize, width/2, height/2, centerSize * 4);
+    gradient.addColorStop(0, hotCore ? 'rgba(255,255,255,0.8)' : 'rgba(0,0,0,1)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = gradient;
+    ctx.fill();
+  }
+};
+
+export const renderFrame = (ctx: Canvas2D, sim: GalaxySimulationState, frame: FrameInfo) => {
+  const { width, height, chaos, scale, hueShift, trailFade, state, detail, camera, reducedMotion = false } = frame;
+
+  // Clear with trail effect
+  ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(trailFade + chaos * 0.3, 1)})`; // Higher chaos = less trail
+  ctx.fillRect(0, 0, width, height);
+
+  updateHue(hueShift);
+  if (camera.mode === '3d') {
+    // The core sits at depth 0: particles behind it first, then the ones in front
+    const drawLayers = projectParticles(ctx, sim, width, height, detail, camera);
+    drawLayers(0, DEPTH_LAYERS / 2);
+    drawCore(ctx, sim, width, height, scale, state, detail);
+    drawLayers(DEPTH_LAYERS / 2, DEPTH_LAYERS);
+  } else {
+    // Draw Center Black Hole/Star
+    drawCore(ctx, sim, width, height, scale, state, detail);
+    drawParticles(ctx, sim, width, height, detail);
+  }
+
+  if (sim.effect) drawEffect(ctx, sim.effect, width, height, reducedMotion);
+};
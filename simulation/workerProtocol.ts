@@ -0,0 +1,37 @@
+import { SimulationParams, SimulationState } from '../types';
+import { CameraPose } from './camera';
+import { PhysicsSettings, SerializedSimulation } from './galaxySimulation';
+import { Morphology } from './morphology';
+import { ParticleMetrics } from './metrics';
+import { RenderDetail } from './renderer';
+
+// Messages between GalaxyCanvas (main thread) and the simulation worker
+
+// Everything the engine reads from the params each frame
+export type EngineParams = Omit<SimulationParams, 'active'>;
+
+export type EngineCommand =
+  | { type: 'init'; canvas: OffscreenCanvas; seed: number; physics: PhysicsSettings; morphology: Morphology; width: number; height: number }
+  | { type: 'input'; params: EngineParams; state: SimulationState; camera: CameraPose }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'physics'; physics: PhysicsSettings }
+  | { type: 'morphology'; morphology: Morphology }
+  | { type: 'effect'; state: SimulationState }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'motion'; reducedMotion: boolean }
+  | { type: 'snapshot'; id: number }
+  // Hand over the particles themselves, e.g. to catch up a late joiner of a shared session
+  | { type: 'serialize'; id: number }
+  | { type: 'restore'; simulation: SerializedSimulation };
+
+export interface EngineStats {
+  fps: number;
+  particleCount: number;
+  detail: RenderDetail;
+}
+
+export type EngineEvent =
+  | { type: 'stats'; stats: EngineStats }
+  | { type: 'metrics'; metrics: ParticleMetrics }
+  | { type: 'snapshot'; id: number; blob: Blob | null; error?: string }
+  | { type: 'serialized'; id: number; simulation: SerializedSimulation | null };
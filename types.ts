@@ -1,13 +1,35 @@
+// Ranges, defaults and labels for each parameter live in services/paramSchema.ts
 export interface SimulationParams {
   chaos: number; // 0.0 to 1.0
   scale: number; // 0.0 to 1.0
+  particleCount: number; // Upper limit; the quality governor may run fewer to hold the frame rate
+  hueShift: number; // Degrees the star palette is rotated
+  trailFade: number; // Background alpha per frame before chaos is added (1 = no trails)
+  rotationSpeed: number; // Orbit speed multiplier
+  supernovaThreshold: number; // Entropy at which a supernova fires
   active: boolean;
 }
 
+// Something the AI did to the simulation while replying
+export interface ChatAction {
+  id: string;
+  summary: string;
+  undone?: boolean;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  // Simulation params at the moment a user message was sent
+  params?: SimulationParams;
+  // Reply was cut short by the user
+  cancelled?: boolean;
+  actions?: ChatAction[];
+  // Backend that wrote a model message
+  provider?: string;
+  // Why the backends ahead of it in the fallback chain were passed over
+  skipped?: string[];
 }
 
 export enum SimulationState {
@@ -15,4 +37,20 @@ export enum SimulationState {
   UNSTABLE = 'UNSTABLE',
   COLLAPSING = 'COLLAPSING',
   SUPERNOVA = 'SUPERNOVA'
-}
\ No newline at end of file
+}
+
+export interface StateTransition {
+  from: SimulationState;
+  to: SimulationState;
+  timestamp: number;
+  // How long the machine stayed in `from` before leaving it (ms)
+  dwellMs: number;
+}
+
+// Per-user pinch range, measured in palm widths so it is independent of camera distance
+export interface CalibrationProfile {
+  minSpan: number;
+  maxSpan: number;
+  palmWidth: number; // Typical palm width in normalized image coords at calibration time
+  createdAt: number;
+}
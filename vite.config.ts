@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(env.MEDIAPIPE_WASM_PATH ?? ''),
+        'process.env.MEDIAPIPE_MODEL_PATH': JSON.stringify(env.MEDIAPIPE_MODEL_PATH ?? '')
       },
       resolve: {
         alias: {